@@ -0,0 +1,126 @@
+import { createHash } from "node:crypto";
+import { readdirSync, readFileSync } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { getPackageVersion } from "../version";
+
+export const CACHE_DIR_NAME = ".coderoast";
+
+const CACHE_SUBDIR = "cache";
+const SOURCE_HASH_LENGTH = 16;
+
+export type AnalysisCache<T> = {
+  get: (key: string) => Promise<T | undefined>;
+  set: (key: string, value: T) => Promise<void>;
+  prune: () => Promise<void>;
+};
+
+let analyzerVersion: string | undefined;
+
+function hashAnalyzerSources(): string {
+  const hash = createHash("sha256");
+  const extension = path.extname(__filename);
+  const names = readdirSync(__dirname)
+    .filter((name) => path.extname(name) === extension)
+    .sort();
+  for (const name of names) {
+    hash.update(name);
+    hash.update("\0");
+    hash.update(readFileSync(path.join(__dirname, name)));
+  }
+  return hash.digest("hex").slice(0, SOURCE_HASH_LENGTH);
+}
+
+export function getAnalyzerVersion(): string {
+  analyzerVersion ??= `${getPackageVersion()}-${hashAnalyzerSources()}`;
+  return analyzerVersion;
+}
+
+export function hashContent(...parts: string[]): string {
+  const hash = createHash("sha256");
+  hash.update(`v${getAnalyzerVersion()}`);
+  for (const part of parts) {
+    hash.update("\0");
+    hash.update(part);
+  }
+  return hash.digest("hex");
+}
+
+export function getCacheDir(rootPath: string): string {
+  return path.join(rootPath, CACHE_DIR_NAME, CACHE_SUBDIR, `v${getAnalyzerVersion()}`);
+}
+
+async function ensureCacheRoot(rootPath: string): Promise<void> {
+  const baseDir = path.join(rootPath, CACHE_DIR_NAME);
+  await fs.mkdir(baseDir, { recursive: true });
+  const ignorePath = path.join(baseDir, ".gitignore");
+  try {
+    await fs.writeFile(ignorePath, "*\n", { flag: "wx" });
+  } catch {
+    // Already present.
+  }
+  await removeStaleVersions(rootPath);
+}
+
+async function removeStaleVersions(rootPath: string): Promise<void> {
+  const versionsDir = path.join(rootPath, CACHE_DIR_NAME, CACHE_SUBDIR);
+  const current = path.basename(getCacheDir(rootPath));
+  const entries = await fs.readdir(versionsDir).catch(() => [] as string[]);
+  await Promise.all(
+    entries
+      .filter((entry) => entry !== current)
+      .map((entry) => fs.rm(path.join(versionsDir, entry), { recursive: true, force: true }))
+  );
+}
+
+async function removeUnusedEntries(cacheDir: string, used: Set<string>): Promise<void> {
+  const shards = await fs.readdir(cacheDir).catch(() => [] as string[]);
+  for (const shard of shards) {
+    const shardDir = path.join(cacheDir, shard);
+    const entries = await fs.readdir(shardDir).catch(() => [] as string[]);
+    const stale = entries.filter((entry) => !used.has(path.basename(entry, ".json")));
+    if (stale.length === entries.length) {
+      await fs.rm(shardDir, { recursive: true, force: true });
+    } else {
+      await Promise.all(stale.map((entry) => fs.rm(path.join(shardDir, entry), { force: true })));
+    }
+  }
+}
+
+export function createAnalysisCache<T>(rootPath: string, namespace: string): AnalysisCache<T> {
+  const cacheDir = path.join(getCacheDir(rootPath), namespace);
+  const used = new Set<string>();
+  let rootReady: Promise<void> | null = null;
+  const entryPath = (key: string): string => path.join(cacheDir, key.slice(0, 2), `${key}.json`);
+
+  return {
+    get: async (key: string): Promise<T | undefined> => {
+      used.add(key);
+      try {
+        return JSON.parse(await fs.readFile(entryPath(key), "utf8")) as T;
+      } catch {
+        return undefined;
+      }
+    },
+    set: async (key: string, value: T): Promise<void> => {
+      used.add(key);
+      try {
+        rootReady ??= ensureCacheRoot(rootPath);
+        await rootReady;
+        const filePath = entryPath(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(value));
+      } catch {
+        // The cache is an optimization; a read-only checkout still gets analyzed.
+      }
+    },
+    prune: async (): Promise<void> => {
+      try {
+        await removeStaleVersions(rootPath);
+        await removeUnusedEntries(cacheDir, used);
+      } catch {
+        // Leftover entries only cost disk space; the next full run retries.
+      }
+    },
+  };
+}
@@ -1,104 +1,429 @@
-import type { CliConfig, Focus, Severity } from "../types";
+import path from "node:path";
+import {
+  FOCUS_AREAS,
+  SEVERITIES,
+  describeFieldMismatch,
+  loadConfigFile,
+  type ConfigField,
+} from "./config-loader";
+import type { CliCommand, CliConfig, Focus, Severity } from "../types";
 
 const DEFAULT_CONFIG: CliConfig = {
+  command: "report",
   path: ".",
   severity: "gentle",
   focus: "general",
   showDetails: false,
 };
 
-const SEVERITIES: Severity[] = ["gentle", "savage", "investor-demo"];
-const FOCUS_AREAS: Focus[] = [
-  "architecture",
-  "performance",
-  "style",
-  "security",
-  "general",
+type CommandSpec = {
+  name: CliCommand;
+  description: string;
+};
+
+const COMMANDS: CommandSpec[] = [
+  { name: "scan", description: "Scan the repository and print the scan result as JSON." },
+  { name: "analyze", description: "Scan and analyze the code, then print the analysis as JSON." },
+  { name: "roast", description: "Run analysis and narrate the evidence-bound roast." },
+  { name: "fix", description: "Roast, then preview evidence-locked Fix-It patches." },
+  { name: "apply", description: "Preview fixes and apply verified patches on a new branch." },
+  { name: "report", description: "Run the full pipeline honoring every flag (default)." },
 ];
 
-function getArgValue(args: string[], name: string): string | undefined {
-  const flag = `--${name}`;
-  const prefix = `${flag}=`;
+const ALL_COMMANDS: CliCommand[] = COMMANDS.map((command) => command.name);
+const ANALYSIS_COMMANDS: CliCommand[] = ["analyze", "roast", "fix", "apply", "report"];
+const NARRATION_COMMANDS: CliCommand[] = ["roast", "fix", "apply", "report"];
+const FIX_COMMANDS: CliCommand[] = ["fix", "apply", "report"];
+const APPLY_COMMANDS: CliCommand[] = ["apply", "report"];
 
-  for (let i = 0; i < args.length; i += 1) {
-    const arg = args[i];
-    if (arg === flag) {
-      return args[i + 1];
-    }
-    if (arg.startsWith(prefix)) {
-      return arg.slice(prefix.length);
-    }
-  }
+type FlagSpec = {
+  name: string;
+  aliases?: string[];
+  type: "string" | "number" | "boolean";
+  choices?: readonly string[];
+  field?: ConfigField;
+  valueName?: string;
+  repeatable?: boolean;
+  description: string;
+  commands: CliCommand[];
+};
 
-  return undefined;
+const FLAGS: FlagSpec[] = [
+  {
+    name: "path",
+    type: "string",
+    valueName: "<dir>",
+    description: "Repository to analyze (default: .).",
+    commands: ALL_COMMANDS,
+  },
+  {
+    name: "config",
+    type: "string",
+    valueName: "<file>",
+    description: "Config file to use instead of .coderoastrc / coderoast.config.json.",
+    commands: ALL_COMMANDS,
+  },
+  {
+    name: "severity",
+    type: "string",
+    choices: SEVERITIES,
+    description: "Roast tone (default: gentle).",
+    commands: NARRATION_COMMANDS,
+  },
+  {
+    name: "focus",
+    type: "string",
+    choices: FOCUS_AREAS,
+    description: "Issues to list first (default: general).",
+    commands: NARRATION_COMMANDS,
+  },
+  {
+    name: "include",
+    type: "string",
+    valueName: "<glob>",
+    repeatable: true,
+    description: "Only scan files matching this glob (repeatable).",
+    commands: ALL_COMMANDS,
+  },
+  {
+    name: "exclude",
+    type: "string",
+    valueName: "<glob>",
+    repeatable: true,
+    description: "Skip files and folders matching this glob (repeatable).",
+    commands: ALL_COMMANDS,
+  },
+  {
+    name: "since",
+    type: "string",
+    valueName: "<ref>",
+    description: "Only report findings on lines changed since this git ref.",
+    commands: ALL_COMMANDS,
+  },
+  {
+    name: "staged",
+    type: "boolean",
+    description: "Only report findings on staged lines.",
+    commands: ALL_COMMANDS,
+  },
+  {
+    name: "include-generated",
+    type: "boolean",
+    description: "Analyze generated, minified and vendored files too.",
+    commands: ALL_COMMANDS,
+  },
+  {
+    name: "no-cache",
+    type: "boolean",
+    description: "Re-parse every file instead of using the .coderoast/cache analysis cache.",
+    commands: ALL_COMMANDS,
+  },
+  {
+    name: "concurrency",
+    type: "number",
+    field: "concurrency",
+    valueName: "<n>",
+    description: "Worker threads for parsing (default: available CPU cores).",
+    commands: ALL_COMMANDS,
+  },
+  {
+    name: "type-check",
+    type: "boolean",
+    description: "Build a TypeScript program to report any usage, unsafe casts and type coverage.",
+    commands: ANALYSIS_COMMANDS,
+  },
+  {
+    name: "max-file-size-mb",
+    type: "number",
+    field: "maxFileSizeMB",
+    valueName: "<mb>",
+    description: "Skip files larger than this size (default: 5).",
+    commands: ALL_COMMANDS,
+  },
+  {
+    name: "scan-timeout-ms",
+    type: "number",
+    field: "scanTimeoutMs",
+    valueName: "<ms>",
+    description: "Stop scanning after this many milliseconds.",
+    commands: ALL_COMMANDS,
+  },
+  {
+    name: "details",
+    type: "boolean",
+    description: "Show raw evidence and patch diffs.",
+    commands: NARRATION_COMMANDS,
+  },
+  {
+    name: "details-limit",
+    type: "number",
+    field: "detailsLimit",
+    valueName: "<n>",
+    description: "Evidence lines per issue when details are shown (0 = all, default: 3).",
+    commands: NARRATION_COMMANDS,
+  },
+  {
+    name: "fix",
+    type: "boolean",
+    description: "Preview evidence-locked fixes.",
+    commands: ["report"],
+  },
+  {
+    name: "apply-fixes",
+    aliases: ["apply"],
+    type: "boolean",
+    description: "Apply verified fixes on a new branch and run tests.",
+    commands: ["report"],
+  },
+  {
+    name: "fix-debug",
+    type: "boolean",
+    description: "Save raw Gemini patch output to a temp file.",
+    commands: FIX_COMMANDS,
+  },
+  {
+    name: "fix-branch",
+    type: "string",
+    valueName: "<name>",
+    description: "Branch to create when applying fixes.",
+    commands: APPLY_COMMANDS,
+  },
+  {
+    name: "fix-test-cmd",
+    type: "string",
+    valueName: "<cmd>",
+    description: "Test command to run after applying fixes (default: npm test).",
+    commands: APPLY_COMMANDS,
+  },
+  {
+    name: "fix-limit",
+    type: "number",
+    field: "fixLimit",
+    valueName: "<n>",
+    description: "Maximum number of Fix-It attempts.",
+    commands: FIX_COMMANDS,
+  },
+];
+
+type ParsedArgs = {
+  command?: CliCommand;
+  values: Map<string, string | number | boolean | string[]>;
+  showHelp: boolean;
+  showVersion: boolean;
+};
+
+function findFlag(name: string): FlagSpec | undefined {
+  return FLAGS.find((flag) => flag.name === name || flag.aliases?.includes(name));
 }
 
-function coerceSeverity(value?: string): Severity {
-  if (value && SEVERITIES.includes(value as Severity)) {
-    return value as Severity;
-  }
-  return DEFAULT_CONFIG.severity;
+function isCommand(value: string): value is CliCommand {
+  return ALL_COMMANDS.includes(value as CliCommand);
 }
 
-function coerceFocus(value?: string): Focus {
-  if (value && FOCUS_AREAS.includes(value as Focus)) {
-    return value as Focus;
+function parseBooleanValue(flag: string, value: string): boolean {
+  const normalized = value.toLowerCase();
+  if (normalized === "" || normalized === "true" || normalized === "1") {
+    return true;
   }
-  return DEFAULT_CONFIG.focus;
+  if (normalized === "false" || normalized === "0") {
+    return false;
+  }
+  throw new Error(`Invalid value for ${flag}: "${value}" (expected true or false).`);
 }
 
-function parseNumber(value?: string): number | undefined {
-  if (!value) {
-    return undefined;
+function parseFlagValue(spec: FlagSpec, flag: string, value: string): string | number {
+  if (spec.type === "number") {
+    const parsed = value.trim() === "" ? Number.NaN : Number(value);
+    const expected = spec.field
+      ? describeFieldMismatch(spec.field, parsed)
+      : Number.isFinite(parsed)
+        ? null
+        : "a number";
+    if (expected) {
+      throw new Error(`Invalid value for ${flag}: "${value}" (expected ${expected}).`);
+    }
+    return parsed;
   }
-  const parsed = Number(value);
-  if (!Number.isFinite(parsed)) {
-    return undefined;
+  if (spec.choices && !spec.choices.includes(value)) {
+    throw new Error(
+      `Invalid value for ${flag}: "${value}" (expected one of ${spec.choices.join(", ")}).`
+    );
   }
-  return parsed;
+  return value;
 }
 
-function parseBooleanFlag(args: string[], name: string): boolean {
-  const flag = `--${name}`;
-  const prefix = `${flag}=`;
+function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = {
+    values: new Map(),
+    showHelp: false,
+    showVersion: false,
+  };
+  const seenFlags: { spec: FlagSpec; flag: string }[] = [];
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
 
-  for (const arg of args) {
-    if (arg === flag) {
-      return true;
+    if (arg === "--help" || arg === "-h") {
+      parsed.showHelp = true;
+      continue;
     }
-    if (arg.startsWith(prefix)) {
-      const value = arg.slice(prefix.length).toLowerCase();
-      if (value === "" || value === "true" || value === "1") {
-        return true;
+    if (arg === "--version" || arg === "-v") {
+      parsed.showVersion = true;
+      continue;
+    }
+
+    if (!arg.startsWith("--")) {
+      if (i === 0 && arg === "help") {
+        parsed.showHelp = true;
+        const topic = argv[i + 1];
+        if (topic && isCommand(topic)) {
+          parsed.command = topic;
+          i += 1;
+        }
+        continue;
       }
-      if (value === "false" || value === "0") {
-        return false;
+      if (i === 0 && isCommand(arg)) {
+        parsed.command = arg;
+        continue;
       }
-      return true;
+      throw new Error(`Unexpected argument "${arg}". Run coderoast --help for usage.`);
     }
+
+    const equalsIndex = arg.indexOf("=");
+    const name = equalsIndex === -1 ? arg.slice(2) : arg.slice(2, equalsIndex);
+    const inlineValue = equalsIndex === -1 ? undefined : arg.slice(equalsIndex + 1);
+    const flag = `--${name}`;
+    const spec = findFlag(name);
+    if (!spec) {
+      throw new Error(`Unknown option ${flag}. Run coderoast --help for usage.`);
+    }
+
+    if (spec.type === "boolean") {
+      parsed.values.set(spec.name, parseBooleanValue(flag, inlineValue ?? ""));
+    } else {
+      let value = inlineValue;
+      if (value === undefined) {
+        const next = argv[i + 1];
+        if (next === undefined || next.startsWith("--")) {
+          throw new Error(`Missing value for ${flag}.`);
+        }
+        value = next;
+        i += 1;
+      }
+      const parsedValue = parseFlagValue(spec, flag, value);
+      if (spec.repeatable) {
+        const existing = (parsed.values.get(spec.name) as string[] | undefined) ?? [];
+        parsed.values.set(spec.name, [...existing, String(parsedValue)]);
+      } else {
+        parsed.values.set(spec.name, parsedValue);
+      }
+    }
+    seenFlags.push({ spec, flag });
+  }
+
+  if (!parsed.showHelp && !parsed.showVersion) {
+    const command = parsed.command ?? DEFAULT_CONFIG.command ?? "report";
+    for (const { spec, flag } of seenFlags) {
+      if (!spec.commands.includes(command)) {
+        throw new Error(
+          `Option ${flag} is not supported by "${command}". Run coderoast ${command} --help for usage.`
+        );
+      }
+    }
+  }
+
+  return parsed;
+}
+
+function formatFlagUsage(spec: FlagSpec): string {
+  if (spec.type === "boolean") {
+    return [spec.name, ...(spec.aliases ?? [])].map((name) => `--${name}`).join(", ");
   }
+  const valueName = spec.choices ? `<${spec.choices.join("|")}>` : spec.valueName ?? "<value>";
+  return `--${spec.name} ${valueName}${spec.repeatable ? " ..." : ""}`;
+}
 
-  return false;
+function formatRows(rows: [string, string][]): string[] {
+  const width = Math.max(...rows.map(([label]) => label.length));
+  return rows.map(([label, description]) => `  ${label.padEnd(width)}  ${description}`);
 }
 
-function parseBooleanFlagWithAliases(args: string[], names: string[]): boolean {
-  return names.some((name) => parseBooleanFlag(args, name));
+export function renderCliHelp(command?: CliCommand): string {
+  const lines: string[] = [];
+  if (command) {
+    const spec = COMMANDS.find((entry) => entry.name === command);
+    lines.push(`Usage: coderoast ${command} [options]`, "", spec?.description ?? "");
+  } else {
+    lines.push("Usage: coderoast [command] [options]", "", "Commands:");
+    lines.push(...formatRows(COMMANDS.map((entry) => [entry.name, entry.description])));
+  }
+
+  const flags = FLAGS.filter((flag) => !command || flag.commands.includes(command));
+  const rows: [string, string][] = flags.map((flag) => {
+    const scope =
+      command || flag.commands.length === ALL_COMMANDS.length
+        ? ""
+        : ` [${flag.commands.join(", ")}]`;
+    return [formatFlagUsage(flag), `${flag.description}${scope}`];
+  });
+  rows.push(["-h, --help", "Show help."], ["-v, --version", "Show the CodeRoast version."]);
+  lines.push("", "Options:", ...formatRows(rows));
+
+  return `${lines.join("\n")}\n`;
 }
 
-export function runCliAgent(argv: string[]): CliConfig {
+export async function runCliAgent(argv: string[]): Promise<CliConfig> {
+  const parsed = parseArgs(argv);
+  const values = parsed.values;
+  const rootPath = (values.get("path") as string | undefined) ?? DEFAULT_CONFIG.path;
+
+  if (parsed.showHelp || parsed.showVersion) {
+    return {
+      ...DEFAULT_CONFIG,
+      command: parsed.command,
+      path: rootPath,
+      showHelp: parsed.showHelp,
+      showVersion: parsed.showVersion && !parsed.showHelp,
+    };
+  }
+
+  const command = parsed.command ?? DEFAULT_CONFIG.command ?? "report";
+  const fileConfig = await loadConfigFile(
+    path.resolve(rootPath),
+    values.get("config") as string | undefined
+  );
+  const readNumber = (name: string) => values.get(name) as number | undefined;
+  const readString = (name: string) => values.get(name) as string | undefined;
+  const readBoolean = (name: string) => values.get(name) as boolean | undefined;
+  const readList = (name: string) => values.get(name) as string[] | undefined;
+
   return {
-    path: getArgValue(argv, "path") ?? DEFAULT_CONFIG.path,
-    severity: coerceSeverity(getArgValue(argv, "severity")),
-    focus: coerceFocus(getArgValue(argv, "focus")),
-    maxFileSizeMB: parseNumber(getArgValue(argv, "max-file-size-mb")),
-    scanTimeoutMs: parseNumber(getArgValue(argv, "scan-timeout-ms")),
-    enableFixes: parseBooleanFlag(argv, "fix"),
-    showDetails: parseBooleanFlag(argv, "details"),
-    detailsLimit: parseNumber(getArgValue(argv, "details-limit")),
-    applyFixes: parseBooleanFlagWithAliases(argv, ["apply-fixes", "apply"]),
-    fixDebug: parseBooleanFlag(argv, "fix-debug"),
-    fixBranch: getArgValue(argv, "fix-branch"),
-    fixTestCmd: getArgValue(argv, "fix-test-cmd"),
-    fixLimit: parseNumber(getArgValue(argv, "fix-limit")),
+    command,
+    path: rootPath,
+    severity:
+      (readString("severity") as Severity | undefined) ??
+      fileConfig.severity ??
+      DEFAULT_CONFIG.severity,
+    focus: (readString("focus") as Focus | undefined) ?? fileConfig.focus ?? DEFAULT_CONFIG.focus,
+    maxFileSizeMB: readNumber("max-file-size-mb") ?? fileConfig.maxFileSizeMB,
+    scanTimeoutMs: readNumber("scan-timeout-ms") ?? fileConfig.scanTimeoutMs,
+    enableFixes: command === "fix" || command === "apply" || (readBoolean("fix") ?? false),
+    showDetails: readBoolean("details") ?? fileConfig.showDetails ?? DEFAULT_CONFIG.showDetails,
+    detailsLimit: readNumber("details-limit") ?? fileConfig.detailsLimit,
+    applyFixes: command === "apply" || (readBoolean("apply-fixes") ?? false),
+    fixDebug: readBoolean("fix-debug") ?? false,
+    fixBranch: readString("fix-branch") ?? fileConfig.fixBranch,
+    fixTestCmd: readString("fix-test-cmd") ?? fileConfig.fixTestCmd,
+    fixLimit: readNumber("fix-limit") ?? fileConfig.fixLimit,
+    ignoreDirs: fileConfig.ignoreDirs,
+    include: readList("include") ?? fileConfig.include,
+    exclude: readList("exclude") ?? fileConfig.exclude,
+    since: readString("since"),
+    staged: readBoolean("staged") ?? false,
+    includeGenerated: readBoolean("include-generated") ?? fileConfig.includeGenerated ?? false,
+    cache: readBoolean("no-cache") ? false : (fileConfig.cache ?? true),
+    concurrency: readNumber("concurrency") ?? fileConfig.concurrency,
+    typeCheck: readBoolean("type-check") ?? fileConfig.typeCheck ?? false,
+    thresholds: fileConfig.thresholds,
   };
 }
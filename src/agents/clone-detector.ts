@@ -0,0 +1,470 @@
+import ts from "typescript";
+import type { FunctionSpan } from "./parsed-file";
+import type { DuplicateBlock, DuplicateOccurrence } from "../types";
+
+export type TokenStream = {
+  shapes: string[];
+  values: string[];
+  lines: number[];
+};
+
+export type CloneFile = {
+  path: string;
+  tokens: TokenStream;
+};
+
+export type FunctionCloneFile = CloneFile & {
+  functions: FunctionSpan[];
+};
+
+export type CloneOptions = {
+  minTokens: number;
+  minLines: number;
+  maxLines: number;
+  minOccurrences: number;
+};
+
+export type NearDuplicateOptions = {
+  minTokens: number;
+  minSimilarity: number;
+};
+
+type TokenRange = {
+  file: number;
+  start: number;
+};
+
+type FunctionTokens = {
+  file: number;
+  span: FunctionSpan;
+  ids: number[];
+  grams: Set<number>;
+};
+
+const HASH_BASE = 257;
+const HASH_MODULUS = 2147483647;
+const GRAM_SIZE = 5;
+const MAX_GRAM_POSTINGS = 32;
+
+export function hashString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i += 1) {
+    hash = (hash * 33) ^ value.charCodeAt(i);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+function isSkippedNode(node: ts.Node): boolean {
+  return (
+    ts.isJSDoc(node) ||
+    ts.isImportDeclaration(node) ||
+    ts.isImportEqualsDeclaration(node) ||
+    (ts.isExportDeclaration(node) && node.moduleSpecifier !== undefined) ||
+    node.kind === ts.SyntaxKind.EndOfFileToken
+  );
+}
+
+function getTokenShape(node: ts.Node, text: string): string {
+  if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) {
+    return "$id";
+  }
+  if (ts.isNumericLiteral(node) || ts.isBigIntLiteral(node)) {
+    return "$num";
+  }
+  if (
+    ts.isStringLiteralLike(node) ||
+    ts.isTemplateLiteralToken(node) ||
+    ts.isRegularExpressionLiteral(node) ||
+    ts.isJsxText(node)
+  ) {
+    return "$str";
+  }
+  return text;
+}
+
+export function collectTokens(sourceFile: ts.SourceFile): TokenStream {
+  const tokens: TokenStream = { shapes: [], values: [], lines: [] };
+
+  const visit = (node: ts.Node): void => {
+    if (isSkippedNode(node)) {
+      return;
+    }
+    const children = node.getChildren(sourceFile);
+    if (children.length > 0) {
+      children.forEach(visit);
+      return;
+    }
+    const text = node.getText(sourceFile);
+    if (text.trim().length === 0) {
+      return;
+    }
+    tokens.shapes.push(getTokenShape(node, text));
+    tokens.values.push(text);
+    tokens.lines.push(
+      sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1
+    );
+  };
+
+  visit(sourceFile);
+  return tokens;
+}
+
+function internShapes(files: CloneFile[]): number[][] {
+  const ids = new Map<string, number>();
+  return files.map((file) =>
+    file.tokens.shapes.map((shape) => {
+      let id = ids.get(shape);
+      if (id === undefined) {
+        id = ids.size + 1;
+        ids.set(shape, id);
+      }
+      return id;
+    })
+  );
+}
+
+function powerMod(exponent: number): number {
+  let result = 1;
+  for (let i = 0; i < exponent; i += 1) {
+    result = (result * HASH_BASE) % HASH_MODULUS;
+  }
+  return result;
+}
+
+function sameWindow(streams: number[][], a: TokenRange, b: TokenRange, size: number): boolean {
+  for (let offset = 0; offset < size; offset += 1) {
+    if (streams[a.file][a.start + offset] !== streams[b.file][b.start + offset]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function countLines(lines: number[], start: number, length: number): number {
+  let count = 0;
+  for (let index = start; index < start + length; index += 1) {
+    if (index === start || lines[index] !== lines[index - 1]) {
+      count += 1;
+    }
+  }
+  return count;
+}
+
+function measureSimilarity(files: CloneFile[], ranges: TokenRange[], length: number): number {
+  const [baseline, ...others] = ranges;
+  let lowest = 1;
+  for (const range of others) {
+    let matching = 0;
+    for (let offset = 0; offset < length; offset += 1) {
+      if (
+        files[range.file].tokens.values[range.start + offset] ===
+        files[baseline.file].tokens.values[baseline.start + offset]
+      ) {
+        matching += 1;
+      }
+    }
+    lowest = Math.min(lowest, matching / length);
+  }
+  return Math.round(lowest * 100);
+}
+
+function groupWindows(streams: number[][], positions: TokenRange[], size: number): TokenRange[][] {
+  const groups: TokenRange[][] = [];
+  for (const position of positions) {
+    const group = groups.find((candidate) => sameWindow(streams, candidate[0], position, size));
+    if (group) {
+      group.push(position);
+    } else {
+      groups.push([position]);
+    }
+  }
+  return groups;
+}
+
+function dropOverlapping(ranges: TokenRange[], size: number): TokenRange[] {
+  const kept: TokenRange[] = [];
+  for (const range of ranges) {
+    const previous = kept[kept.length - 1];
+    if (!previous || previous.file !== range.file || previous.start + size <= range.start) {
+      kept.push(range);
+    }
+  }
+  return kept;
+}
+
+function isRepeatingRun(ranges: TokenRange[], length: number): boolean {
+  return ranges.some((range, index) => {
+    const next = ranges[index + 1];
+    return next !== undefined && next.file === range.file && range.start + length === next.start;
+  });
+}
+
+function extendClone(
+  files: CloneFile[],
+  streams: number[][],
+  ranges: TokenRange[],
+  options: CloneOptions
+): { ranges: TokenRange[]; length: number } {
+  let members = ranges;
+  let length = options.minTokens;
+  let lineCount = countLines(files[members[0].file].tokens.lines, members[0].start, length);
+
+  for (;;) {
+    const baseline = members[0];
+    const baselineLines = files[baseline.file].tokens.lines;
+    const baselineIndex = baseline.start + length;
+    const newLine = baselineLines[baselineIndex] !== baselineLines[baselineIndex - 1];
+    if (newLine && lineCount >= options.maxLines) {
+      return { ranges: members, length };
+    }
+
+    const byNextToken = new Map<number, TokenRange[]>();
+    members.forEach((range, index) => {
+      const next = members[index + 1];
+      const limit = next && next.file === range.file ? next.start : streams[range.file].length;
+      if (range.start + length < limit) {
+        const token = streams[range.file][range.start + length];
+        const agreeing = byNextToken.get(token) ?? [];
+        agreeing.push(range);
+        byNextToken.set(token, agreeing);
+      }
+    });
+    const largest = [...byNextToken.values()].sort((a, b) => b.length - a.length)[0] ?? [];
+    if (largest.length === members.length) {
+      length += 1;
+      lineCount += newLine ? 1 : 0;
+      continue;
+    }
+    if (lineCount >= options.minLines || largest.length < options.minOccurrences) {
+      return { ranges: members, length };
+    }
+    members = largest;
+    lineCount = countLines(files[members[0].file].tokens.lines, members[0].start, length);
+  }
+}
+
+function toOccurrence(file: CloneFile, start: number, length: number): DuplicateOccurrence {
+  return {
+    file: file.path,
+    startLine: file.tokens.lines[start],
+    endLine: file.tokens.lines[start + length - 1],
+  };
+}
+
+export function detectClones(files: CloneFile[], options: CloneOptions): DuplicateBlock[] {
+  const size = options.minTokens;
+  const streams = internShapes(files);
+  const highestPower = powerMod(size - 1);
+  const windows = new Map<number, TokenRange[]>();
+
+  streams.forEach((ids, file) => {
+    const lines = files[file].tokens.lines;
+    let hash = 0;
+    for (let index = 0; index < ids.length; index += 1) {
+      if (index >= size) {
+        const outgoing = (ids[index - size] * highestPower) % HASH_MODULUS;
+        hash = (hash - outgoing + HASH_MODULUS) % HASH_MODULUS;
+      }
+      hash = (hash * HASH_BASE + ids[index]) % HASH_MODULUS;
+      const start = index - size + 1;
+      if (start >= 0 && (start === 0 || lines[start] !== lines[start - 1])) {
+        const positions = windows.get(hash) ?? [];
+        positions.push({ file, start });
+        windows.set(hash, positions);
+      }
+    }
+  });
+
+  const covered = files.map(() => [] as { start: number; end: number }[]);
+  const isCovered = (range: TokenRange): boolean =>
+    covered[range.file].some((span) => span.start <= range.start && range.start < span.end);
+
+  const blocks: DuplicateBlock[] = [];
+  for (const positions of windows.values()) {
+    if (positions.length < options.minOccurrences) {
+      continue;
+    }
+    for (const group of groupWindows(streams, positions, size)) {
+      const candidates = dropOverlapping(group.filter((range) => !isCovered(range)), size);
+      if (candidates.length < options.minOccurrences) {
+        continue;
+      }
+      const { ranges, length } = extendClone(files, streams, candidates, options);
+      const baseline = ranges[0];
+      const lineCount = countLines(files[baseline.file].tokens.lines, baseline.start, length);
+      if (lineCount < options.minLines) {
+        continue;
+      }
+      for (const range of ranges) {
+        covered[range.file].push({ start: range.start, end: range.start + length });
+      }
+      if (isRepeatingRun(ranges, length)) {
+        continue;
+      }
+      blocks.push({
+        hash: hashString(
+          files[baseline.file].tokens.shapes.slice(baseline.start, baseline.start + length).join(" ")
+        ),
+        length: lineCount,
+        tokens: length,
+        similarity: measureSimilarity(files, ranges, length),
+        occurrences: ranges.map((range) => toOccurrence(files[range.file], range.start, length)),
+      });
+    }
+  }
+
+  return blocks;
+}
+
+function findTokenIndex(lines: number[], line: number): number {
+  let low = 0;
+  let high = lines.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (lines[middle] < line) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+function isNestedFunction(span: FunctionSpan, functions: FunctionSpan[]): boolean {
+  return functions.some(
+    (other) =>
+      other !== span &&
+      other.startLine <= span.startLine &&
+      other.endLine >= span.endLine &&
+      (other.startLine < span.startLine || other.endLine > span.endLine)
+  );
+}
+
+function collectGrams(ids: number[]): Set<number> {
+  const grams = new Set<number>();
+  for (let start = 0; start + GRAM_SIZE <= ids.length; start += 1) {
+    let hash = 0;
+    for (let offset = 0; offset < GRAM_SIZE; offset += 1) {
+      hash = (hash * HASH_BASE + ids[start + offset]) % HASH_MODULUS;
+    }
+    grams.add(hash);
+  }
+  return grams;
+}
+
+function jaccard(a: Set<number>, b: Set<number>): number {
+  let shared = 0;
+  for (const gram of a) {
+    if (b.has(gram)) {
+      shared += 1;
+    }
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function sameSequence(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((id, index) => id === b[index]);
+}
+
+export function findNearDuplicateFunctions(
+  files: FunctionCloneFile[],
+  options: NearDuplicateOptions
+): DuplicateBlock[] {
+  const streams = internShapes(files);
+  const candidates: FunctionTokens[] = [];
+  files.forEach((file, fileIndex) => {
+    for (const span of file.functions) {
+      if (isNestedFunction(span, file.functions)) {
+        continue;
+      }
+      const lines = file.tokens.lines;
+      const ids = streams[fileIndex].slice(
+        findTokenIndex(lines, span.startLine),
+        findTokenIndex(lines, span.endLine + 1)
+      );
+      if (ids.length >= options.minTokens) {
+        candidates.push({ file: fileIndex, span, ids, grams: collectGrams(ids) });
+      }
+    }
+  });
+
+  const postings = new Map<number, number[]>();
+  candidates.forEach((candidate, index) => {
+    for (const gram of candidate.grams) {
+      const entries = postings.get(gram) ?? [];
+      entries.push(index);
+      postings.set(gram, entries);
+    }
+  });
+
+  const pairs = new Set<string>();
+  for (const entries of postings.values()) {
+    if (entries.length > MAX_GRAM_POSTINGS) {
+      continue;
+    }
+    for (let i = 0; i < entries.length; i += 1) {
+      for (let j = i + 1; j < entries.length; j += 1) {
+        if (candidates[entries[i]].file !== candidates[entries[j]].file) {
+          pairs.add(`${entries[i]}:${entries[j]}`);
+        }
+      }
+    }
+  }
+
+  const parents = candidates.map((_, index) => index);
+  const findRoot = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+  const lowest = new Map<number, number>();
+  const minRatio = options.minSimilarity / 100;
+  for (const pair of pairs) {
+    const [a, b] = pair.split(":").map(Number);
+    const first = candidates[a];
+    const second = candidates[b];
+    const sizeRatio =
+      Math.min(first.grams.size, second.grams.size) / Math.max(first.grams.size, second.grams.size);
+    if (sizeRatio < minRatio || sameSequence(first.ids, second.ids)) {
+      continue;
+    }
+    const similarity = jaccard(first.grams, second.grams);
+    if (similarity < minRatio) {
+      continue;
+    }
+    const rootA = findRoot(a);
+    const rootB = findRoot(b);
+    const root = Math.min(rootA, rootB);
+    parents[Math.max(rootA, rootB)] = root;
+    lowest.set(
+      root,
+      Math.min(similarity, lowest.get(rootA) ?? 1, lowest.get(rootB) ?? 1)
+    );
+  }
+
+  const classes = new Map<number, FunctionTokens[]>();
+  candidates.forEach((candidate, index) => {
+    const root = findRoot(index);
+    if (lowest.has(root)) {
+      const members = classes.get(root) ?? [];
+      members.push(candidate);
+      classes.set(root, members);
+    }
+  });
+
+  return Array.from(classes, ([root, members]) => ({
+    hash: hashString(
+      members.map((member) => `${files[member.file].path}:${member.span.startLine}`).join("|")
+    ),
+    length: members[0].span.length,
+    tokens: members[0].ids.length,
+    similarity: Math.round((lowest.get(root) ?? 1) * 100),
+    occurrences: members.map((member) => ({
+      file: files[member.file].path,
+      startLine: member.span.startLine,
+      endLine: member.span.endLine,
+    })),
+  }));
+}
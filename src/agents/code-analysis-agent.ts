@@ -1,105 +1,109 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import ts from "typescript";
+import { createAnalysisCache, hashContent, type AnalysisCache } from "./analysis-cache";
+import {
+  detectClones,
+  findNearDuplicateFunctions,
+  type FunctionCloneFile,
+  type TokenStream,
+} from "./clone-detector";
+import { findDeadCode } from "./dead-code-analyzer";
+import {
+  findAliasScope,
+  isInternalSpecifier,
+  loadModuleAliases,
+  matchAliasRules,
+  type GoModule,
+  type ModuleAliases,
+} from "./module-aliases";
+import type { ParseTask } from "./parse-worker";
+import type { ExportReference, ImportReference, ParsedFile } from "./parsed-file";
+import { parseFile } from "./source-parser";
+import { scanSecrets } from "./security-analyzer";
+import { findStyleIssues, type StyleFile } from "./style-analyzer";
+import type { TaintStepSpan, TaintSummary } from "./taint-analyzer";
+import { createWorkerPool, mapWithConcurrency, resolveConcurrency } from "./task-pool";
+import { TYPED_EXTENSIONS, runTypeAnalysis } from "./type-analyzer";
 import type {
+  AnalysisMetrics,
   AnalysisResult,
   CircularDependency,
   CliConfig,
+  CycleEdge,
   DependencySummary,
+  Diagnostic,
   DuplicateBlock,
+  ErrorHandlingFinding,
+  FunctionMetrics,
+  LineRange,
   LongFunction,
+  PackageAnalysis,
+  PerformanceFinding,
   RepoScanResult,
+  SecurityFinding,
+  TaintFlow,
+  TaintStep,
+  WorkspacePackage,
 } from "../types";
 
 export const LONG_FUNCTION_LOC = 50;
+export const CYCLOMATIC_COMPLEXITY = 10;
+export const COGNITIVE_COMPLEXITY = 15;
+export const NESTING_DEPTH = 4;
 export const DUPLICATE_MIN_LINES = 10;
 export const DUPLICATE_MAX_LINES = 50;
 export const DUPLICATE_MIN_OCCURRENCES = 2;
+export const DUPLICATE_MIN_TOKENS = 50;
+export const NEAR_DUPLICATE_SIMILARITY = 80;
+export const MAX_PARAMETERS = 4;
+export const MAX_FILE_LINES = 500;
+export const MAX_CLASS_MEMBERS = 20;
+export const MAGIC_LITERAL_MIN_FILES = 3;
 
 const JS_TS_EXTENSIONS = new Set([".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"]);
+const PYTHON_EXTENSION = ".py";
+const GO_EXTENSION = ".go";
+const ANALYZED_EXTENSIONS = new Set([...JS_TS_EXTENSIONS, PYTHON_EXTENSION, GO_EXTENSION]);
 const TEST_DIR_NAMES = new Set(["__tests__", "test", "tests"]);
-
-type ImportReference = {
-  specifier: string;
-  startLine: number;
-  endLine: number;
-};
+const BUILD_OUTPUT_PATTERN = /^(?:(.*)\/)?(?:dist|build|lib|out)\/(.+?)(?:\.d)?\.[cm]?[jt]s$/;
+const IMPLICIT_ROOT_DIR_NAMES = new Set(["scripts", "bin", ".storybook"]);
+const IMPLICIT_ROOT_FILE_PATTERN = /(?:\.config\.[cm]?[jt]sx?|\.d\.[cm]?ts|\.stories\.[jt]sx?)$/;
+const ENV_FILE_PATTERN = /^\.env(?:\.[\w.-]+)?$/;
+const WORKER_MIN_FILES = 32;
+const IO_CONCURRENCY_FACTOR = 4;
+const PARTIAL_DIAGNOSTIC_CODES = new Set<Diagnostic["code"]>(["unreadable-file", "parse-error"]);
 
 type NormalizedFile = {
   path: string;
   extension: string;
-  normalizedLines: string[];
+  tokens: TokenStream;
   lineNumbers: number[];
   imports: ImportReference[];
+  exports: ExportReference[];
 };
 
-type DuplicateCandidate = {
-  file: string;
-  startIndex: number;
+type ImportResolver = {
+  filePaths: Set<string>;
+  packages: WorkspacePackage[];
+  aliases: ModuleAliases;
+  goPackages: Map<string, string[]>;
 };
 
-function getScriptKind(extension: string): ts.ScriptKind {
-  switch (extension) {
-    case ".tsx":
-      return ts.ScriptKind.TSX;
-    case ".jsx":
-      return ts.ScriptKind.JSX;
-    case ".js":
-      return ts.ScriptKind.JS;
-    case ".mjs":
-      return ts.ScriptKind.JS;
-    case ".cjs":
-      return ts.ScriptKind.JS;
-    default:
-      return ts.ScriptKind.TS;
-  }
-}
-
-function getLineRange(
-  node: ts.Node,
-  sourceFile: ts.SourceFile
-): { startLine: number; endLine: number } {
-  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
-  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
-  return { startLine: start.line + 1, endLine: end.line + 1 };
-}
-
-function normalizeContent(content: string): { normalizedLines: string[]; lineNumbers: number[] } {
-  const withoutBlockComments = content.replace(/\/\*[\s\S]*?\*\//g, (match) => {
-    return match.replace(/[^\n]/g, "");
-  });
-  const withoutLineComments = withoutBlockComments.replace(/\/\/.*$/gm, "");
-  const rawLines = withoutLineComments.split(/\r?\n/);
-
-  const normalizedLines: string[] = [];
-  const lineNumbers: number[] = [];
-  for (let i = 0; i < rawLines.length; i += 1) {
-    const normalized = rawLines[i].replace(/\s+/g, " ").trim();
-    if (normalized.length === 0) {
-      continue;
-    }
-    normalizedLines.push(normalized);
-    lineNumbers.push(i + 1);
-  }
-
-  return { normalizedLines, lineNumbers };
-}
-
-function hashString(value: string): string {
-  let hash = 5381;
-  for (let i = 0; i < value.length; i += 1) {
-    hash = (hash * 33) ^ value.charCodeAt(i);
-  }
-  return (hash >>> 0).toString(16);
-}
-
 function isTestPath(relativePath: string): boolean {
   const segments = relativePath.split("/");
   if (segments.some((segment) => TEST_DIR_NAMES.has(segment))) {
     return true;
   }
   const fileName = path.posix.basename(relativePath);
-  return /\.(spec|test)\.[jt]sx?$/.test(fileName);
+  return /\.(spec|test)\.[jt]sx?$|^test_\w*\.py$|_test\.(?:py|go)$|^conftest\.py$/.test(fileName);
+}
+
+function isImplicitRootPath(relativePath: string): boolean {
+  const segments = relativePath.split("/");
+  return (
+    segments.slice(0, -1).some((segment) => IMPLICIT_ROOT_DIR_NAMES.has(segment)) ||
+    IMPLICIT_ROOT_FILE_PATTERN.test(segments[segments.length - 1])
+  );
 }
 
 function toAbsolutePath(rootPath: string, relativePath: string): string {
@@ -107,311 +111,558 @@ function toAbsolutePath(rootPath: string, relativePath: string): string {
   return path.resolve(rootPath, path.join(...parts));
 }
 
-function collectImports(sourceFile: ts.SourceFile): ImportReference[] {
-  const imports: ImportReference[] = [];
+type SourceFile = {
+  path: string;
+  extension: string;
+  content: string | null;
+  cacheKey?: string;
+  parsed?: ParsedFile;
+};
 
-  const addImport = (specifier: string, node: ts.Node): void => {
-    const { startLine, endLine } = getLineRange(node, sourceFile);
-    imports.push({ specifier, startLine, endLine });
-  };
+async function readSourceFile(
+  rootPath: string,
+  file: { path: string; extension: string },
+  overrides: Record<string, string> | undefined,
+  cache: AnalysisCache<ParsedFile> | null
+): Promise<SourceFile> {
+  let content: string;
+  const overrideContent = overrides?.[file.path];
+  if (overrideContent !== undefined) {
+    content = overrideContent;
+  } else {
+    try {
+      content = await fs.readFile(toAbsolutePath(rootPath, file.path), "utf8");
+    } catch {
+      return { path: file.path, extension: file.extension, content: null };
+    }
+  }
+  if (!cache) {
+    return { path: file.path, extension: file.extension, content };
+  }
+  const cacheKey = hashContent(file.extension, content);
+  const parsed = await cache.get(cacheKey);
+  return { path: file.path, extension: file.extension, content, cacheKey, parsed };
+}
 
-  const visit = (node: ts.Node): void => {
-    if (ts.isImportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
-      addImport(node.moduleSpecifier.text, node);
-    } else if (
-      ts.isExportDeclaration(node) &&
-      node.moduleSpecifier &&
-      ts.isStringLiteral(node.moduleSpecifier)
-    ) {
-      addImport(node.moduleSpecifier.text, node);
-    } else if (ts.isImportEqualsDeclaration(node)) {
-      const ref = node.moduleReference;
-      if (ts.isExternalModuleReference(ref) && ref.expression && ts.isStringLiteral(ref.expression)) {
-        addImport(ref.expression.text, node);
-      }
-    } else if (ts.isCallExpression(node)) {
-      if (
-        ts.isIdentifier(node.expression) &&
-        node.expression.text === "require" &&
-        node.arguments.length === 1 &&
-        ts.isStringLiteral(node.arguments[0])
-      ) {
-        addImport(node.arguments[0].text, node);
-      } else if (node.expression.kind === ts.SyntaxKind.ImportKeyword && node.arguments.length === 1) {
-        const arg = node.arguments[0];
-        if (ts.isStringLiteral(arg)) {
-          addImport(arg.text, node);
-        }
+async function collectEnvFileSecrets(
+  rootPath: string,
+  scan: RepoScanResult,
+  overrides: Record<string, string> | undefined
+): Promise<SecurityFinding[]> {
+  const envFiles = scan.files.filter((file) =>
+    ENV_FILE_PATTERN.test(path.posix.basename(file.path))
+  );
+  const findings: SecurityFinding[] = [];
+  for (const file of envFiles) {
+    let content = overrides?.[file.path];
+    if (content === undefined) {
+      try {
+        content = await fs.readFile(toAbsolutePath(rootPath, file.path), "utf8");
+      } catch {
+        continue;
       }
     }
+    findings.push(
+      ...scanSecrets(content, "env").map((finding) => ({ file: file.path, ...finding }))
+    );
+  }
+  return findings;
+}
 
-    ts.forEachChild(node, visit);
-  };
+function withFile(file: string, steps: TaintStepSpan[]): TaintStep[] {
+  return steps.map((step) => ({ file, ...step }));
+}
 
-  visit(sourceFile);
-  return imports;
+function collectTaintFlows(
+  summaries: { path: string; taint: TaintSummary }[],
+  resolver: ImportResolver
+): TaintFlow[] {
+  const sinksByFile = new Map(
+    summaries.map((summary) => [summary.path, summary.taint.exportedSinks])
+  );
+  const flows: TaintFlow[] = [];
+  for (const { path: filePath, taint } of summaries) {
+    for (const flow of taint.flows) {
+      flows.push({ ...flow, steps: withFile(filePath, flow.steps) });
+    }
+    for (const call of taint.importedCalls) {
+      const target = resolveImportPath(filePath, call.specifier, resolver);
+      if (!target) {
+        continue;
+      }
+      for (const sink of sinksByFile.get(target) ?? []) {
+        if (sink.name === call.name && sink.param === call.param) {
+          flows.push({
+            source: call.source,
+            sink: sink.sink,
+            steps: [
+              ...withFile(filePath, call.steps),
+              ...withFile(target, sink.steps),
+            ],
+          });
+        }
+      }
+    }
+  }
+  return flows;
 }
 
-function getFunctionName(node: ts.Node, sourceFile: ts.SourceFile): string {
-  if (ts.isFunctionDeclaration(node) && node.name) {
-    return node.name.text;
+async function parseInWorkers(sources: SourceFile[], concurrency: number): Promise<ParsedFile[]> {
+  const pool = createWorkerPool<ParseTask, ParsedFile>(
+    path.join(__dirname, "parse-worker.js"),
+    Math.min(concurrency, sources.length)
+  );
+  try {
+    return await Promise.all(
+      sources.map((source) =>
+        pool.run({ path: source.path, extension: source.extension, content: source.content ?? "" })
+      )
+    );
+  } finally {
+    await pool.close();
   }
-  if (
-    (ts.isMethodDeclaration(node) ||
-      ts.isMethodSignature(node) ||
-      ts.isGetAccessorDeclaration(node) ||
-      ts.isSetAccessorDeclaration(node)) &&
-    node.name
-  ) {
-    return node.name.getText(sourceFile);
+}
+
+async function parseSourceFiles(
+  sources: SourceFile[],
+  concurrency: number,
+  cache: AnalysisCache<ParsedFile> | null,
+  diagnostics: Diagnostic[]
+): Promise<void> {
+  const pending = sources.filter((source) => source.content !== null && !source.parsed);
+  let parsed: ParsedFile[] | null = null;
+  if (concurrency > 1 && pending.length >= WORKER_MIN_FILES) {
+    parsed = await parseInWorkers(pending, concurrency).catch((error: unknown) => {
+      const reason = error instanceof Error ? error.message : String(error);
+      diagnostics.push({
+        code: "worker-failure",
+        stage: "analysis",
+        message: `Worker parsing failed (${reason}); files were parsed on the main thread instead.`,
+      });
+      return null;
+    });
   }
-  if (ts.isConstructorDeclaration(node)) {
-    return "constructor";
+  parsed ??= pending.map((source) =>
+    parseFile(source.path, source.extension, source.content ?? "")
+  );
+
+  for (let index = 0; index < pending.length; index += 1) {
+    const source = pending[index];
+    source.parsed = parsed[index];
+    if (cache && source.cacheKey) {
+      await cache.set(source.cacheKey, parsed[index]);
+    }
   }
+}
+
+function resolveModulePath(modulePath: string, filePaths: Set<string>): string | null {
+  const hasExtension = path.posix.extname(modulePath) !== "";
 
-  const parent = node.parent;
-  if (parent) {
-    if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
-      return parent.name.text;
+  const candidates: string[] = [];
+  if (hasExtension) {
+    candidates.push(modulePath);
+  } else {
+    for (const extension of JS_TS_EXTENSIONS) {
+      candidates.push(`${modulePath}${extension}`);
+      candidates.push(path.posix.join(modulePath, `index${extension}`));
     }
-    if (ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) {
-      if (ts.isIdentifier(parent.name)) {
-        return parent.name.text;
-      }
-      return parent.name.getText(sourceFile);
+  }
+
+  for (const candidate of candidates) {
+    if (filePaths.has(candidate)) {
+      return candidate;
     }
   }
 
-  return "<anonymous>";
+  return null;
 }
 
-function collectFunctionLengths(sourceFile: ts.SourceFile, filePath: string): LongFunction[] {
-  const functions: LongFunction[] = [];
-
-  const visit = (node: ts.Node): void => {
-    if (ts.isFunctionLike(node) && "body" in node && node.body) {
-      const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
-      const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
-      const startLine = start.line + 1;
-      const endLine = end.line + 1;
-      const length = endLine - startLine + 1;
-
-      functions.push({
-        file: filePath,
-        name: getFunctionName(node, sourceFile),
-        length,
-        startLine,
-        endLine,
-      });
-    }
+function resolveWorkspaceImport(specifier: string, resolver: ImportResolver): string | null {
+  const target = resolver.packages.find(
+    (pkg) => specifier === pkg.name || specifier.startsWith(`${pkg.name}/`)
+  );
+  if (!target) {
+    return null;
+  }
 
-    ts.forEachChild(node, visit);
-  };
+  const subpath = specifier.slice(target.name.length + 1);
+  if (subpath) {
+    return (
+      resolveModulePath(path.posix.join(target.path, subpath), resolver.filePaths) ??
+      resolveModulePath(path.posix.join(target.path, "src", subpath), resolver.filePaths)
+    );
+  }
 
-  visit(sourceFile);
-  return functions;
+  const entry = target.entryPoints.find((entryPoint) => resolver.filePaths.has(entryPoint));
+  return (
+    entry ??
+    resolveModulePath(path.posix.join(target.path, "src", "index"), resolver.filePaths) ??
+    resolveModulePath(path.posix.join(target.path, "index"), resolver.filePaths)
+  );
 }
 
-function resolveImportPath(
+function resolveAliasedImport(
   importerPath: string,
   specifier: string,
-  filePaths: Set<string>
+  resolver: ImportResolver
 ): string | null {
-  if (!specifier.startsWith(".")) {
+  const scopes = specifier.startsWith("#") ? resolver.aliases.imports : resolver.aliases.paths;
+  const scope = findAliasScope(scopes, importerPath);
+  if (!scope) {
     return null;
   }
+  const targets = matchAliasRules(specifier, scope.rules);
+  if (targets) {
+    for (const target of targets) {
+      const resolved = resolveModulePath(target, resolver.filePaths);
+      if (resolved) {
+        return resolved;
+      }
+    }
+    return null;
+  }
+  return scope.baseUrl !== undefined
+    ? resolveModulePath(path.posix.join(scope.baseUrl, specifier), resolver.filePaths)
+    : null;
+}
 
-  const baseDir = path.posix.dirname(importerPath);
-  const combined = path.posix.normalize(path.posix.join(baseDir, specifier));
-  const hasExtension = path.posix.extname(combined) !== "";
+function resolvePythonModule(modulePath: string, filePaths: Set<string>): string | null {
+  for (const candidate of [`${modulePath}.py`, path.posix.join(modulePath, "__init__.py")]) {
+    if (filePaths.has(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
 
-  const candidates: string[] = [];
-  if (hasExtension) {
-    candidates.push(combined);
+function resolvePythonImport(
+  importerPath: string,
+  specifier: string,
+  filePaths: Set<string>
+): string | null {
+  const dots = specifier.length - specifier.replace(/^\.+/, "").length;
+  const modulePath = specifier.slice(dots).split(".").join("/");
+  const roots: string[] = [];
+  if (dots > 0) {
+    let baseDir = path.posix.dirname(importerPath);
+    for (let level = 1; level < dots; level += 1) {
+      baseDir = path.posix.dirname(baseDir);
+    }
+    roots.push(baseDir);
   } else {
-    for (const extension of JS_TS_EXTENSIONS) {
-      candidates.push(`${combined}${extension}`);
-      candidates.push(path.posix.join(combined, `index${extension}`));
+    roots.push("", "src");
+    const segments = path.posix.dirname(importerPath).split("/");
+    for (let depth = 1; depth <= segments.length; depth += 1) {
+      roots.push(segments.slice(0, depth).join("/"));
     }
   }
 
+  // `from pkg import name` imports either the submodule pkg/name.py or a name defined in pkg.
+  const candidates = [modulePath];
+  if (modulePath && (dots > 0 || modulePath.includes("/"))) {
+    candidates.push(path.posix.dirname(modulePath));
+  }
   for (const candidate of candidates) {
-    if (filePaths.has(candidate)) {
-      return candidate;
+    for (const root of roots) {
+      const resolved = resolvePythonModule(path.posix.join(root, candidate), filePaths);
+      if (resolved) {
+        return resolved;
+      }
     }
   }
-
   return null;
 }
 
-function collectDuplicateBlocks(files: NormalizedFile[]): DuplicateBlock[] {
-  const candidates = new Map<string, DuplicateCandidate[]>();
-  const fileIndex = new Map<string, NormalizedFile>();
+function resolveGoPackage(specifier: string, resolver: ImportResolver): string[] {
+  let owner: GoModule | undefined;
+  for (const goModule of resolver.aliases.goModules) {
+    const matches = specifier === goModule.name || specifier.startsWith(`${goModule.name}/`);
+    if (matches && (!owner || goModule.name.length > owner.name.length)) {
+      owner = goModule;
+    }
+  }
+  if (!owner) {
+    return [];
+  }
+  const packageDir = path.posix.join(owner.dir, specifier.slice(owner.name.length + 1));
+  return resolver.goPackages.get(packageDir) ?? [];
+}
 
+function collectGoPackages(files: NormalizedFile[]): Map<string, string[]> {
+  const goPackages = new Map<string, string[]>();
   for (const file of files) {
-    fileIndex.set(file.path, file);
-    const totalLines = file.normalizedLines.length;
-    if (totalLines < DUPLICATE_MIN_LINES) {
+    if (file.extension !== GO_EXTENSION || isTestPath(file.path)) {
       continue;
     }
+    const packageDir = path.posix.dirname(file.path);
+    goPackages.set(packageDir, [...(goPackages.get(packageDir) ?? []), file.path].sort());
+  }
+  return goPackages;
+}
 
-    for (let start = 0; start <= totalLines - DUPLICATE_MIN_LINES; start += 1) {
-      const blockLines = file.normalizedLines.slice(start, start + DUPLICATE_MIN_LINES);
-      const blockKey = blockLines.join("\n");
-      const group = candidates.get(blockKey);
-      if (group) {
-        group.push({ file: file.path, startIndex: start });
-      } else {
-        candidates.set(blockKey, [{ file: file.path, startIndex: start }]);
-      }
-    }
+function resolveImportPath(
+  importerPath: string,
+  specifier: string,
+  resolver: ImportResolver
+): string | null {
+  if (importerPath.endsWith(PYTHON_EXTENSION)) {
+    return resolvePythonImport(importerPath, specifier, resolver.filePaths);
+  }
+  if (importerPath.endsWith(GO_EXTENSION)) {
+    return resolveGoPackage(specifier, resolver)[0] ?? null;
+  }
+  if (!specifier.startsWith(".")) {
+    return (
+      resolveAliasedImport(importerPath, specifier, resolver) ??
+      resolveWorkspaceImport(specifier, resolver)
+    );
   }
 
-  const duplicatesMap = new Map<string, { block: DuplicateBlock; occurrenceKeys: Set<string> }>();
+  const baseDir = path.posix.dirname(importerPath);
+  const combined = path.posix.normalize(path.posix.join(baseDir, specifier));
+  return resolveModulePath(combined, resolver.filePaths);
+}
 
-  for (const [, occurrences] of candidates) {
-    if (occurrences.length < DUPLICATE_MIN_OCCURRENCES) {
-      continue;
+function resolveEntryPointSource(entryPoint: string, filePaths: Set<string>): string | null {
+  if (filePaths.has(entryPoint)) {
+    return entryPoint;
+  }
+  const match = BUILD_OUTPUT_PATTERN.exec(entryPoint);
+  if (!match) {
+    return null;
+  }
+  const [, prefix, modulePath] = match;
+  const base = prefix ? `${prefix}/` : "";
+  return (
+    resolveModulePath(`${base}src/${modulePath}`, filePaths) ??
+    resolveModulePath(`${base}${modulePath}`, filePaths)
+  );
+}
+
+function collectUnresolvedImports(
+  files: NormalizedFile[],
+  resolver: ImportResolver,
+  scannedPaths: Set<string>
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const scannedResolver: ImportResolver = { ...resolver, filePaths: scannedPaths };
+  for (const file of files) {
+    for (const ref of file.imports) {
+      if (
+        ref.specifier.startsWith(".") ||
+        !isInternalSpecifier(ref.specifier, file.path, resolver.aliases) ||
+        resolveImportPath(file.path, ref.specifier, resolver) ||
+        resolveImportPath(file.path, ref.specifier, scannedResolver)
+      ) {
+        continue;
+      }
+      diagnostics.push({
+        code: "unresolved-import",
+        stage: "analysis",
+        message: `Unable to resolve "${ref.specifier}"; it was left out of the import graph.`,
+        path: file.path,
+        line: ref.startLine,
+      });
     }
+  }
+  return diagnostics;
+}
 
-    const baseline = occurrences[0];
-    const baselineFile = fileIndex.get(baseline.file);
-    if (!baselineFile) {
-      continue;
+function findOwningPackage(
+  filePath: string,
+  packages: WorkspacePackage[]
+): WorkspacePackage | undefined {
+  let owner: WorkspacePackage | undefined;
+  for (const pkg of packages) {
+    if (filePath.startsWith(`${pkg.path}/`) && (!owner || pkg.path.length > owner.path.length)) {
+      owner = pkg;
     }
+  }
+  return owner;
+}
+
+type ImportGraph = Map<string, Map<string, LineRange[]>>;
+
+function resolveImportTargets(
+  importerPath: string,
+  specifier: string,
+  resolver: ImportResolver
+): string[] {
+  if (importerPath.endsWith(GO_EXTENSION)) {
+    return resolveGoPackage(specifier, resolver);
+  }
+  const resolved = resolveImportPath(importerPath, specifier, resolver);
+  return resolved ? [resolved] : [];
+}
 
-    let length = DUPLICATE_MIN_LINES;
-    for (let offset = DUPLICATE_MIN_LINES; offset < DUPLICATE_MAX_LINES; offset += 1) {
-      const baselineIndex = baseline.startIndex + offset;
-      if (baselineIndex >= baselineFile.normalizedLines.length) {
-        break;
+function buildImportGraph(files: NormalizedFile[], resolver: ImportResolver): ImportGraph {
+  const graph: ImportGraph = new Map();
+  for (const file of files) {
+    const edges = new Map<string, LineRange[]>();
+    for (const ref of file.imports.filter((entry) => !entry.typeOnly)) {
+      for (const resolved of resolveImportTargets(file.path, ref.specifier, resolver)) {
+        const ranges = edges.get(resolved) ?? [];
+        ranges.push({ startLine: ref.startLine, endLine: ref.endLine });
+        edges.set(resolved, ranges);
       }
+    }
+    graph.set(file.path, edges);
+  }
+  return graph;
+}
+
+function getSortedTargets(graph: ImportGraph, node: string): string[] {
+  return Array.from(graph.get(node)?.keys() ?? []).sort();
+}
+
+function collectStronglyConnectedComponents(graph: ImportGraph): string[][] {
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
 
-      const expected = baselineFile.normalizedLines[baselineIndex];
-      let allMatch = true;
-      for (const occurrence of occurrences) {
-        const file = fileIndex.get(occurrence.file);
-        if (!file || occurrence.startIndex + offset >= file.normalizedLines.length) {
-          allMatch = false;
-          break;
+  for (const root of Array.from(graph.keys()).sort()) {
+    if (indexes.has(root)) {
+      continue;
+    }
+    const frames: { node: string; targets: string[]; position: number }[] = [];
+    const open = (node: string): void => {
+      indexes.set(node, nextIndex);
+      lowLinks.set(node, nextIndex);
+      nextIndex += 1;
+      stack.push(node);
+      onStack.add(node);
+      frames.push({ node, targets: getSortedTargets(graph, node), position: 0 });
+    };
+    open(root);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      if (frame.position < frame.targets.length) {
+        const target = frame.targets[frame.position];
+        frame.position += 1;
+        if (!graph.has(target)) {
+          continue;
         }
-        if (file.normalizedLines[occurrence.startIndex + offset] !== expected) {
-          allMatch = false;
-          break;
+        if (!indexes.has(target)) {
+          open(target);
+        } else if (onStack.has(target)) {
+          lowLinks.set(
+            frame.node,
+            Math.min(lowLinks.get(frame.node) as number, indexes.get(target) as number)
+          );
         }
+        continue;
+      }
+
+      frames.pop();
+      const parent = frames[frames.length - 1];
+      if (parent) {
+        lowLinks.set(
+          parent.node,
+          Math.min(lowLinks.get(parent.node) as number, lowLinks.get(frame.node) as number)
+        );
       }
-      if (!allMatch) {
-        break;
+      if (lowLinks.get(frame.node) === indexes.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop() as string;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        components.push(component.sort());
       }
-      length += 1;
     }
+  }
 
-    const extendedBlockLines = baselineFile.normalizedLines.slice(
-      baseline.startIndex,
-      baseline.startIndex + length
-    );
-    const extendedKey = extendedBlockLines.join("\n");
-    const hash = hashString(extendedKey);
-
-    let entry = duplicatesMap.get(extendedKey);
-    if (!entry) {
-      entry = {
-        block: {
-          hash,
-          length,
-          occurrences: [],
-        },
-        occurrenceKeys: new Set<string>(),
-      };
-      duplicatesMap.set(extendedKey, entry);
-    }
+  return components;
+}
 
-    for (const occurrence of occurrences) {
-      const file = fileIndex.get(occurrence.file);
-      if (!file) {
+function findRoute(
+  graph: ImportGraph,
+  members: Set<string>,
+  from: string,
+  isGoal: (node: string) => boolean
+): string[] {
+  const previous = new Map<string, string>([[from, from]]);
+  const queue = [from];
+  for (let head = 0; head < queue.length; head += 1) {
+    const node = queue[head];
+    for (const target of getSortedTargets(graph, node)) {
+      if (!members.has(target)) {
         continue;
       }
-      const startLine = file.lineNumbers[occurrence.startIndex];
-      const endIndex = occurrence.startIndex + length - 1;
-      if (startLine === undefined || endIndex >= file.lineNumbers.length) {
-        continue;
+      if (isGoal(target)) {
+        const route = [target];
+        for (let step = node; step !== from; step = previous.get(step) as string) {
+          route.push(step);
+        }
+        return route.reverse();
       }
-      const endLine = file.lineNumbers[endIndex];
-      const occurrenceKey = `${occurrence.file}:${startLine}:${endLine}`;
-      if (entry.occurrenceKeys.has(occurrenceKey)) {
-        continue;
+      if (!previous.has(target)) {
+        previous.set(target, node);
+        queue.push(target);
       }
-      entry.occurrenceKeys.add(occurrenceKey);
-      entry.block.occurrences.push({
-        file: occurrence.file,
-        startLine,
-        endLine,
-      });
     }
   }
+  return [];
+}
 
-  const blocks: DuplicateBlock[] = [];
-  for (const entry of duplicatesMap.values()) {
-    if (entry.block.occurrences.length >= DUPLICATE_MIN_OCCURRENCES) {
-      blocks.push(entry.block);
+function findShortestCycle(graph: ImportGraph, component: string[]): string[] {
+  const members = new Set(component);
+  let shortest: string[] = [];
+  for (const start of component) {
+    const route = findRoute(graph, members, start, (node) => node === start);
+    if (route.length > 0 && (shortest.length === 0 || route.length < shortest.length)) {
+      shortest = [start, ...route.slice(0, -1)];
     }
   }
-
-  return blocks;
+  return shortest;
 }
 
 function collectCircularDependencies(
   files: NormalizedFile[],
-  filePaths: Set<string>
+  resolver: ImportResolver
 ): CircularDependency[] {
-  const graph = new Map<string, Map<string, { startLine: number; endLine: number }[]>>();
-
-  for (const file of files) {
-    const edges = new Map<string, { startLine: number; endLine: number }[]>();
-    for (const ref of file.imports) {
-      const resolved = resolveImportPath(file.path, ref.specifier, filePaths);
-      if (!resolved) {
-        continue;
-      }
-      const ranges = edges.get(resolved) ?? [];
-      ranges.push({ startLine: ref.startLine, endLine: ref.endLine });
-      edges.set(resolved, ranges);
-    }
-    graph.set(file.path, edges);
-  }
-
+  const graph = buildImportGraph(files, resolver);
   const cycles: CircularDependency[] = [];
-  const seen = new Set<string>();
-  for (const [from, targets] of graph) {
-    for (const [to, ranges] of targets) {
-      const reverseRanges = graph.get(to)?.get(from);
-      if (!reverseRanges || reverseRanges.length === 0) {
-        continue;
-      }
-      const key = [from, to].sort().join("::");
-      if (seen.has(key)) {
-        continue;
-      }
-      seen.add(key);
-      const fromRange = ranges[0];
-      const toRange = reverseRanges[0];
-      cycles.push({
-        from,
-        to,
-        fromStartLine: fromRange.startLine,
-        fromEndLine: fromRange.endLine,
-        toStartLine: toRange.startLine,
-        toEndLine: toRange.endLine,
-      });
+
+  for (const component of collectStronglyConnectedComponents(graph)) {
+    const [first] = component;
+    if (component.length === 1 && !graph.get(first)?.has(first)) {
+      continue;
     }
+    const cycle = findShortestCycle(graph, component);
+    const edges: CycleEdge[] = cycle.map((from, index) => {
+      const to = cycle[(index + 1) % cycle.length];
+      const [range] = graph.get(from)?.get(to) ?? [];
+      return { from, to, startLine: range.startLine, endLine: range.endLine };
+    });
+    const [outgoing] = edges;
+    const incoming = edges[1 % edges.length];
+    cycles.push({
+      from: outgoing.from,
+      to: outgoing.to,
+      fromStartLine: outgoing.startLine,
+      fromEndLine: outgoing.endLine,
+      toStartLine: incoming.startLine,
+      toEndLine: incoming.endLine,
+      size: component.length,
+      files: component,
+      path: cycle,
+      edges,
+    });
   }
 
-  return cycles;
+  return cycles.sort((a, b) => b.size - a.size || a.from.localeCompare(b.from));
 }
 
 function buildDependencySummary(
   files: NormalizedFile[],
-  filePaths: Set<string>,
+  resolver: ImportResolver,
   cycles: CircularDependency[]
 ): DependencySummary {
   const outCounts = new Map<string, Set<string>>();
@@ -419,7 +670,7 @@ function buildDependencySummary(
 
   for (const file of files) {
     for (const ref of file.imports) {
-      const resolved = resolveImportPath(file.path, ref.specifier, filePaths);
+      const resolved = resolveImportPath(file.path, ref.specifier, resolver);
       if (!resolved) {
         continue;
       }
@@ -448,10 +699,13 @@ function buildDependencySummary(
     edges += imports.size;
   }
 
-  const sampleCycle = cycles.length > 0 ? { from: cycles[0].from, to: cycles[0].to } : undefined;
+  const sampleCycle =
+    cycles.length > 0
+      ? { from: cycles[0].from, to: cycles[0].to, path: cycles[0].path }
+      : undefined;
 
   return {
-    nodes: filePaths.size,
+    nodes: resolver.filePaths.size,
     edges,
     topImporters,
     topImported,
@@ -460,94 +714,303 @@ function buildDependencySummary(
   };
 }
 
+function summarizeFunctions(
+  functions: FunctionMetrics[]
+): Omit<AnalysisMetrics, "duplicateBlocks" | "errorHandlingFindings"> {
+  const totalFunctions = functions.length;
+  const max = (values: number[]): number =>
+    values.reduce((highest, value) => Math.max(highest, value), 0);
+  const average = (values: number[]): number =>
+    totalFunctions
+      ? Math.round((values.reduce((sum, value) => sum + value, 0) / totalFunctions) * 100) / 100
+      : 0;
+  const lengths = functions.map((fn) => fn.length);
+  const cyclomatic = functions.map((fn) => fn.cyclomatic);
+  return {
+    maxFunctionLength: max(lengths),
+    avgFunctionLength: average(lengths),
+    totalFunctions,
+    maxCyclomaticComplexity: max(cyclomatic),
+    avgCyclomaticComplexity: average(cyclomatic),
+    maxCognitiveComplexity: max(functions.map((fn) => fn.cognitive)),
+    maxNestingDepth: max(functions.map((fn) => fn.maxNesting)),
+  };
+}
+
+function buildPackageAnalyses(
+  packages: WorkspacePackage[],
+  files: NormalizedFile[],
+  resolver: ImportResolver,
+  signals: {
+    functions: FunctionMetrics[];
+    longFunctions: LongFunction[];
+    duplicateBlocks: DuplicateBlock[];
+    errorHandlingFindings: ErrorHandlingFinding[];
+    circularDependencies: CircularDependency[];
+    testFiles: string[];
+  }
+): PackageAnalysis[] {
+  const ownerOf = (filePath: string): WorkspacePackage | undefined =>
+    findOwningPackage(filePath, packages);
+
+  return packages.map((pkg) => {
+    const belongs = (filePath: string): boolean => ownerOf(filePath) === pkg;
+    const packageFiles = files.filter((file) => belongs(file.path));
+    const testFiles = signals.testFiles.filter(belongs).sort();
+    const dependsOn = new Set<string>();
+    for (const file of packageFiles) {
+      for (const ref of file.imports) {
+        const resolved = resolveImportPath(file.path, ref.specifier, resolver);
+        const target = resolved ? ownerOf(resolved) : undefined;
+        if (target && target !== pkg) {
+          dependsOn.add(target.name);
+        }
+      }
+    }
+
+    return {
+      name: pkg.name,
+      path: pkg.path,
+      manifest: pkg.manifest,
+      files: packageFiles.length,
+      metrics: {
+        ...summarizeFunctions(signals.functions.filter((fn) => belongs(fn.file))),
+        duplicateBlocks: signals.duplicateBlocks.filter((block) =>
+          block.occurrences.some((occurrence) => belongs(occurrence.file))
+        ).length,
+        errorHandlingFindings: signals.errorHandlingFindings.filter((finding) =>
+          belongs(finding.file)
+        ).length,
+      },
+      longFunctions: signals.longFunctions.filter((fn) => belongs(fn.file)).length,
+      circularDependencies: signals.circularDependencies.filter(
+        (cycle) => cycle.files.some(belongs)
+      ).length,
+      testPresence: { hasTests: testFiles.length > 0, testFiles },
+      dependsOn: Array.from(dependsOn).sort(),
+    };
+  });
+}
+
 export async function runCodeAnalysisAgent(
   config: CliConfig,
   scan: RepoScanResult,
   overrides?: Record<string, string>
 ): Promise<AnalysisResult> {
   const rootPath = path.resolve(config.path);
-  const files = scan.files.filter((file) => JS_TS_EXTENSIONS.has(file.extension));
+  const files = scan.files.filter(
+    (file) =>
+      ANALYZED_EXTENSIONS.has(file.extension) && (config.includeGenerated || !file.classification)
+  );
 
+  const cache = config.cache === false ? null : createAnalysisCache<ParsedFile>(rootPath, "parse");
   const normalizedFiles: NormalizedFile[] = [];
-  const allFunctions: LongFunction[] = [];
+  const allFunctions: FunctionMetrics[] = [];
   const testFiles: string[] = [];
+  const securityFindings: SecurityFinding[] = [];
+  const taintSummaries: { path: string; taint: TaintSummary }[] = [];
+  const performanceFindings: PerformanceFinding[] = [];
+  const errorHandlingFindings: ErrorHandlingFinding[] = [];
+  const styleFiles: StyleFile[] = [];
+  const cloneFunctionFiles: FunctionCloneFile[] = [];
+  const diagnostics: Diagnostic[] = [];
+
+  const concurrency = resolveConcurrency(config);
+  const sources = await mapWithConcurrency(files, concurrency * IO_CONCURRENCY_FACTOR, (file) =>
+    readSourceFile(rootPath, file, overrides, cache)
+  );
+  await parseSourceFiles(sources, concurrency, cache, diagnostics);
+  if (cache && !overrides && !config.include?.length && !config.exclude?.length) {
+    await cache.prune();
+  }
 
-  for (const file of files) {
-    const relativePath = file.path;
+  for (const source of sources) {
+    const relativePath = source.path;
     if (isTestPath(relativePath)) {
       testFiles.push(relativePath);
     }
 
-    const absolutePath = toAbsolutePath(rootPath, relativePath);
-    let content: string;
-    const overrideContent = overrides?.[relativePath];
-    if (overrideContent !== undefined) {
-      content = overrideContent;
-    } else {
-      try {
-        content = await fs.readFile(absolutePath, "utf8");
-      } catch {
-        continue;
-      }
+    const parsed = source.parsed;
+    if (!parsed) {
+      diagnostics.push({
+        code: "unreadable-file",
+        stage: "analysis",
+        message: "Unable to read file; it was left out of the analysis.",
+        path: relativePath,
+      });
+      continue;
     }
 
-    const scriptKind = getScriptKind(file.extension);
-    const sourceFile = ts.createSourceFile(
-      relativePath,
-      content,
-      ts.ScriptTarget.Latest,
-      true,
-      scriptKind
-    );
-
-    allFunctions.push(...collectFunctionLengths(sourceFile, relativePath));
-
-    const { normalizedLines, lineNumbers } = normalizeContent(content);
+    if (parsed.parseError) {
+      diagnostics.push({
+        code: "parse-error",
+        stage: "analysis",
+        message: parsed.parseError.message,
+        path: relativePath,
+        line: parsed.parseError.line,
+      });
+    }
+    allFunctions.push(...parsed.functions.map((fn) => ({ file: relativePath, ...fn })));
+    if (!isTestPath(relativePath)) {
+      securityFindings.push(
+        ...parsed.security.map((finding) => ({ file: relativePath, ...finding }))
+      );
+      taintSummaries.push({ path: relativePath, taint: parsed.taint });
+      performanceFindings.push(
+        ...parsed.performance.map((finding) => ({ file: relativePath, ...finding }))
+      );
+      errorHandlingFindings.push(
+        ...parsed.errorHandling.map((finding) => ({ file: relativePath, ...finding }))
+      );
+      styleFiles.push({
+        path: relativePath,
+        codeLines: parsed.normalizedLines.length,
+        lastLine: parsed.lineNumbers[parsed.lineNumbers.length - 1] ?? 1,
+        functions: parsed.functions,
+        style: parsed.style,
+      });
+      cloneFunctionFiles.push({
+        path: relativePath,
+        tokens: parsed.tokens,
+        functions: parsed.functions,
+      });
+    }
     normalizedFiles.push({
       path: relativePath,
-      extension: file.extension,
-      normalizedLines,
-      lineNumbers,
-      imports: collectImports(sourceFile),
+      extension: source.extension,
+      tokens: parsed.tokens,
+      lineNumbers: parsed.lineNumbers,
+      imports: parsed.imports,
+      exports: parsed.exports,
     });
   }
 
-  const totalFunctions = allFunctions.length;
-  const maxFunctionLength = totalFunctions
-    ? Math.max(...allFunctions.map((fn) => fn.length))
-    : 0;
-  const avgFunctionLength = totalFunctions
-    ? Math.round(
-        (allFunctions.reduce((sum, fn) => sum + fn.length, 0) / totalFunctions) * 100
-      ) / 100
-    : 0;
-
-  const longFunctions = allFunctions.filter((fn) => fn.length >= LONG_FUNCTION_LOC);
-  const duplicateBlocks = collectDuplicateBlocks(normalizedFiles);
-  const filePathSet = new Set<string>(normalizedFiles.map((file) => file.path));
-  const circularDependencies = collectCircularDependencies(normalizedFiles, filePathSet);
+  const functionMetrics = summarizeFunctions(allFunctions);
+
+  const thresholds = config.thresholds ?? {};
+  const longFunctionLoc = thresholds.longFunctionLoc ?? LONG_FUNCTION_LOC;
+  const longFunctions = allFunctions.filter((fn) => fn.length >= longFunctionLoc);
+  const cyclomaticLimit = thresholds.cyclomaticComplexity ?? CYCLOMATIC_COMPLEXITY;
+  const cognitiveLimit = thresholds.cognitiveComplexity ?? COGNITIVE_COMPLEXITY;
+  const nestingLimit = thresholds.nestingDepth ?? NESTING_DEPTH;
+  const complexFunctions = allFunctions.filter(
+    (fn) => fn.cyclomatic >= cyclomaticLimit || fn.cognitive >= cognitiveLimit
+  );
+  const deeplyNestedFunctions = allFunctions.filter((fn) => fn.maxNesting >= nestingLimit);
+  const duplicateMinTokens = thresholds.duplicateMinTokens ?? DUPLICATE_MIN_TOKENS;
+  const duplicateBlocks = detectClones(normalizedFiles, {
+    minTokens: duplicateMinTokens,
+    minLines: thresholds.duplicateMinLines ?? DUPLICATE_MIN_LINES,
+    maxLines: thresholds.duplicateMaxLines ?? DUPLICATE_MAX_LINES,
+    minOccurrences: thresholds.duplicateMinOccurrences ?? DUPLICATE_MIN_OCCURRENCES,
+  });
+  const workspacePackages = scan.packages ?? [];
+  const resolver: ImportResolver = {
+    filePaths: new Set<string>(normalizedFiles.map((file) => file.path)),
+    packages: workspacePackages,
+    aliases: await loadModuleAliases(rootPath, scan.projectFiles),
+    goPackages: collectGoPackages(normalizedFiles),
+  };
+  diagnostics.push(
+    ...collectUnresolvedImports(
+      normalizedFiles,
+      resolver,
+      new Set<string>(scan.files.map((file) => file.path))
+    )
+  );
+  const circularDependencies = collectCircularDependencies(normalizedFiles, resolver);
   const dependencySummary = buildDependencySummary(
     normalizedFiles,
-    filePathSet,
+    resolver,
     circularDependencies
   );
+  const implicitRoots = normalizedFiles
+    .map((file) => file.path)
+    .filter((filePath) => isImplicitRootPath(filePath));
+  const { unusedExports, orphanModules } = findDeadCode(
+    normalizedFiles
+      .filter((file) => JS_TS_EXTENSIONS.has(file.extension))
+      .map((file) => ({
+        path: file.path,
+        lastLine: file.lineNumbers[file.lineNumbers.length - 1] ?? 1,
+        imports: file.imports,
+        exports: file.exports,
+      })),
+    {
+      entryPoints: new Set(
+        scan.entryPoints
+          .map((entryPoint) => resolveEntryPointSource(entryPoint, resolver.filePaths))
+          .filter((entryPoint): entryPoint is string => entryPoint !== null)
+      ),
+      roots: new Set([...testFiles, ...implicitRoots]),
+      resolve: (importerPath, specifier) => resolveImportPath(importerPath, specifier, resolver),
+    }
+  );
 
-  return {
+  const result: AnalysisResult = {
     metrics: {
-      maxFunctionLength,
-      avgFunctionLength,
+      ...functionMetrics,
       duplicateBlocks: duplicateBlocks.length,
-      totalFunctions,
+      errorHandlingFindings: errorHandlingFindings.length,
     },
     signals: {
       longFunctions,
+      complexFunctions,
+      deeplyNestedFunctions,
       duplicateBlocks,
+      nearDuplicateFunctions: findNearDuplicateFunctions(cloneFunctionFiles, {
+        minTokens: duplicateMinTokens,
+        minSimilarity: thresholds.nearDuplicateSimilarity ?? NEAR_DUPLICATE_SIMILARITY,
+      }),
       circularDependencies,
+      unusedExports,
+      orphanModules,
+      securityFindings: [
+        ...securityFindings,
+        ...(await collectEnvFileSecrets(rootPath, scan, overrides)),
+      ],
+      taintFlows: collectTaintFlows(taintSummaries, resolver),
+      performanceFindings,
+      errorHandlingFindings,
+      styleFindings: findStyleIssues(styleFiles, {
+        maxParameters: thresholds.maxParameters ?? MAX_PARAMETERS,
+        maxFileLines: thresholds.maxFileLines ?? MAX_FILE_LINES,
+        maxClassMembers: thresholds.maxClassMembers ?? MAX_CLASS_MEMBERS,
+        magicLiteralMinFiles: thresholds.magicLiteralMinFiles ?? MAGIC_LITERAL_MIN_FILES,
+      }),
       testPresence: {
         hasTests: testFiles.length > 0,
         testFiles: testFiles.sort(),
       },
     },
     dependencySummary,
+    diagnostics,
+    partial: diagnostics.some((diagnostic) => PARTIAL_DIAGNOSTIC_CODES.has(diagnostic.code)),
   };
+
+  if (config.typeCheck) {
+    const typeAnalysis = runTypeAnalysis({
+      rootPath,
+      files: normalizedFiles
+        .filter((file) => TYPED_EXTENSIONS.has(file.extension) && !file.path.endsWith(".d.ts"))
+        .map((file) => file.path),
+      projectFiles: scan.projectFiles,
+      overrides,
+    });
+    result.signals.typeFindings = typeAnalysis.findings;
+    result.typeCoverage = typeAnalysis.coverage;
+  }
+
+  if (workspacePackages.length > 0) {
+    result.packages = buildPackageAnalyses(workspacePackages, normalizedFiles, resolver, {
+      functions: allFunctions,
+      longFunctions,
+      duplicateBlocks,
+      errorHandlingFindings,
+      circularDependencies,
+      testFiles,
+    });
+  }
+
+  return result;
 }
@@ -0,0 +1,285 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { AnalysisThresholds, CliConfig, Focus, Severity } from "../types";
+
+export const SEVERITIES: Severity[] = ["gentle", "savage", "investor-demo"];
+export const FOCUS_AREAS: Focus[] = [
+  "architecture",
+  "performance",
+  "style",
+  "security",
+  "general",
+];
+
+export const CONFIG_FILE_NAMES = [".coderoastrc", ".coderoastrc.json", "coderoast.config.json"];
+
+export type ConfigFileValues = Partial<
+  Pick<
+    CliConfig,
+    | "severity"
+    | "focus"
+    | "maxFileSizeMB"
+    | "scanTimeoutMs"
+    | "showDetails"
+    | "detailsLimit"
+    | "fixLimit"
+    | "fixBranch"
+    | "fixTestCmd"
+    | "ignoreDirs"
+    | "include"
+    | "exclude"
+    | "includeGenerated"
+    | "cache"
+    | "concurrency"
+    | "typeCheck"
+    | "thresholds"
+  >
+>;
+
+type FieldSpec =
+  | { kind: "enum"; values: readonly string[] }
+  | { kind: "number"; integer?: boolean; min: number; max?: number }
+  | { kind: "string" }
+  | { kind: "boolean" }
+  | { kind: "stringArray" };
+
+export type ConfigField = Exclude<keyof ConfigFileValues, "thresholds">;
+
+const CONFIG_FIELDS: Record<ConfigField, FieldSpec> = {
+  severity: { kind: "enum", values: SEVERITIES },
+  focus: { kind: "enum", values: FOCUS_AREAS },
+  maxFileSizeMB: { kind: "number", min: 0 },
+  scanTimeoutMs: { kind: "number", integer: true, min: 0 },
+  showDetails: { kind: "boolean" },
+  detailsLimit: { kind: "number", integer: true, min: 0 },
+  fixLimit: { kind: "number", integer: true, min: 0 },
+  fixBranch: { kind: "string" },
+  fixTestCmd: { kind: "string" },
+  ignoreDirs: { kind: "stringArray" },
+  include: { kind: "stringArray" },
+  exclude: { kind: "stringArray" },
+  includeGenerated: { kind: "boolean" },
+  cache: { kind: "boolean" },
+  concurrency: { kind: "number", integer: true, min: 1 },
+  typeCheck: { kind: "boolean" },
+};
+
+const THRESHOLD_FIELDS: Record<keyof AnalysisThresholds, FieldSpec> = {
+  longFunctionLoc: { kind: "number", integer: true, min: 1 },
+  duplicateMinLines: { kind: "number", integer: true, min: 2 },
+  duplicateMaxLines: { kind: "number", integer: true, min: 2 },
+  duplicateMinOccurrences: { kind: "number", integer: true, min: 2 },
+  duplicateMinTokens: { kind: "number", integer: true, min: 10 },
+  nearDuplicateSimilarity: { kind: "number", min: 50, max: 100 },
+  maxLongFunctions: { kind: "number", integer: true, min: 1 },
+  maxDuplicateBlocks: { kind: "number", integer: true, min: 1 },
+  maxDuplicateOccurrences: { kind: "number", integer: true, min: 1 },
+  maxNearDuplicates: { kind: "number", integer: true, min: 1 },
+  maxCircularCycles: { kind: "number", integer: true, min: 1 },
+  cyclomaticComplexity: { kind: "number", integer: true, min: 1 },
+  cognitiveComplexity: { kind: "number", integer: true, min: 1 },
+  nestingDepth: { kind: "number", integer: true, min: 1 },
+  maxComplexFunctions: { kind: "number", integer: true, min: 1 },
+  maxUnusedExports: { kind: "number", integer: true, min: 1 },
+  maxOrphanModules: { kind: "number", integer: true, min: 1 },
+  minTypeCoverage: { kind: "number", min: 0, max: 100 },
+  maxTypeFindings: { kind: "number", integer: true, min: 1 },
+  maxSecurityFindings: { kind: "number", integer: true, min: 1 },
+  maxTaintFlows: { kind: "number", integer: true, min: 1 },
+  maxPerformanceFindings: { kind: "number", integer: true, min: 1 },
+  maxErrorHandlingFindings: { kind: "number", integer: true, min: 1 },
+  maxParameters: { kind: "number", integer: true, min: 1 },
+  maxFileLines: { kind: "number", integer: true, min: 1 },
+  maxClassMembers: { kind: "number", integer: true, min: 1 },
+  magicLiteralMinFiles: { kind: "number", integer: true, min: 2 },
+  maxStyleFindings: { kind: "number", integer: true, min: 1 },
+  maxFixes: { kind: "number", integer: true, min: 0 },
+};
+
+const META_FIELDS = new Set(["$schema", "extends", "thresholds"]);
+
+function describeSpec(spec: FieldSpec): string {
+  switch (spec.kind) {
+    case "enum":
+      return `one of ${spec.values.join(", ")}`;
+    case "number": {
+      const noun = spec.integer ? "an integer" : "a number";
+      return spec.max === undefined
+        ? `${noun} >= ${spec.min}`
+        : `${noun} between ${spec.min} and ${spec.max}`;
+    }
+    case "string":
+      return "a non-empty string";
+    case "boolean":
+      return "true or false";
+    case "stringArray":
+      return "an array of non-empty strings";
+  }
+}
+
+function matchesSpec(value: unknown, spec: FieldSpec): boolean {
+  switch (spec.kind) {
+    case "enum":
+      return typeof value === "string" && spec.values.includes(value);
+    case "number":
+      return (
+        typeof value === "number" &&
+        Number.isFinite(value) &&
+        value >= spec.min &&
+        (spec.max === undefined || value <= spec.max) &&
+        (!spec.integer || Number.isInteger(value))
+      );
+    case "string":
+      return typeof value === "string" && value.trim().length > 0;
+    case "boolean":
+      return typeof value === "boolean";
+    case "stringArray":
+      return (
+        Array.isArray(value) &&
+        value.every((item) => typeof item === "string" && item.trim().length > 0)
+      );
+  }
+}
+
+export function describeFieldMismatch(field: ConfigField, value: unknown): string | null {
+  const spec = CONFIG_FIELDS[field];
+  return matchesSpec(value, spec) ? null : describeSpec(spec);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function validateFields(
+  data: Record<string, unknown>,
+  fields: Record<string, FieldSpec>,
+  keyPrefix: string,
+  source: string,
+  allowed: Set<string> = new Set()
+): void {
+  for (const [key, value] of Object.entries(data)) {
+    const keyPath = `${keyPrefix}${key}`;
+    if (allowed.has(key)) {
+      continue;
+    }
+    const spec = fields[key];
+    if (!spec) {
+      throw new Error(`Invalid config ${source}: unknown option "${keyPath}".`);
+    }
+    if (!matchesSpec(value, spec)) {
+      throw new Error(`Invalid config ${source}: "${keyPath}" must be ${describeSpec(spec)}.`);
+    }
+  }
+}
+
+function validateConfig(data: unknown, source: string): ConfigFileValues {
+  if (!isPlainObject(data)) {
+    throw new Error(`Invalid config ${source}: expected a JSON object.`);
+  }
+
+  validateFields(data, CONFIG_FIELDS, "", source, META_FIELDS);
+
+  if (data.thresholds !== undefined) {
+    if (!isPlainObject(data.thresholds)) {
+      throw new Error(`Invalid config ${source}: "thresholds" must be an object.`);
+    }
+    validateFields(data.thresholds, THRESHOLD_FIELDS, "thresholds.", source);
+  }
+
+  const extendsValue = data.extends;
+  if (
+    extendsValue !== undefined &&
+    !matchesSpec(extendsValue, { kind: "string" }) &&
+    !matchesSpec(extendsValue, { kind: "stringArray" })
+  ) {
+    throw new Error(`Invalid config ${source}: "extends" must be a string or an array of strings.`);
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const key of Object.keys(CONFIG_FIELDS)) {
+    if (data[key] !== undefined) {
+      values[key] = data[key];
+    }
+  }
+  if (data.thresholds !== undefined) {
+    values.thresholds = { ...data.thresholds };
+  }
+  return values as ConfigFileValues;
+}
+
+function mergeConfigValues(base: ConfigFileValues, override: ConfigFileValues): ConfigFileValues {
+  const merged: ConfigFileValues = { ...base, ...override };
+  if (base.thresholds || override.thresholds) {
+    merged.thresholds = { ...base.thresholds, ...override.thresholds };
+  }
+  for (const key of ["ignoreDirs", "include", "exclude"] as const) {
+    if (base[key] || override[key]) {
+      merged[key] = Array.from(new Set([...(base[key] ?? []), ...(override[key] ?? [])]));
+    }
+  }
+  return merged;
+}
+
+function resolveExtendsPath(specifier: string, fromFile: string): string {
+  const baseDir = path.dirname(fromFile);
+  if (specifier.startsWith(".") || path.isAbsolute(specifier)) {
+    return path.resolve(baseDir, specifier);
+  }
+  try {
+    return require.resolve(specifier, { paths: [baseDir] });
+  } catch {
+    throw new Error(`Invalid config ${fromFile}: unable to resolve extends "${specifier}".`);
+  }
+}
+
+async function readConfigLayer(filePath: string, chain: string[]): Promise<ConfigFileValues> {
+  if (chain.includes(filePath)) {
+    throw new Error(`Invalid config ${filePath}: circular extends (${[...chain, filePath].join(" -> ")}).`);
+  }
+
+  let raw: unknown;
+  try {
+    const content = await fs.readFile(filePath, "utf8");
+    raw = JSON.parse(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Unable to read config ${filePath}: ${reason}`);
+  }
+
+  const values = validateConfig(raw, filePath);
+  const extendsValue = (raw as Record<string, unknown>).extends as string | string[] | undefined;
+  const bases = extendsValue === undefined ? [] : ([] as string[]).concat(extendsValue);
+
+  let merged: ConfigFileValues = {};
+  for (const base of bases) {
+    const basePath = resolveExtendsPath(base, filePath);
+    merged = mergeConfigValues(merged, await readConfigLayer(basePath, [...chain, filePath]));
+  }
+  return mergeConfigValues(merged, values);
+}
+
+export async function findConfigFile(rootPath: string): Promise<string | null> {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(rootPath, name);
+    try {
+      const stats = await fs.stat(candidate);
+      if (stats.isFile()) {
+        return candidate;
+      }
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+export async function loadConfigFile(
+  rootPath: string,
+  explicitPath?: string
+): Promise<ConfigFileValues> {
+  const configPath = explicitPath ? path.resolve(explicitPath) : await findConfigFile(rootPath);
+  if (!configPath) {
+    return {};
+  }
+  return readConfigLayer(configPath, []);
+}
@@ -0,0 +1,136 @@
+import { NAMESPACE_IMPORT, type ExportReference, type ImportReference } from "./parsed-file";
+import type { OrphanModule, UnusedExport } from "../types";
+
+export type DeadCodeModule = {
+  path: string;
+  lastLine: number;
+  imports: ImportReference[];
+  exports: ExportReference[];
+};
+
+export type DeadCodeOptions = {
+  entryPoints: Set<string>;
+  roots: Set<string>;
+  resolve: (importerPath: string, specifier: string) => string | null;
+};
+
+export type DeadCodeResult = {
+  orphanModules: OrphanModule[];
+  unusedExports: UnusedExport[];
+};
+
+function collectReachable(
+  modules: DeadCodeModule[],
+  roots: Set<string>,
+  resolve: DeadCodeOptions["resolve"]
+): Set<string> {
+  const byPath = new Map(modules.map((module) => [module.path, module]));
+  const reachable = new Set<string>();
+  const queue = modules.filter((module) => roots.has(module.path)).map((module) => module.path);
+  for (const root of queue) {
+    reachable.add(root);
+  }
+  for (let head = 0; head < queue.length; head += 1) {
+    const module = byPath.get(queue[head]);
+    for (const ref of module?.imports ?? []) {
+      const target = resolve(queue[head], ref.specifier);
+      if (target && !reachable.has(target)) {
+        reachable.add(target);
+        queue.push(target);
+      }
+    }
+  }
+  return reachable;
+}
+
+function collectUsedNames(
+  modules: DeadCodeModule[],
+  entryPoints: Set<string>,
+  resolve: DeadCodeOptions["resolve"]
+): Map<string, Set<string>> {
+  const used = new Map<string, Set<string>>();
+  const usedBy = (target: string): Set<string> => {
+    const names = used.get(target) ?? new Set<string>();
+    used.set(target, names);
+    return names;
+  };
+  const starExports: { from: string; to: string }[] = [];
+  const ownExports = new Map(
+    modules.map((module) => [module.path, new Set(module.exports.map((entry) => entry.name))])
+  );
+
+  for (const module of modules) {
+    if (entryPoints.has(module.path)) {
+      usedBy(module.path).add(NAMESPACE_IMPORT);
+    }
+    for (const ref of module.imports) {
+      const target = resolve(module.path, ref.specifier);
+      if (!target) {
+        continue;
+      }
+      const names = usedBy(target);
+      for (const name of ref.names) {
+        names.add(name);
+      }
+      if (ref.reexportsAll) {
+        starExports.push({ from: module.path, to: target });
+      }
+    }
+  }
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const { from, to } of starExports) {
+      const forwarded = used.get(from);
+      if (!forwarded) {
+        continue;
+      }
+      const names = usedBy(to);
+      for (const name of forwarded) {
+        const passesThrough =
+          name === NAMESPACE_IMPORT || (name !== "default" && !ownExports.get(from)?.has(name));
+        if (passesThrough && !names.has(name)) {
+          names.add(name);
+          changed = true;
+        }
+      }
+    }
+  }
+
+  return used;
+}
+
+export function findDeadCode(modules: DeadCodeModule[], options: DeadCodeOptions): DeadCodeResult {
+  const hasEntryPoint = modules.some((module) => options.entryPoints.has(module.path));
+  if (!hasEntryPoint) {
+    return { orphanModules: [], unusedExports: [] };
+  }
+
+  const roots = new Set([...options.entryPoints, ...options.roots]);
+  const reachable = collectReachable(modules, roots, options.resolve);
+  const used = collectUsedNames(modules, options.entryPoints, options.resolve);
+
+  const orphanModules: OrphanModule[] = [];
+  const unusedExports: UnusedExport[] = [];
+  for (const module of modules) {
+    if (!reachable.has(module.path)) {
+      orphanModules.push({ file: module.path, startLine: 1, endLine: module.lastLine });
+      continue;
+    }
+    const usedNames = used.get(module.path);
+    if (roots.has(module.path) || usedNames?.has(NAMESPACE_IMPORT)) {
+      continue;
+    }
+    const reported = new Set<string>();
+    for (const entry of module.exports) {
+      if (usedNames?.has(entry.name) || reported.has(entry.name)) {
+        continue;
+      }
+      reported.add(entry.name);
+      unusedExports.push({ file: module.path, ...entry });
+    }
+  }
+
+  return { orphanModules, unusedExports };
+}
@@ -0,0 +1,434 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import ts from "typescript";
+import type { DetectedFramework, FileManifestEntry } from "../types";
+
+export type ProjectFileReader = (relativePath: string) => Promise<string | null>;
+
+export type EntryPointContext = {
+  rootPath: string;
+  files: FileManifestEntry[];
+  readFile: ProjectFileReader;
+};
+
+export type EntryPointDetection = {
+  entryPoints: string[];
+  frameworks: DetectedFramework[];
+};
+
+type ScopedFile = {
+  path: string;
+  relative: string;
+  extension: string;
+};
+
+const ENTRY_ROOT_BASE_NAMES = new Set(["app", "server"]);
+const ENTRY_SRC_BASE_NAMES = new Set(["index", "main"]);
+const JS_TS_EXTENSIONS = new Set([".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"]);
+const NEXT_APP_BASE_NAMES = new Set([
+  "page",
+  "layout",
+  "route",
+  "template",
+  "loading",
+  "error",
+  "not-found",
+  "default",
+]);
+
+const NODE_FRAMEWORKS: Record<string, string> = {
+  next: "next",
+  react: "react",
+  vue: "vue",
+  nuxt: "nuxt",
+  svelte: "svelte",
+  "@sveltejs/kit": "sveltekit",
+  "@angular/core": "angular",
+  "@remix-run/node": "remix",
+  astro: "astro",
+  electron: "electron",
+  express: "express",
+  fastify: "fastify",
+  koa: "koa",
+  "@hapi/hapi": "hapi",
+  "@nestjs/core": "nestjs",
+};
+const NODE_SERVER_MODULES: Record<string, string> = {
+  express: "express",
+  fastify: "fastify",
+  koa: "koa",
+  hapi: "@hapi/hapi",
+};
+const PYTHON_MANIFESTS = ["pyproject.toml", "requirements.txt", "Pipfile", "setup.py", "setup.cfg"];
+const PYTHON_FRAMEWORKS = ["django", "flask", "fastapi"];
+const GO_FRAMEWORKS: Record<string, string> = {
+  "github.com/gin-gonic/gin": "gin",
+  "github.com/labstack/echo": "echo",
+  "github.com/gofiber/fiber": "fiber",
+  "github.com/go-chi/chi": "chi",
+};
+const RUST_FRAMEWORKS = new Set(["actix-web", "axum", "rocket"]);
+
+type TomlSection = {
+  name: string;
+  lines: string[];
+};
+
+function joinScoped(packageDir: string, relativePath: string): string | null {
+  const value = relativePath.trim().replace(/\\/g, "/");
+  if (!value || value.startsWith("/")) {
+    return null;
+  }
+  const joined = path.posix.normalize(path.posix.join(packageDir || ".", value));
+  if (joined === "." || joined === ".." || joined.startsWith("../")) {
+    return null;
+  }
+  return joined.replace(/^\.\/+/, "");
+}
+
+async function isExistingFile(rootPath: string, relativePath: string): Promise<boolean> {
+  try {
+    const stats = await fs.stat(path.join(rootPath, ...relativePath.split("/")));
+    return stats.isFile();
+  } catch {
+    return false;
+  }
+}
+
+function parseJsonObject(content: string | null): Record<string, unknown> | null {
+  if (content === null) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+function readTomlSections(content: string): TomlSection[] {
+  const sections: TomlSection[] = [{ name: "", lines: [] }];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+#.*$/, "").trim();
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+    const header = /^\[\[?\s*([^\]]+?)\s*\]\]?$/.exec(line);
+    if (header) {
+      sections.push({ name: header[1], lines: [] });
+      continue;
+    }
+    sections[sections.length - 1].lines.push(line);
+  }
+  return sections;
+}
+
+function readTomlEntries(lines: string[]): [string, string][] {
+  const entries: [string, string][] = [];
+  for (const line of lines) {
+    const match = /^["']?([\w.-]+)["']?\s*=\s*(.*)$/.exec(line);
+    if (match) {
+      entries.push([match[1], match[2].replace(/^["']|["']$/g, "")]);
+    }
+  }
+  return entries;
+}
+
+function collectExportTargets(value: unknown, targets: string[]): void {
+  if (typeof value === "string") {
+    if (!value.includes("*")) {
+      targets.push(value);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectExportTargets(item, targets));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((item) => collectExportTargets(item, targets));
+  }
+}
+
+function readPackageEntries(data: Record<string, unknown>): string[] {
+  const entries: string[] = [];
+  for (const key of ["main", "module", "types", "typings"]) {
+    if (typeof data[key] === "string") {
+      entries.push(data[key] as string);
+    }
+  }
+  if (typeof data.bin === "string") {
+    entries.push(data.bin);
+  } else if (data.bin && typeof data.bin === "object") {
+    for (const value of Object.values(data.bin)) {
+      if (typeof value === "string") {
+        entries.push(value);
+      }
+    }
+  }
+  collectExportTargets(data.exports, entries);
+  return entries;
+}
+
+function readPackageFrameworks(data: Record<string, unknown>): string[] {
+  const names = new Set<string>();
+  for (const key of ["dependencies", "devDependencies", "peerDependencies"]) {
+    const dependencies = data[key];
+    if (!dependencies || typeof dependencies !== "object") {
+      continue;
+    }
+    for (const dependency of Object.keys(dependencies)) {
+      const framework = NODE_FRAMEWORKS[dependency];
+      if (framework) {
+        names.add(framework);
+      }
+    }
+  }
+  return Array.from(names);
+}
+
+function readTsconfigFiles(content: string | null, fileName: string): string[] {
+  if (content === null) {
+    return [];
+  }
+  const { config } = ts.parseConfigFileTextToJson(fileName, content);
+  const files = (config as Record<string, unknown> | undefined)?.files;
+  return Array.isArray(files)
+    ? files.filter((value): value is string => typeof value === "string")
+    : [];
+}
+
+function readNestEntries(content: string | null): string[] {
+  const data = parseJsonObject(content);
+  if (!data) {
+    return [];
+  }
+  const sourceRoot = typeof data.sourceRoot === "string" ? data.sourceRoot : "src";
+  const entryFile = typeof data.entryFile === "string" ? data.entryFile : "main";
+  return [".ts", ".js"].map((extension) => `${sourceRoot}/${entryFile}${extension}`);
+}
+
+function readPythonFrameworks(content: string): string[] {
+  return PYTHON_FRAMEWORKS.filter((name) =>
+    new RegExp(`(^\\s*|[\\[,]\\s*)["']?${name}(?=$|[\\s"'<>=!~;,\\[\\]])`, "im").test(content)
+  );
+}
+
+function readPyprojectScripts(content: string): string[] {
+  const modules: string[] = [];
+  for (const section of readTomlSections(content)) {
+    if (section.name !== "project.scripts" && section.name !== "tool.poetry.scripts") {
+      continue;
+    }
+    for (const [, target] of readTomlEntries(section.lines)) {
+      const moduleName = target.split(":")[0].trim();
+      if (moduleName) {
+        modules.push(moduleName.replace(/\./g, "/"));
+      }
+    }
+  }
+  return modules;
+}
+
+function readCargoManifest(content: string): { bins: string[]; frameworks: string[] } {
+  const bins: string[] = [];
+  const frameworks = new Set<string>();
+  for (const section of readTomlSections(content)) {
+    if (section.name === "bin") {
+      const binPath = readTomlEntries(section.lines).find(([key]) => key === "path");
+      if (binPath) {
+        bins.push(binPath[1]);
+      }
+    } else if (section.name === "dependencies") {
+      for (const [key] of readTomlEntries(section.lines)) {
+        if (RUST_FRAMEWORKS.has(key)) {
+          frameworks.add(key);
+        }
+      }
+    } else if (section.name.startsWith("dependencies.")) {
+      const key = section.name.slice("dependencies.".length);
+      if (RUST_FRAMEWORKS.has(key)) {
+        frameworks.add(key);
+      }
+    }
+  }
+  return { bins, frameworks: Array.from(frameworks) };
+}
+
+function isConventionalEntryPoint(file: ScopedFile, frameworks: Set<string>): boolean {
+  const parts = file.relative.split("/");
+  const baseName = path.posix.basename(file.relative, file.extension);
+  const fileName = parts[parts.length - 1];
+
+  if (parts.length === 2 && parts[0] === "src" && ENTRY_SRC_BASE_NAMES.has(baseName)) {
+    return true;
+  }
+  if (parts.length === 1 && ENTRY_ROOT_BASE_NAMES.has(baseName)) {
+    return true;
+  }
+  if (fileName === "__main__.py" || (parts.length === 1 && fileName === "manage.py")) {
+    return true;
+  }
+  if (frameworks.has("django") && (fileName === "wsgi.py" || fileName === "asgi.py")) {
+    return true;
+  }
+  if (
+    Object.keys(NODE_SERVER_MODULES).some((name) => frameworks.has(name)) &&
+    file.relative === "bin/www"
+  ) {
+    return true;
+  }
+  if (frameworks.has("next") && JS_TS_EXTENSIONS.has(file.extension)) {
+    const routeParts = parts[0] === "src" ? parts.slice(1) : parts;
+    if (routeParts.length === 1 && baseName === "middleware") {
+      return true;
+    }
+    if (routeParts[0] === "pages" && routeParts.length > 1) {
+      return true;
+    }
+    if (routeParts[0] === "app" && routeParts.length > 1 && NEXT_APP_BASE_NAMES.has(baseName)) {
+      return true;
+    }
+  }
+  return parts.length === 3 && parts[0] === "src" && parts[1] === "bin" && file.extension === ".rs";
+}
+
+async function isGoMainFile(file: ScopedFile, readFile: ProjectFileReader): Promise<boolean> {
+  if (file.extension !== ".go" || file.path.endsWith("_test.go")) {
+    return false;
+  }
+  const content = await readFile(file.path);
+  return (
+    content !== null &&
+    /^package\s+main\b/m.test(content) &&
+    /^func\s+main\s*\(\s*\)/m.test(content)
+  );
+}
+
+async function isNodeServerFile(
+  file: ScopedFile,
+  serverModules: string[],
+  readFile: ProjectFileReader
+): Promise<boolean> {
+  if (!JS_TS_EXTENSIONS.has(file.extension) || /\.(spec|test)\.[cm]?[jt]sx?$/.test(file.path)) {
+    return false;
+  }
+  const content = await readFile(file.path);
+  if (content === null || !/\.listen\s*\(/.test(content)) {
+    return false;
+  }
+  return serverModules.some((moduleName) =>
+    content.includes(`"${moduleName}"`) || content.includes(`'${moduleName}'`)
+  );
+}
+
+export async function detectEntryPoints(
+  context: EntryPointContext,
+  packageDir = ""
+): Promise<EntryPointDetection> {
+  const prefix = packageDir ? `${packageDir}/` : "";
+  const scopedFiles: ScopedFile[] = context.files
+    .filter((file) => file.path.startsWith(prefix))
+    .map((file) => ({
+      path: file.path,
+      relative: file.path.slice(prefix.length),
+      extension: file.extension,
+    }));
+  const filePaths = new Set(scopedFiles.map((file) => file.path));
+  const manifestPath = (name: string): string => `${prefix}${name}`;
+
+  const frameworks = new Map<string, DetectedFramework>();
+  const addFramework = (name: string, manifest: string): void => {
+    if (!frameworks.has(name)) {
+      frameworks.set(name, { name, manifest });
+    }
+  };
+  const declaredEntries: string[] = [];
+  const entryPoints = new Set<string>();
+
+  const packageJson = parseJsonObject(await context.readFile(manifestPath("package.json")));
+  if (packageJson) {
+    declaredEntries.push(...readPackageEntries(packageJson));
+    readPackageFrameworks(packageJson).forEach((name) =>
+      addFramework(name, manifestPath("package.json"))
+    );
+  }
+
+  declaredEntries.push(
+    ...readTsconfigFiles(await context.readFile(manifestPath("tsconfig.json")), "tsconfig.json")
+  );
+
+  const nestCli = await context.readFile(manifestPath("nest-cli.json"));
+  if (nestCli !== null) {
+    addFramework("nestjs", manifestPath("nest-cli.json"));
+    declaredEntries.push(...readNestEntries(nestCli));
+  }
+
+  for (const name of PYTHON_MANIFESTS) {
+    const content = await context.readFile(manifestPath(name));
+    if (content === null) {
+      continue;
+    }
+    for (const framework of readPythonFrameworks(content)) {
+      addFramework(framework, manifestPath(name));
+    }
+    if (name !== "pyproject.toml") {
+      continue;
+    }
+    for (const modulePath of readPyprojectScripts(content)) {
+      const candidates = [`${modulePath}.py`, `${modulePath}/__init__.py`].flatMap((candidate) => [
+        candidate,
+        `src/${candidate}`,
+      ]);
+      const match = candidates
+        .map((candidate) => joinScoped(packageDir, candidate))
+        .find((candidate) => candidate !== null && filePaths.has(candidate));
+      if (match) {
+        entryPoints.add(match);
+      }
+    }
+  }
+
+  const goMod = await context.readFile(manifestPath("go.mod"));
+  if (goMod !== null) {
+    for (const [modulePath, framework] of Object.entries(GO_FRAMEWORKS)) {
+      if (goMod.includes(modulePath)) {
+        addFramework(framework, manifestPath("go.mod"));
+      }
+    }
+  }
+
+  const cargoToml = await context.readFile(manifestPath("Cargo.toml"));
+  if (cargoToml !== null) {
+    const cargo = readCargoManifest(cargoToml);
+    declaredEntries.push(...cargo.bins);
+    cargo.frameworks.forEach((framework) => addFramework(framework, manifestPath("Cargo.toml")));
+  }
+
+  for (const entry of declaredEntries) {
+    const resolved = joinScoped(packageDir, entry);
+    if (!resolved) {
+      continue;
+    }
+    if (filePaths.has(resolved) || (await isExistingFile(context.rootPath, resolved))) {
+      entryPoints.add(resolved);
+    }
+  }
+
+  const frameworkNames = new Set(frameworks.keys());
+  const serverModules = Object.entries(NODE_SERVER_MODULES)
+    .filter(([framework]) => frameworkNames.has(framework))
+    .map(([, moduleName]) => moduleName);
+
+  for (const file of scopedFiles) {
+    if (
+      isConventionalEntryPoint(file, frameworkNames) ||
+      (await isGoMainFile(file, context.readFile)) ||
+      (serverModules.length > 0 && (await isNodeServerFile(file, serverModules, context.readFile)))
+    ) {
+      entryPoints.add(file.path);
+    }
+  }
+
+  return {
+    entryPoints: Array.from(entryPoints).sort(),
+    frameworks: Array.from(frameworks.values()),
+  };
+}
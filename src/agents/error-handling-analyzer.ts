@@ -0,0 +1,246 @@
+import ts from "typescript";
+import type { ErrorHandlingFinding, ErrorHandlingFindingKind } from "../types";
+
+export type ErrorHandlingFindingSpan = Omit<ErrorHandlingFinding, "file">;
+
+type AsyncNames = {
+  functions: Set<string>;
+  methods: Set<string>;
+};
+
+const PROMISE_COMBINATORS = new Set(["all", "allSettled", "any", "race"]);
+const MAX_RULE_LENGTH = 40;
+
+function getLineRange(
+  node: ts.Node,
+  sourceFile: ts.SourceFile
+): { startLine: number; endLine: number } {
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+  return { startLine: start.line + 1, endLine: end.line + 1 };
+}
+
+function isAsync(node: ts.Node): boolean {
+  return (ts.canHaveModifiers(node) ? ts.getModifiers(node) ?? [] : []).some(
+    (modifier) => modifier.kind === ts.SyntaxKind.AsyncKeyword
+  );
+}
+
+function isFunctionExpression(
+  node: ts.Node | undefined
+): node is ts.ArrowFunction | ts.FunctionExpression {
+  return Boolean(node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node)));
+}
+
+function collectAsyncNames(sourceFile: ts.SourceFile): AsyncNames {
+  const names: AsyncNames = { functions: new Set(), methods: new Set() };
+  const visit = (node: ts.Node): void => {
+    if (ts.isFunctionDeclaration(node) && node.name && isAsync(node)) {
+      names.functions.add(node.name.text);
+    } else if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      isFunctionExpression(node.initializer) &&
+      isAsync(node.initializer)
+    ) {
+      names.functions.add(node.name.text);
+    } else if (ts.isMethodDeclaration(node) && ts.isIdentifier(node.name) && isAsync(node)) {
+      names.methods.add(node.name.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return names;
+}
+
+function referencesName(node: ts.Node, name: string): boolean {
+  let found = false;
+  const visit = (child: ts.Node): void => {
+    if (ts.isIdentifier(child) && child.text === name) {
+      found = true;
+    }
+    if (!found) {
+      ts.forEachChild(child, visit);
+    }
+  };
+  visit(node);
+  return found;
+}
+
+function containsThrow(node: ts.Node): boolean {
+  let found = false;
+  const visit = (child: ts.Node): void => {
+    if (ts.isFunctionLike(child)) {
+      return;
+    }
+    if (ts.isThrowStatement(child)) {
+      found = true;
+    }
+    if (!found) {
+      ts.forEachChild(child, visit);
+    }
+  };
+  visit(node);
+  return found;
+}
+
+function usesCaughtError(clause: ts.CatchClause): boolean {
+  const binding = clause.variableDeclaration?.name;
+  if (!binding) {
+    return false;
+  }
+  return !ts.isIdentifier(binding) || referencesName(clause.block, binding.text);
+}
+
+function hasComment(block: ts.Block, sourceFile: ts.SourceFile): boolean {
+  const inner = sourceFile.text.slice(block.getStart(sourceFile) + 1, block.getEnd() - 1);
+  return /\/\/|\/\*/.test(inner);
+}
+
+function skipParentheses(node: ts.Expression): ts.Expression {
+  return ts.isParenthesizedExpression(node) ? skipParentheses(node.expression) : node;
+}
+
+function isIgnoredValue(node: ts.Expression): boolean {
+  const value = skipParentheses(node);
+  return (
+    (ts.isIdentifier(value) && value.text === "undefined") ||
+    ts.isVoidExpression(value) ||
+    ts.isLiteralExpression(value) ||
+    value.kind === ts.SyntaxKind.NullKeyword ||
+    value.kind === ts.SyntaxKind.TrueKeyword ||
+    value.kind === ts.SyntaxKind.FalseKeyword ||
+    (ts.isArrayLiteralExpression(value) && value.elements.length === 0) ||
+    (ts.isObjectLiteralExpression(value) && value.properties.length === 0)
+  );
+}
+
+function ignoresRejection(handler: ts.ArrowFunction | ts.FunctionExpression): boolean {
+  const param = handler.parameters[0]?.name;
+  if (param && (!ts.isIdentifier(param) || referencesName(handler.body, param.text))) {
+    return false;
+  }
+  if (!ts.isBlock(handler.body)) {
+    return isIgnoredValue(handler.body);
+  }
+  const [statement, ...rest] = handler.body.statements;
+  return (
+    !statement ||
+    (rest.length === 0 &&
+      ts.isReturnStatement(statement) &&
+      (!statement.expression || isIgnoredValue(statement.expression)))
+  );
+}
+
+function compactText(node: ts.Node, sourceFile: ts.SourceFile): string {
+  const text = node.getText(sourceFile).replace(/\s+/g, " ");
+  return text.length <= MAX_RULE_LENGTH ? text : `${text.slice(0, MAX_RULE_LENGTH - 3)}...`;
+}
+
+function getFloatingRule(expression: ts.Expression, asyncNames: AsyncNames): string | undefined {
+  const node = skipParentheses(expression);
+  if (
+    ts.isNewExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === "Promise"
+  ) {
+    return "new Promise()";
+  }
+  if (!ts.isCallExpression(node)) {
+    return undefined;
+  }
+  const callee = node.expression;
+  if (ts.isIdentifier(callee)) {
+    return asyncNames.functions.has(callee.text) ? `${callee.text}()` : undefined;
+  }
+  if (!ts.isPropertyAccessExpression(callee)) {
+    return undefined;
+  }
+  const name = callee.name.text;
+  if (callee.expression.kind === ts.SyntaxKind.ThisKeyword && asyncNames.methods.has(name)) {
+    return `this.${name}()`;
+  }
+  if (
+    ts.isIdentifier(callee.expression) &&
+    callee.expression.text === "Promise" &&
+    PROMISE_COMBINATORS.has(name)
+  ) {
+    return `Promise.${name}()`;
+  }
+  if (name === "then" && node.arguments.length < 2) {
+    return ".then() without .catch()";
+  }
+  return undefined;
+}
+
+function describeThrownLiteral(node: ts.Expression): string | undefined {
+  if (ts.isStringLiteralLike(node) || ts.isTemplateExpression(node)) {
+    return "throw string";
+  }
+  if (ts.isNumericLiteral(node)) {
+    return "throw number";
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    return "throw object literal";
+  }
+  return undefined;
+}
+
+export function collectErrorHandlingFindings(
+  sourceFile: ts.SourceFile
+): ErrorHandlingFindingSpan[] {
+  const findings: ErrorHandlingFindingSpan[] = [];
+  const asyncNames = collectAsyncNames(sourceFile);
+
+  const add = (kind: ErrorHandlingFindingKind, rule: string, node: ts.Node): void => {
+    findings.push({ kind, rule, ...getLineRange(node, sourceFile) });
+  };
+
+  const checkCatch = (clause: ts.CatchClause): void => {
+    if (clause.block.statements.length === 0) {
+      add(
+        "emptyCatch",
+        hasComment(clause.block, sourceFile) ? "catch with only a comment" : "catch {}",
+        clause
+      );
+    } else if (!usesCaughtError(clause)) {
+      const binding = clause.variableDeclaration?.name;
+      const caught = binding ? `catch (${binding.getText(sourceFile)})` : "catch";
+      if (containsThrow(clause.block)) {
+        add("lostError", `${caught} rethrows without the original error`, clause);
+      } else {
+        add("discardedError", `${caught} ignores the error`, clause);
+      }
+    }
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isCatchClause(node)) {
+      checkCatch(node);
+    } else if (ts.isThrowStatement(node)) {
+      const rule = describeThrownLiteral(node.expression);
+      if (rule) {
+        add("throwLiteral", rule, node);
+      }
+    } else if (ts.isExpressionStatement(node)) {
+      const rule = getFloatingRule(node.expression, asyncNames);
+      if (rule) {
+        add("floatingPromise", rule, node);
+      }
+    } else if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.name.text === "catch" &&
+      node.arguments.length === 1
+    ) {
+      const handler = node.arguments[0];
+      if (isFunctionExpression(handler) && ignoresRejection(handler)) {
+        add("swallowedRejection", `.catch(${compactText(handler, sourceFile)})`, handler);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return findings;
+}
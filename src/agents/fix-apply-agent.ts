@@ -2,29 +2,20 @@ import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 import { execSync } from "node:child_process";
+import { getRepoRoot, runGit } from "./git-client";
 import type { CliConfig, FixApplyResult, FixResult } from "../types";
 
-function runGit(command: string, cwd: string): string {
-  return execSync(`git ${command}`, { cwd, stdio: ["ignore", "pipe", "pipe"] })
-    .toString()
-    .trim();
-}
-
-function getRepoRoot(rootPath: string): string {
-  return runGit("rev-parse --show-toplevel", rootPath);
-}
-
 function isWorkingTreeClean(rootPath: string): boolean {
-  const status = runGit("status --porcelain", rootPath);
+  const status = runGit(["status", "--porcelain"], rootPath);
   return status.length === 0;
 }
 
 function getCurrentBranch(rootPath: string): string {
-  return runGit("rev-parse --abbrev-ref HEAD", rootPath);
+  return runGit(["rev-parse", "--abbrev-ref", "HEAD"], rootPath);
 }
 
 function branchExists(rootPath: string, name: string): boolean {
-  const result = runGit(`branch --list ${name}`, rootPath);
+  const result = runGit(["branch", "--list", name], rootPath);
   return result.length > 0;
 }
 
@@ -54,6 +45,7 @@ export async function runFixApplyAgent(
   fixResult: FixResult
 ): Promise<FixApplyResult> {
   const rootPath = path.resolve(config.path);
+  const stdio = config.quiet ? "pipe" : "inherit";
 
   const patches = fixResult.suggestions
     .filter((suggestion) => suggestion.verified && suggestion.patch)
@@ -88,7 +80,7 @@ export async function runFixApplyAgent(
   const currentBranch = getCurrentBranch(repoRoot);
 
   try {
-    runGit(`checkout -b ${branch}`, repoRoot);
+    runGit(["checkout", "-b", branch], repoRoot);
   } catch {
     return {
       status: "failed",
@@ -102,12 +94,12 @@ export async function runFixApplyAgent(
     patchPath = await writeTempPatch(patches.join("\n\n") + "\n");
     execSync(`git apply --whitespace=nowarn "${patchPath}"`, {
       cwd: repoRoot,
-      stdio: "inherit",
+      stdio,
     });
   } catch {
     try {
-      runGit(`checkout ${currentBranch}`, repoRoot);
-      runGit(`branch -D ${branch}`, repoRoot);
+      runGit(["checkout", currentBranch], repoRoot);
+      runGit(["branch", "-D", branch], repoRoot);
     } catch {
       // ignore rollback errors
     }
@@ -121,7 +113,7 @@ export async function runFixApplyAgent(
   const testCommand = config.fixTestCmd ?? "npm test";
   let testsPassed = true;
   try {
-    execSync(testCommand, { cwd: repoRoot, stdio: "inherit" });
+    execSync(testCommand, { cwd: repoRoot, stdio });
   } catch {
     testsPassed = false;
   }
@@ -12,12 +12,11 @@ import type {
   FixSuggestion,
   GuardedIssue,
   GuardedInsights,
+  LineRange,
   MetricDelta,
   RepoScanResult,
 } from "../types";
 
-type LineRange = { startLine: number; endLine: number };
-
 type VerificationResult = {
   ok: boolean;
   message: string;
@@ -354,7 +353,8 @@ function selectDuplicateEvidence(issue: GuardedIssue): EvidenceItem[] {
 
 function buildLongFunctionPrompt(
   issue: GuardedIssue,
-  snippets: { file: string; startLine: number; endLine: number; text: string }[]
+  snippets: { file: string; startLine: number; endLine: number; text: string }[],
+  longFunctionLoc: number
 ): string {
   const templates = snippets.map((snippet) => {
     const length = Math.max(1, snippet.endLine - snippet.startLine + 1);
@@ -378,7 +378,7 @@ function buildLongFunctionPrompt(
     "If you change line counts, adjust the @@ header lengths accordingly.",
     "You must only modify lines within the evidence line ranges provided.",
     "Do not add new files. Do not edit outside the ranges.",
-    `Goal: reduce function length below ${LONG_FUNCTION_LOC} lines.`,
+    `Goal: reduce function length below ${longFunctionLoc} lines.`,
     "Ensure the diff includes at least one added or removed line.",
     "",
     `Issue type: ${issue.type}`,
@@ -456,14 +456,15 @@ function buildRetryPrompt(basePrompt: string, reason: string): string {
 function findMaxLongFunctionInRange(
   longFunctions: AnalysisResult["signals"]["longFunctions"],
   file: string,
-  range: LineRange
+  range: LineRange,
+  longFunctionLoc: number
 ): number {
   const matches = longFunctions.filter(
     (fn) =>
       fn.file === file &&
       fn.startLine <= range.endLine &&
       fn.endLine >= range.startLine &&
-      fn.length >= LONG_FUNCTION_LOC
+      fn.length >= longFunctionLoc
   );
   if (matches.length === 0) {
     return 0;
@@ -474,23 +475,26 @@ function findMaxLongFunctionInRange(
 function verifyLongFunctionFix(
   before: AnalysisResult,
   after: AnalysisResult,
-  evidence: EvidenceItem
+  evidence: EvidenceItem,
+  longFunctionLoc: number
 ): VerificationResult {
   const range = { startLine: evidence.startLine, endLine: evidence.endLine };
   const beforeMax = findMaxLongFunctionInRange(
     before.signals.longFunctions,
     evidence.file,
-    range
+    range,
+    longFunctionLoc
   );
   const afterMax = findMaxLongFunctionInRange(
     after.signals.longFunctions,
     evidence.file,
-    range
+    range,
+    longFunctionLoc
   );
   if (beforeMax === 0) {
     return { ok: false, message: "No long function found in evidence range." };
   }
-  const afterLabel = afterMax === 0 ? `< ${LONG_FUNCTION_LOC}` : `${afterMax}`;
+  const afterLabel = afterMax === 0 ? `< ${longFunctionLoc}` : `${afterMax}`;
   const details = `longFunctionLength: ${beforeMax} -> ${afterLabel}`;
   if (afterMax === 0 || afterMax < beforeMax) {
     return { ok: true, message: "Long function length reduced.", details };
@@ -559,6 +563,7 @@ async function attemptFix(
 
   const model = process.env.GEMINI_MODEL ?? "gemini-2.5-flash";
   const rootPath = path.resolve(config.path);
+  const longFunctionLoc = config.thresholds?.longFunctionLoc ?? LONG_FUNCTION_LOC;
 
   let prompt = "";
   let evidenceItems: EvidenceItem[] = [];
@@ -570,7 +575,7 @@ async function attemptFix(
     const snippets = await Promise.all(
       evidenceItems.map((item) => readSnippet(rootPath, item))
     );
-    prompt = buildLongFunctionPrompt(issue, snippets);
+    prompt = buildLongFunctionPrompt(issue, snippets, longFunctionLoc);
   } else if (issue.signal === "duplicateBlocks") {
     evidenceItems = selectDuplicateEvidence(issue);
     if (evidenceItems.length < 2) {
@@ -595,7 +600,9 @@ async function attemptFix(
     patchText = ensureDiffHeaders(stripMarkdownFences(patchText), fallbackFile);
     if (config.fixDebug) {
       const debugPath = await writeDebugPatch(issueId, "raw", patchText);
-      console.warn(`[Fix-It Debug] saved response to ${debugPath}`);
+      if (!config.quiet) {
+        console.warn(`[Fix-It Debug] saved response to ${debugPath}`);
+      }
       debugPaths.push(debugPath);
     }
     try {
@@ -613,7 +620,9 @@ async function attemptFix(
       patchText = ensureDiffHeaders(stripMarkdownFences(patchText), fallbackFile);
       if (config.fixDebug) {
         const debugPath = await writeDebugPatch(issueId, "retry", patchText);
-        console.warn(`[Fix-It Debug] saved response to ${debugPath}`);
+        if (!config.quiet) {
+          console.warn(`[Fix-It Debug] saved response to ${debugPath}`);
+        }
         debugPaths.push(debugPath);
       }
       patches = parseUnifiedDiff(patchText);
@@ -666,7 +675,12 @@ async function attemptFix(
     message: "No verification available.",
   };
   if (issue.signal === "longFunctions" && evidenceItems[0]) {
-    verification = verifyLongFunctionFix(analysis, updatedAnalysis, evidenceItems[0]);
+    verification = verifyLongFunctionFix(
+      analysis,
+      updatedAnalysis,
+      evidenceItems[0],
+      longFunctionLoc
+    );
   } else if (issue.signal === "duplicateBlocks") {
     verification = verifyDuplicateFix(analysis, updatedAnalysis);
   }
@@ -721,7 +735,7 @@ export async function runFixItAgent(
   const candidates = insights.issues.filter((issue) =>
     FIXABLE_SIGNALS.has(issue.signal)
   );
-  const maxFixes = config.fixLimit ?? MAX_FIXES;
+  const maxFixes = config.fixLimit ?? config.thresholds?.maxFixes ?? MAX_FIXES;
 
   for (const [index, issue] of candidates.slice(0, maxFixes).entries()) {
     const suggestion = await attemptFix(index + 1, issue, config, scan, analysis);
@@ -0,0 +1,166 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import ignore from "ignore";
+import type { FileClassification } from "../types";
+
+export type FileClassifier = (
+  relativePath: string,
+  content: string | null
+) => FileClassification | undefined;
+
+type AttributeRule = {
+  matches: (relativePath: string) => boolean;
+  generated?: boolean;
+  vendored?: boolean;
+};
+
+const VENDORED_DIR_NAMES = new Set([
+  "vendor",
+  "vendors",
+  "third_party",
+  "third-party",
+  "thirdparty",
+  "bower_components",
+  "jspm_packages",
+  "web_modules",
+]);
+const GENERATED_DIR_NAMES = new Set(["__generated__", "generated"]);
+const GENERATED_FILE_PATTERNS = [
+  /\.pb\.(go|ts|js|cc|h)$/,
+  /_pb2(_grpc)?\.pyi?$/,
+  /_grpc_pb\.(js|d\.ts)$/,
+  /\.generated\.[^/]+$/,
+  /\.g\.(cs|dart)$/,
+  /\.designer\.cs$/,
+];
+const MINIFIED_FILE_PATTERN = /[.-]min\.(js|mjs|cjs|css)$/;
+const MINIFIABLE_EXTENSIONS = new Set([".js", ".mjs", ".cjs", ".css"]);
+const GENERATED_HEADER_PATTERNS = [
+  /@generated\b/,
+  /\bDO NOT EDIT\b/i,
+  /\bauto-?generated\b/i,
+  /\b(?:automatically|machine) generated\b/i,
+  /\bgenerated by\b.*\b(?:protoc|protocol buffer compiler|graphql-codegen|openapi|swagger)/i,
+];
+const HEADER_SCAN_LINES = 10;
+const SOURCE_MAP_PATTERN = /^\s*\/[/*][#@]\s*sourceMappingURL=/m;
+const MINIFIED_AVERAGE_LINE_LENGTH = 200;
+const MINIFIED_MIN_BYTES = 1024;
+
+function parseAttributeValue(attribute: string, name: string): boolean | undefined {
+  if (attribute === name || attribute === `${name}=true`) {
+    return true;
+  }
+  if (attribute === `-${name}` || attribute === `!${name}` || attribute === `${name}=false`) {
+    return false;
+  }
+  return undefined;
+}
+
+async function loadAttributeRules(rootPath: string): Promise<AttributeRule[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(rootPath, ".gitattributes"), "utf8");
+  } catch {
+    return [];
+  }
+
+  const rules: AttributeRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+    const [pattern, ...attributes] = line.split(/\s+/);
+    let generated: boolean | undefined;
+    let vendored: boolean | undefined;
+    for (const attribute of attributes) {
+      generated = parseAttributeValue(attribute, "linguist-generated") ?? generated;
+      vendored = parseAttributeValue(attribute, "linguist-vendored") ?? vendored;
+    }
+    if (generated === undefined && vendored === undefined) {
+      continue;
+    }
+    const matcher = ignore().add(pattern);
+    rules.push({
+      matches: (relativePath: string) => matcher.ignores(relativePath),
+      generated,
+      vendored,
+    });
+  }
+  return rules;
+}
+
+function classifyByPath(relativePath: string): FileClassification | undefined {
+  const segments = relativePath.split("/");
+  const fileName = segments[segments.length - 1];
+  const directories = segments.slice(0, -1);
+  if (directories.some((segment) => VENDORED_DIR_NAMES.has(segment))) {
+    return "vendored";
+  }
+  if (MINIFIED_FILE_PATTERN.test(fileName)) {
+    return "minified";
+  }
+  if (
+    directories.some((segment) => GENERATED_DIR_NAMES.has(segment)) ||
+    GENERATED_FILE_PATTERNS.some((pattern) => pattern.test(fileName))
+  ) {
+    return "generated";
+  }
+  return undefined;
+}
+
+function classifyByContent(
+  relativePath: string,
+  content: string
+): FileClassification | undefined {
+  const extension = path.posix.extname(relativePath).toLowerCase();
+  const lines = content.split(/\r?\n/);
+  if (MINIFIABLE_EXTENSIONS.has(extension) && content.length >= MINIFIED_MIN_BYTES) {
+    const nonEmpty = lines.filter((line) => line.trim().length > 0);
+    const averageLength = nonEmpty.length ? content.length / nonEmpty.length : 0;
+    if (averageLength > MINIFIED_AVERAGE_LINE_LENGTH) {
+      return "minified";
+    }
+  }
+  const header = lines.slice(0, HEADER_SCAN_LINES).join("\n");
+  if (GENERATED_HEADER_PATTERNS.some((pattern) => pattern.test(header))) {
+    return "generated";
+  }
+  if (MINIFIABLE_EXTENSIONS.has(extension) && SOURCE_MAP_PATTERN.test(content)) {
+    return "generated";
+  }
+  return undefined;
+}
+
+export async function createFileClassifier(rootPath: string): Promise<FileClassifier> {
+  const rules = await loadAttributeRules(rootPath);
+
+  return (relativePath: string, content: string | null): FileClassification | undefined => {
+    let generated: boolean | undefined;
+    let vendored: boolean | undefined;
+    for (const rule of rules) {
+      if (rule.matches(relativePath)) {
+        generated = rule.generated ?? generated;
+        vendored = rule.vendored ?? vendored;
+      }
+    }
+    if (vendored) {
+      return "vendored";
+    }
+    if (generated) {
+      return "generated";
+    }
+
+    const classification =
+      classifyByPath(relativePath) ??
+      (content !== null ? classifyByContent(relativePath, content) : undefined);
+    if (classification === "vendored" && vendored === false) {
+      return undefined;
+    }
+    if (classification && classification !== "vendored" && generated === false) {
+      return undefined;
+    }
+    return classification;
+  };
+}
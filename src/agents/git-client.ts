@@ -0,0 +1,123 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import type { ChangedFile, LineRange } from "../types";
+
+const MAX_GIT_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+export function runGit(args: string[], cwd: string): string {
+  return execFileSync("git", args, {
+    cwd,
+    stdio: ["ignore", "pipe", "pipe"],
+    maxBuffer: MAX_GIT_OUTPUT_BYTES,
+  })
+    .toString()
+    .trim();
+}
+
+export function getRepoRoot(cwd: string): string {
+  return runGit(["rev-parse", "--show-toplevel"], cwd);
+}
+
+function parseDiffPath(value: string): string {
+  const unquoted = value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+  return unquoted.replace(/^b\//, "");
+}
+
+export function parseChangedRanges(diff: string): ChangedFile[] {
+  const files = new Map<string, LineRange[]>();
+  let current: LineRange[] | null = null;
+
+  for (const line of diff.split(/\r?\n/)) {
+    if (line.startsWith("+++ ")) {
+      const target = line.slice(4).trim();
+      if (target === "/dev/null") {
+        current = null;
+        continue;
+      }
+      const filePath = parseDiffPath(target);
+      current = files.get(filePath) ?? [];
+      files.set(filePath, current);
+      continue;
+    }
+    if (!current || !line.startsWith("@@ ")) {
+      continue;
+    }
+    const match = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (!match) {
+      continue;
+    }
+    const start = Number(match[1]);
+    const count = Number(match[2] ?? "1");
+    // Pure deletions (count 0) still touch the surrounding line.
+    const startLine = Math.max(start, 1);
+    const endLine = count === 0 ? startLine : start + count - 1;
+    current.push({ startLine, endLine });
+  }
+
+  return Array.from(files.entries())
+    .map(([filePath, ranges]) => ({ path: filePath, ranges }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function countFileLines(filePath: string): number {
+  try {
+    const content = fs.readFileSync(filePath, "utf8");
+    const lines = content.split("\n").length - (content.endsWith("\n") ? 1 : 0);
+    return Math.max(lines, 1);
+  } catch {
+    return 1;
+  }
+}
+
+// Untracked files never show up in `git diff`, but every line in them is new.
+function listUntrackedFiles(cwd: string): ChangedFile[] {
+  return runGit(["ls-files", "-z", "--others", "--exclude-standard"], cwd)
+    .split("\0")
+    .filter(Boolean)
+    .map((filePath) => ({
+      path: filePath,
+      ranges: [{ startLine: 1, endLine: countFileLines(path.join(cwd, filePath)) }],
+    }));
+}
+
+export function listChangedFiles(
+  cwd: string,
+  options: { since?: string; staged?: boolean }
+): ChangedFile[] {
+  const args = [
+    "-c",
+    "core.quotepath=off",
+    "diff",
+    "--unified=0",
+    "--no-color",
+    "--no-ext-diff",
+    "--src-prefix=a/",
+    "--dst-prefix=b/",
+    "--relative",
+    "--diff-filter=ACMR",
+  ];
+  if (options.staged) {
+    args.push("--cached");
+  }
+  if (options.since) {
+    args.push(options.since);
+  }
+  args.push("--");
+
+  try {
+    const changed = parseChangedRanges(runGit(args, cwd));
+    if (options.staged) {
+      return changed;
+    }
+    return [...changed, ...listUntrackedFiles(cwd)].sort((a, b) => a.path.localeCompare(b.path));
+  } catch (error) {
+    const stderr =
+      error && typeof error === "object" && "stderr" in error
+        ? String((error as { stderr?: Buffer | string }).stderr ?? "").trim()
+        : "";
+    const reason = stderr || (error instanceof Error ? error.message : String(error));
+    const scope = options.since ? `since "${options.since}"` : "in the index";
+    throw new Error(`Unable to list changed files ${scope}: ${reason}`);
+  }
+}
@@ -0,0 +1,349 @@
+import { scanSecrets } from "./security-analyzer";
+import {
+  NAMESPACE_IMPORT,
+  type FunctionSpan,
+  type ImportReference,
+  type ParsedFile,
+} from "./parsed-file";
+import {
+  BRACKET_PAIRS,
+  buildTokenPattern,
+  findClosing,
+  getTokenShape,
+  NAME_PATTERN,
+  scanTokens,
+  splitTopLevel,
+  type SourceToken,
+} from "./token-scanner";
+
+const TOKEN_PATTERN = buildTokenPattern([
+  /(?<space>[ \t\r\f]+)/,
+  /(?<newline>\n)/,
+  /(?<comment>\/\/[^\n]*|\/\*[\s\S]*?\*\/)/,
+  /(?<string>`[^`]*`|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)+')/,
+  /(?<unclosed>\/\*|`)/,
+  /(?<number>(?:0[xX][\da-fA-F_]*(?:\.[\da-fA-F_]*)?(?:[pP][+-]?\d+)?|0[bBoO][\d_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?)i?)/,
+  NAME_PATTERN,
+  /(?<op><<=|>>=|&\^=|\.\.\.|&&|\|\||<-|\+\+|--|==|!=|<=|>=|:=|&\^|<<|>>|[-+*/%&|^]=|[-+*/%&|^<>=!:;,.(){}[\]~])/,
+]);
+const KEYWORDS = new Set(
+  `break case chan const continue default defer else fallthrough for func go goto if import
+  interface map package range return select struct switch type var`.split(/\s+/)
+);
+const STATEMENT_END_KEYWORDS = new Set(["break", "continue", "fallthrough", "return"]);
+const STATEMENT_END_OPERATORS = new Set([")", "]", "}", "++", "--"]);
+const SIGNATURE_STOP_TOKENS = new Set([",", ";", "=", ":="]);
+
+function endsStatement(token: SourceToken): boolean {
+  if (token.kind === "name") {
+    return !KEYWORDS.has(token.text) || STATEMENT_END_KEYWORDS.has(token.text);
+  }
+  return token.kind !== "op" || STATEMENT_END_OPERATORS.has(token.text);
+}
+
+function startsNewStatement(tokens: SourceToken[], index: number): boolean {
+  const previous = tokens[index - 1];
+  return Boolean(previous && tokens[index].line > previous.endLine && endsStatement(previous));
+}
+
+function findBody(tokens: SourceToken[], start: number, depth: number): number | undefined {
+  for (let index = start; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    if (token.depth < depth) {
+      return undefined;
+    }
+    if (token.depth > depth) {
+      continue;
+    }
+    if (token.text === "{") {
+      return index;
+    }
+    if (
+      (token.text === "struct" || token.text === "interface") &&
+      tokens[index + 1]?.text === "{"
+    ) {
+      index = findClosing(tokens, index + 1);
+    } else if (
+      SIGNATURE_STOP_TOKENS.has(token.text) ||
+      BRACKET_PAIRS[token.text] ||
+      startsNewStatement(tokens, index)
+    ) {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+function isTypeName(token: SourceToken | undefined): boolean {
+  return Boolean(
+    token &&
+    (token.text === "." ||
+      token.text === "*" ||
+      (token.kind === "name" && !KEYWORDS.has(token.text)))
+  );
+}
+
+function isCompositeLiteral(tokens: SourceToken[], brace: number): boolean {
+  let cursor = brace - 1;
+  while (isTypeName(tokens[cursor])) {
+    cursor -= 1;
+  }
+  if (cursor === brace - 1 || tokens[cursor]?.text !== "]") {
+    return false;
+  }
+  let open = cursor - 1;
+  while (
+    open >= 0 &&
+    !(tokens[open].text === "[" && tokens[open].depth === tokens[cursor].depth - 1)
+  ) {
+    open -= 1;
+  }
+  const before = tokens[open - 1];
+  return (
+    before?.text === "map" ||
+    !(before && (isTypeName(before) || before.text === ")" || before.text === "]"))
+  );
+}
+
+function describeParameters(
+  tokens: SourceToken[]
+): Pick<FunctionSpan, "parameters" | "flagParameters"> {
+  const parts = splitTopLevel(tokens);
+  const named = parts.some(
+    (part) => part.length > 1 && part[0].kind === "name" && part[1].text !== "."
+  );
+  if (!named) {
+    return { parameters: parts.length, flagParameters: [] };
+  }
+  const flagParameters: string[] = [];
+  let type = "";
+  for (let index = parts.length - 1; index >= 0; index -= 1) {
+    const part = parts[index];
+    if (part.length > 1) {
+      type = part
+        .slice(1)
+        .map((token) => token.text)
+        .join("");
+    }
+    if (type === "bool") {
+      flagParameters.unshift(part[0].text);
+    }
+  }
+  return { parameters: parts.length, flagParameters };
+}
+
+function collectFunctions(tokens: SourceToken[]): FunctionSpan[] {
+  const functions: FunctionSpan[] = [];
+
+  const measureBody = (
+    open: number,
+    close: number
+  ): Pick<FunctionSpan, "cyclomatic" | "cognitive" | "maxNesting"> => {
+    const score = { cyclomatic: 1, cognitive: 0, maxNesting: 0 };
+    const braces: boolean[] = [];
+    let nesting = 0;
+    let pendingDepth: number | undefined;
+    let elseIf = false;
+    let previousOperator: string | undefined;
+
+    for (let index = open + 1; index < close; index += 1) {
+      const token = tokens[index];
+      const next = tokens[index + 1];
+      if (startsNewStatement(tokens, index)) {
+        previousOperator = undefined;
+      }
+      if (token.text === "func") {
+        const end = recordFunction(index);
+        if (end !== undefined) {
+          index = end;
+          continue;
+        }
+      }
+
+      switch (token.text) {
+        case "if":
+          score.cyclomatic += 1;
+          if (!elseIf) {
+            score.cognitive += 1 + nesting;
+          }
+          elseIf = false;
+          pendingDepth = token.depth;
+          break;
+        case "else":
+          score.cognitive += 1;
+          elseIf = next?.text === "if";
+          pendingDepth = elseIf ? undefined : token.depth;
+          break;
+        case "for":
+          score.cyclomatic += 1;
+          score.cognitive += 1 + nesting;
+          pendingDepth = token.depth;
+          break;
+        case "switch":
+        case "select":
+          score.cognitive += 1 + nesting;
+          pendingDepth = token.depth;
+          break;
+        case "case":
+          score.cyclomatic += 1;
+          break;
+        case "goto":
+          score.cognitive += 1;
+          break;
+        case "break":
+        case "continue":
+          if (next?.kind === "name" && next.line === token.line && !KEYWORDS.has(next.text)) {
+            score.cognitive += 1;
+          }
+          break;
+        case "&&":
+        case "||":
+          score.cyclomatic += 1;
+          if (token.text !== previousOperator) {
+            score.cognitive += 1;
+          }
+          previousOperator = token.text;
+          break;
+        case "{": {
+          const opensBlock = pendingDepth === token.depth && !isCompositeLiteral(tokens, index);
+          braces.push(opensBlock);
+          if (opensBlock) {
+            nesting += 1;
+            score.maxNesting = Math.max(score.maxNesting, nesting);
+            pendingDepth = undefined;
+          }
+          previousOperator = undefined;
+          break;
+        }
+        case "}":
+          if (braces.pop()) {
+            nesting -= 1;
+          }
+          previousOperator = undefined;
+          break;
+        case ";":
+          previousOperator = undefined;
+          break;
+      }
+    }
+    return score;
+  };
+
+  const recordFunction = (start: number): number | undefined => {
+    let index = start + 1;
+    let name = "<anonymous>";
+    if (tokens[index]?.text === "(") {
+      const receiverClose = findClosing(tokens, index);
+      if (
+        tokens[receiverClose + 1]?.kind === "name" &&
+        /^[([]$/.test(tokens[receiverClose + 2]?.text)
+      ) {
+        index = receiverClose + 1;
+      }
+    }
+    if (tokens[index]?.kind === "name") {
+      name = tokens[index].text;
+      index += 1;
+    } else if (
+      (tokens[start - 1]?.text === ":=" || tokens[start - 1]?.text === "=") &&
+      tokens[start - 2]?.kind === "name"
+    ) {
+      name = tokens[start - 2].text;
+    }
+    if (tokens[index]?.text === "[") {
+      index = findClosing(tokens, index) + 1;
+    }
+    if (tokens[index]?.text !== "(") {
+      return undefined;
+    }
+    const paramsClose = findClosing(tokens, index);
+    const open = findBody(tokens, paramsClose + 1, tokens[index].depth);
+    if (open === undefined) {
+      return undefined;
+    }
+    const close = findClosing(tokens, open);
+    const startLine = tokens[start].line;
+    const endLine = tokens[close].endLine;
+    functions.push({
+      name,
+      length: endLine - startLine + 1,
+      startLine,
+      endLine,
+      ...measureBody(open, close),
+      ...describeParameters(tokens.slice(index + 1, paramsClose)),
+    });
+    return close;
+  };
+
+  for (let index = 0; index < tokens.length; index += 1) {
+    if (tokens[index].text === "func" && tokens[index].depth === 0) {
+      index = recordFunction(index) ?? index;
+    }
+  }
+  return functions.sort((a, b) => a.startLine - b.startLine);
+}
+
+function collectHeader(tokens: SourceToken[]): { imports: ImportReference[]; headerEnd: number } {
+  const imports: ImportReference[] = [];
+  let index = 0;
+  if (tokens[index]?.text === "package") {
+    index += 2;
+  }
+  while (tokens[index]?.text === ";") {
+    index += 1;
+  }
+  while (tokens[index]?.text === "import") {
+    const end = tokens[index + 1]?.text === "(" ? findClosing(tokens, index + 1) : index + 1;
+    const specs = tokens.slice(index + 1, end + 1);
+    for (const token of specs.filter((spec) => spec.kind === "string")) {
+      imports.push({
+        specifier: token.text.slice(1, -1),
+        startLine: token.line,
+        endLine: token.endLine,
+        names: [NAMESPACE_IMPORT],
+        reexportsAll: false,
+        typeOnly: false,
+      });
+    }
+    index = end + 1;
+    while (tokens[index]?.text === ";") {
+      index += 1;
+    }
+  }
+  return { imports, headerEnd: index };
+}
+
+export function parseGoFile(content: string): ParsedFile {
+  const { tokens, parseError } = scanTokens(content, TOKEN_PATTERN);
+  const { imports, headerEnd } = collectHeader(tokens);
+  const physicalLines = content.split("\n");
+  const codeLines = new Set<number>();
+  const stream: ParsedFile["tokens"] = { shapes: [], values: [], lines: [] };
+
+  tokens.forEach((token, index) => {
+    for (let lineNumber = token.line; lineNumber <= token.endLine; lineNumber += 1) {
+      codeLines.add(lineNumber);
+    }
+    if (index >= headerEnd) {
+      stream.shapes.push(getTokenShape(token, KEYWORDS));
+      stream.values.push(token.text);
+      stream.lines.push(token.line);
+    }
+  });
+
+  const lineNumbers = Array.from(codeLines).sort((a, b) => a - b);
+  return {
+    functions: collectFunctions(tokens),
+    imports,
+    exports: [],
+    security: scanSecrets(content, "source"),
+    taint: { flows: [], exportedSinks: [], importedCalls: [] },
+    performance: [],
+    errorHandling: [],
+    style: { symbols: [], literals: [], classes: [] },
+    tokens: stream,
+    normalizedLines: lineNumbers.map((lineNumber) => physicalLines[lineNumber - 1].trim()),
+    lineNumbers,
+    parseError,
+  };
+}
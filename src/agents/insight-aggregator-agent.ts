@@ -1,22 +1,78 @@
 import type {
   AnalysisResult,
   AggregatedInsights,
+  AnalysisThresholds,
+  ChangedFile,
+  Confidence,
+  ErrorHandlingFinding,
+  ErrorHandlingFindingKind,
   EvidenceItem,
   Issue,
+  LineRange,
+  PerformanceFinding,
+  PerformanceFindingKind,
   RepoScanResult,
+  SecurityFinding,
+  SecurityFindingKind,
+  StyleFinding,
+  StyleFindingKind,
 } from "../types";
 
 const MAX_LONG_FUNCTIONS = 5;
 const MAX_DUPLICATE_BLOCKS = 3;
 const MAX_DUPLICATE_OCCURRENCES = 3;
+const MAX_NEAR_DUPLICATES = 3;
 const MAX_CIRCULAR_CYCLES = 3;
+const MAX_COMPLEX_FUNCTIONS = 5;
+const MAX_UNUSED_EXPORTS = 5;
+const MAX_ORPHAN_MODULES = 5;
+const MAX_TYPE_FINDINGS = 5;
+const MIN_TYPE_COVERAGE = 90;
+const MAX_SECURITY_FINDINGS = 5;
+const MAX_TAINT_FLOWS = 3;
+const SECURITY_KINDS: SecurityFindingKind[] = [
+  "hardcodedSecret",
+  "shellInjection",
+  "dynamicCode",
+  "insecureTls",
+  "weakCrypto",
+];
+const MAX_PERFORMANCE_FINDINGS = 5;
+const PERFORMANCE_CONFIDENCE: Record<PerformanceFindingKind, Confidence> = {
+  syncIoInAsync: "high",
+  awaitInLoop: "medium",
+  nestedIncludes: "medium",
+  regexInLoop: "medium",
+  jsonClone: "medium",
+  unboundedPromiseAll: "low",
+};
+const MAX_ERROR_HANDLING_FINDINGS = 5;
+const ERROR_HANDLING_CONFIDENCE: Record<ErrorHandlingFindingKind, Confidence> = {
+  emptyCatch: "high",
+  swallowedRejection: "high",
+  throwLiteral: "high",
+  floatingPromise: "medium",
+  lostError: "medium",
+  discardedError: "low",
+};
+const MAX_STYLE_FINDINGS = 5;
+const STYLE_CONFIDENCE: Record<StyleFindingKind, Confidence> = {
+  largeFile: "medium",
+  largeClass: "medium",
+  longParameterList: "medium",
+  flagParameter: "low",
+  magicLiteral: "low",
+  namingConvention: "low",
+};
+const CONFIDENCE_RANK: Record<Confidence, number> = { low: 0, medium: 1, high: 2 };
 
 function buildLongFunctionEvidence(
-  longFunctions: AnalysisResult["signals"]["longFunctions"]
+  longFunctions: AnalysisResult["signals"]["longFunctions"],
+  limit: number
 ): EvidenceItem[] {
   return [...longFunctions]
     .sort((a, b) => b.length - a.length)
-    .slice(0, MAX_LONG_FUNCTIONS)
+    .slice(0, limit)
     .map((fn) => ({
       file: fn.file,
       startLine: fn.startLine,
@@ -25,19 +81,58 @@ function buildLongFunctionEvidence(
     }));
 }
 
+function buildComplexityEvidence(
+  complexFunctions: AnalysisResult["signals"]["complexFunctions"],
+  limit: number
+): EvidenceItem[] {
+  return [...complexFunctions]
+    .sort((a, b) => b.cognitive - a.cognitive || b.cyclomatic - a.cyclomatic)
+    .slice(0, limit)
+    .map((fn) => ({
+      file: fn.file,
+      startLine: fn.startLine,
+      endLine: fn.endLine,
+      metrics: [
+        { type: "cyclomatic", value: fn.cyclomatic },
+        { type: "cognitive", value: fn.cognitive },
+        { type: "loc", value: fn.length },
+      ],
+    }));
+}
+
+function buildNestingEvidence(
+  deeplyNestedFunctions: AnalysisResult["signals"]["deeplyNestedFunctions"],
+  limit: number
+): EvidenceItem[] {
+  return [...deeplyNestedFunctions]
+    .sort((a, b) => b.maxNesting - a.maxNesting || b.length - a.length)
+    .slice(0, limit)
+    .map((fn) => ({
+      file: fn.file,
+      startLine: fn.startLine,
+      endLine: fn.endLine,
+      metrics: [
+        { type: "nesting", value: fn.maxNesting },
+        { type: "loc", value: fn.length },
+      ],
+    }));
+}
+
 function buildDuplicateEvidence(
-  duplicateBlocks: AnalysisResult["signals"]["duplicateBlocks"]
+  duplicateBlocks: AnalysisResult["signals"]["duplicateBlocks"],
+  blockLimit: number,
+  occurrenceLimit: number
 ): EvidenceItem[] {
   const blocks = [...duplicateBlocks]
     .sort(
       (a, b) =>
         b.occurrences.length - a.occurrences.length || b.length - a.length
     )
-    .slice(0, MAX_DUPLICATE_BLOCKS);
+    .slice(0, blockLimit);
 
   const evidence: EvidenceItem[] = [];
   for (const block of blocks) {
-    const occurrences = block.occurrences.slice(0, MAX_DUPLICATE_OCCURRENCES);
+    const occurrences = block.occurrences.slice(0, occurrenceLimit);
     for (const occurrence of occurrences) {
       evidence.push({
         file: occurrence.file,
@@ -47,6 +142,7 @@ function buildDuplicateEvidence(
           { type: "loc", value: block.length },
           { type: "count", value: block.occurrences.length },
           { type: "hash", value: block.hash },
+          { type: "similarity", value: block.similarity },
         ],
       });
     }
@@ -56,61 +152,488 @@ function buildDuplicateEvidence(
 }
 
 function buildCircularEvidence(
-  circularDependencies: AnalysisResult["signals"]["circularDependencies"]
+  circularDependencies: AnalysisResult["signals"]["circularDependencies"],
+  limit: number
 ): EvidenceItem[] {
-  const evidence: EvidenceItem[] = [];
-  const cycles = circularDependencies.slice(0, MAX_CIRCULAR_CYCLES);
-  for (const cycle of cycles) {
-    evidence.push({
-      file: cycle.from,
-      startLine: cycle.fromStartLine,
-      endLine: cycle.fromEndLine,
-      metrics: [{ type: "count", value: 1 }],
-    });
-    evidence.push({
-      file: cycle.to,
-      startLine: cycle.toStartLine,
-      endLine: cycle.toEndLine,
-      metrics: [{ type: "count", value: 1 }],
-    });
+  const cycles = [...circularDependencies]
+    .sort((a, b) => b.size - a.size || b.edges.length - a.edges.length)
+    .slice(0, limit);
+  return cycles.flatMap((cycle) =>
+    cycle.edges.map((edge) => ({
+      file: edge.from,
+      startLine: edge.startLine,
+      endLine: edge.endLine,
+      metrics: [
+        { type: "cycleSize", value: cycle.size },
+        { type: "count", value: cycle.edges.length },
+      ],
+    }))
+  );
+}
+
+function buildOrphanModuleEvidence(
+  orphanModules: AnalysisResult["signals"]["orphanModules"],
+  limit: number
+): EvidenceItem[] {
+  return [...orphanModules]
+    .sort((a, b) => b.endLine - a.endLine || a.file.localeCompare(b.file))
+    .slice(0, limit)
+    .map((orphan) => ({
+      file: orphan.file,
+      startLine: orphan.startLine,
+      endLine: orphan.endLine,
+      metrics: [{ type: "loc", value: orphan.endLine - orphan.startLine + 1 }],
+    }));
+}
+
+function buildUnusedExportEvidence(
+  unusedExports: AnalysisResult["signals"]["unusedExports"],
+  limit: number
+): EvidenceItem[] {
+  return unusedExports.slice(0, limit).map((entry) => ({
+    file: entry.file,
+    startLine: entry.startLine,
+    endLine: entry.endLine,
+    metrics: [
+      { type: "symbol", value: entry.name },
+      { type: "loc", value: entry.endLine - entry.startLine + 1 },
+    ],
+  }));
+}
+
+function buildSecurityIssue(
+  kind: SecurityFindingKind,
+  findings: SecurityFinding[],
+  limit: number
+): Issue {
+  const selected = [...findings]
+    .sort(
+      (a, b) =>
+        CONFIDENCE_RANK[b.confidence] - CONFIDENCE_RANK[a.confidence] ||
+        a.file.localeCompare(b.file) ||
+        a.startLine - b.startLine
+    )
+    .slice(0, limit);
+  return {
+    type: "security",
+    signal: kind,
+    confidence: selected[0].confidence,
+    evidence: selected.map((finding) => ({
+      file: finding.file,
+      startLine: finding.startLine,
+      endLine: finding.endLine,
+      metrics: [
+        { type: "rule", value: finding.rule },
+        { type: "count", value: findings.length },
+      ],
+    })),
+  };
+}
+
+function buildRuleEvidence(
+  findings: (PerformanceFinding | ErrorHandlingFinding)[],
+  limit: number
+): EvidenceItem[] {
+  const perFile = new Map<string, number>();
+  for (const finding of findings) {
+    perFile.set(finding.file, (perFile.get(finding.file) ?? 0) + 1);
   }
-  return evidence;
+  return [...findings]
+    .sort(
+      (a, b) =>
+        (perFile.get(b.file) ?? 0) - (perFile.get(a.file) ?? 0) ||
+        a.file.localeCompare(b.file) ||
+        a.startLine - b.startLine
+    )
+    .slice(0, limit)
+    .map((finding) => ({
+      file: finding.file,
+      startLine: finding.startLine,
+      endLine: finding.endLine,
+      metrics: [
+        { type: "rule", value: finding.rule },
+        { type: "count", value: findings.length },
+      ],
+    }));
+}
+
+function buildStyleEvidence(findings: StyleFinding[], limit: number): EvidenceItem[] {
+  return [...findings]
+    .sort(
+      (a, b) => b.value - a.value || a.file.localeCompare(b.file) || a.startLine - b.startLine
+    )
+    .slice(0, limit)
+    .map((finding) => ({
+      file: finding.file,
+      startLine: finding.startLine,
+      endLine: finding.endLine,
+      metrics: [
+        { type: "rule", value: finding.rule },
+        { type: finding.kind === "largeFile" ? "loc" : "count", value: finding.value },
+      ],
+    }));
+}
+
+function buildTaintFlowEvidence(
+  taintFlows: AnalysisResult["signals"]["taintFlows"],
+  limit: number
+): EvidenceItem[] {
+  const fileCount = (flow: (typeof taintFlows)[number]): number =>
+    new Set(flow.steps.map((step) => step.file)).size;
+  const flows = [...taintFlows]
+    .sort(
+      (a, b) =>
+        fileCount(b) - fileCount(a) ||
+        a.steps[0].file.localeCompare(b.steps[0].file) ||
+        a.steps[0].startLine - b.steps[0].startLine
+    )
+    .slice(0, limit);
+  return flows.flatMap((flow) =>
+    flow.steps.map((step) => ({
+      file: step.file,
+      startLine: step.startLine,
+      endLine: step.endLine,
+      metrics: [
+        { type: "flowStep", value: step.kind },
+        { type: "symbol", value: step.name },
+        { type: "count", value: flow.steps.length },
+      ],
+    }))
+  );
+}
+
+function buildTypeFindingEvidence(
+  typeFindings: NonNullable<AnalysisResult["signals"]["typeFindings"]>,
+  limit: number
+): EvidenceItem[] {
+  const perFile = new Map<string, number>();
+  for (const finding of typeFindings) {
+    perFile.set(finding.file, (perFile.get(finding.file) ?? 0) + 1);
+  }
+  return [...typeFindings]
+    .sort(
+      (a, b) =>
+        (perFile.get(b.file) ?? 0) - (perFile.get(a.file) ?? 0) ||
+        a.file.localeCompare(b.file) ||
+        a.startLine - b.startLine
+    )
+    .slice(0, limit)
+    .map((finding) => ({
+      file: finding.file,
+      startLine: finding.startLine,
+      endLine: finding.endLine,
+      metrics: [
+        { type: "typeIssue", value: finding.kind },
+        { type: "count", value: perFile.get(finding.file) ?? 1 },
+      ],
+    }));
+}
+
+function buildTypeCoverageEvidence(
+  files: NonNullable<AnalysisResult["typeCoverage"]>["files"],
+  limit: number
+): EvidenceItem[] {
+  return [...files]
+    .sort((a, b) => a.percent - b.percent || a.file.localeCompare(b.file))
+    .slice(0, limit)
+    .map((file) => ({
+      file: file.file,
+      startLine: 1,
+      endLine: file.lastLine,
+      metrics: [
+        { type: "typeCoverage", value: file.percent },
+        { type: "count", value: file.totalIdentifiers - file.typedIdentifiers },
+      ],
+    }));
+}
+
+function buildPackageTestEvidence(
+  packages: NonNullable<AnalysisResult["packages"]>
+): EvidenceItem[] {
+  return packages.map((pkg) => ({
+    file: pkg.manifest,
+    startLine: 1,
+    endLine: 1,
+    metrics: [{ type: "count", value: pkg.testPresence.testFiles.length }],
+  }));
+}
+
+function filterSignalsToChanges(
+  signals: AnalysisResult["signals"],
+  changedFiles: ChangedFile[]
+): AnalysisResult["signals"] {
+  const changes = new Map<string, LineRange[]>(
+    changedFiles.map((changed) => [changed.path, changed.ranges])
+  );
+  const touches = (file: string, startLine: number, endLine: number): boolean =>
+    Boolean(
+      changes
+        .get(file)
+        ?.some((range) => range.startLine <= endLine && range.endLine >= startLine)
+    );
+
+  return {
+    ...signals,
+    longFunctions: signals.longFunctions.filter((fn) =>
+      touches(fn.file, fn.startLine, fn.endLine)
+    ),
+    complexFunctions: signals.complexFunctions.filter((fn) =>
+      touches(fn.file, fn.startLine, fn.endLine)
+    ),
+    deeplyNestedFunctions: signals.deeplyNestedFunctions.filter((fn) =>
+      touches(fn.file, fn.startLine, fn.endLine)
+    ),
+    duplicateBlocks: signals.duplicateBlocks.filter((block) =>
+      block.occurrences.some((occurrence) =>
+        touches(occurrence.file, occurrence.startLine, occurrence.endLine)
+      )
+    ),
+    nearDuplicateFunctions: signals.nearDuplicateFunctions.filter((block) =>
+      block.occurrences.some((occurrence) =>
+        touches(occurrence.file, occurrence.startLine, occurrence.endLine)
+      )
+    ),
+    circularDependencies: signals.circularDependencies.filter((cycle) =>
+      cycle.edges.some((edge) => touches(edge.from, edge.startLine, edge.endLine))
+    ),
+    unusedExports: signals.unusedExports.filter((entry) =>
+      touches(entry.file, entry.startLine, entry.endLine)
+    ),
+    orphanModules: signals.orphanModules.filter((orphan) =>
+      touches(orphan.file, orphan.startLine, orphan.endLine)
+    ),
+    typeFindings: signals.typeFindings?.filter((finding) =>
+      touches(finding.file, finding.startLine, finding.endLine)
+    ),
+    securityFindings: signals.securityFindings.filter((finding) =>
+      touches(finding.file, finding.startLine, finding.endLine)
+    ),
+    taintFlows: signals.taintFlows.filter((flow) =>
+      flow.steps.some((step) => touches(step.file, step.startLine, step.endLine))
+    ),
+    performanceFindings: signals.performanceFindings.filter((finding) =>
+      touches(finding.file, finding.startLine, finding.endLine)
+    ),
+    errorHandlingFindings: signals.errorHandlingFindings.filter((finding) =>
+      touches(finding.file, finding.startLine, finding.endLine)
+    ),
+    styleFindings: signals.styleFindings.filter((finding) =>
+      touches(finding.file, finding.startLine, finding.endLine)
+    ),
+  };
 }
 
 export function runInsightAggregatorAgent(
-  _scan: RepoScanResult,
-  analysis: AnalysisResult
+  scan: RepoScanResult,
+  analysis: AnalysisResult,
+  thresholds: AnalysisThresholds = {}
 ): AggregatedInsights {
   const issues: Issue[] = [];
+  const signals = scan.changedFiles
+    ? filterSignalsToChanges(analysis.signals, scan.changedFiles)
+    : analysis.signals;
 
-  if (analysis.signals.longFunctions.length > 0) {
+  if (signals.taintFlows.length > 0) {
+    issues.push({
+      type: "security",
+      signal: "taintedFlows",
+      confidence: "high",
+      evidence: buildTaintFlowEvidence(
+        signals.taintFlows,
+        thresholds.maxTaintFlows ?? MAX_TAINT_FLOWS
+      ),
+    });
+  }
+
+  for (const kind of SECURITY_KINDS) {
+    const findings = signals.securityFindings.filter((finding) => finding.kind === kind);
+    if (findings.length > 0) {
+      issues.push(
+        buildSecurityIssue(
+          kind,
+          findings,
+          thresholds.maxSecurityFindings ?? MAX_SECURITY_FINDINGS
+        )
+      );
+    }
+  }
+
+  for (const [kind, confidence] of Object.entries(PERFORMANCE_CONFIDENCE)) {
+    const findings = signals.performanceFindings.filter((finding) => finding.kind === kind);
+    if (findings.length > 0) {
+      issues.push({
+        type: "performance",
+        signal: kind,
+        confidence,
+        evidence: buildRuleEvidence(
+          findings,
+          thresholds.maxPerformanceFindings ?? MAX_PERFORMANCE_FINDINGS
+        ),
+      });
+    }
+  }
+
+  for (const [kind, confidence] of Object.entries(ERROR_HANDLING_CONFIDENCE)) {
+    const findings = signals.errorHandlingFindings.filter((finding) => finding.kind === kind);
+    if (findings.length > 0) {
+      issues.push({
+        type: "errorHandling",
+        signal: kind,
+        confidence,
+        evidence: buildRuleEvidence(
+          findings,
+          thresholds.maxErrorHandlingFindings ?? MAX_ERROR_HANDLING_FINDINGS
+        ),
+      });
+    }
+  }
+
+  if (signals.longFunctions.length > 0) {
     issues.push({
       type: "maintainability",
       signal: "longFunctions",
       confidence: "medium",
-      evidence: buildLongFunctionEvidence(analysis.signals.longFunctions),
+      evidence: buildLongFunctionEvidence(
+        signals.longFunctions,
+        thresholds.maxLongFunctions ?? MAX_LONG_FUNCTIONS
+      ),
+    });
+  }
+
+  if (signals.complexFunctions.length > 0) {
+    issues.push({
+      type: "maintainability",
+      signal: "highComplexity",
+      confidence: "high",
+      evidence: buildComplexityEvidence(
+        signals.complexFunctions,
+        thresholds.maxComplexFunctions ?? MAX_COMPLEX_FUNCTIONS
+      ),
+    });
+  }
+
+  if (signals.deeplyNestedFunctions.length > 0) {
+    issues.push({
+      type: "maintainability",
+      signal: "deepNesting",
+      confidence: "medium",
+      evidence: buildNestingEvidence(
+        signals.deeplyNestedFunctions,
+        thresholds.maxComplexFunctions ?? MAX_COMPLEX_FUNCTIONS
+      ),
     });
   }
 
-  if (analysis.signals.duplicateBlocks.length > 0) {
+  if (signals.duplicateBlocks.length > 0) {
     issues.push({
       type: "duplication",
       signal: "duplicateBlocks",
       confidence: "high",
-      evidence: buildDuplicateEvidence(analysis.signals.duplicateBlocks),
+      evidence: buildDuplicateEvidence(
+        signals.duplicateBlocks,
+        thresholds.maxDuplicateBlocks ?? MAX_DUPLICATE_BLOCKS,
+        thresholds.maxDuplicateOccurrences ?? MAX_DUPLICATE_OCCURRENCES
+      ),
+    });
+  }
+
+  if (signals.nearDuplicateFunctions.length > 0) {
+    issues.push({
+      type: "duplication",
+      signal: "nearDuplicateFunctions",
+      confidence: "medium",
+      evidence: buildDuplicateEvidence(
+        signals.nearDuplicateFunctions,
+        thresholds.maxNearDuplicates ?? MAX_NEAR_DUPLICATES,
+        thresholds.maxDuplicateOccurrences ?? MAX_DUPLICATE_OCCURRENCES
+      ),
     });
   }
 
-  if (analysis.signals.circularDependencies.length > 0) {
+  if (signals.circularDependencies.length > 0) {
     issues.push({
       type: "architecture",
       signal: "circularDependencies",
       confidence: "high",
-      evidence: buildCircularEvidence(analysis.signals.circularDependencies),
+      evidence: buildCircularEvidence(
+        signals.circularDependencies,
+        thresholds.maxCircularCycles ?? MAX_CIRCULAR_CYCLES
+      ),
     });
   }
 
-  if (!analysis.signals.testPresence.hasTests) {
+  if (signals.orphanModules.length > 0) {
+    issues.push({
+      type: "deadCode",
+      signal: "orphanModules",
+      confidence: "medium",
+      evidence: buildOrphanModuleEvidence(
+        signals.orphanModules,
+        thresholds.maxOrphanModules ?? MAX_ORPHAN_MODULES
+      ),
+    });
+  }
+
+  if (signals.unusedExports.length > 0) {
+    issues.push({
+      type: "deadCode",
+      signal: "unusedExports",
+      confidence: "medium",
+      evidence: buildUnusedExportEvidence(
+        signals.unusedExports,
+        thresholds.maxUnusedExports ?? MAX_UNUSED_EXPORTS
+      ),
+    });
+  }
+
+  if (signals.typeFindings && signals.typeFindings.length > 0) {
+    issues.push({
+      type: "typeSafety",
+      signal: "unsafeTypes",
+      confidence: "high",
+      evidence: buildTypeFindingEvidence(
+        signals.typeFindings,
+        thresholds.maxTypeFindings ?? MAX_TYPE_FINDINGS
+      ),
+    });
+  }
+
+  const minTypeCoverage = thresholds.minTypeCoverage ?? MIN_TYPE_COVERAGE;
+  const changedPaths = scan.changedFiles?.map((changed) => changed.path);
+  const poorlyTypedFiles = (analysis.typeCoverage?.files ?? []).filter(
+    (file) => file.percent < minTypeCoverage && (!changedPaths || changedPaths.includes(file.file))
+  );
+  const coverageBelowMinimum = changedPaths
+    ? poorlyTypedFiles.length > 0
+    : (analysis.typeCoverage?.percent ?? 100) < minTypeCoverage;
+  if (coverageBelowMinimum) {
+    issues.push({
+      type: "typeSafety",
+      signal: "typeCoverage",
+      confidence: "medium",
+      evidence: buildTypeCoverageEvidence(
+        poorlyTypedFiles,
+        thresholds.maxTypeFindings ?? MAX_TYPE_FINDINGS
+      ),
+    });
+  }
+
+  for (const [kind, confidence] of Object.entries(STYLE_CONFIDENCE)) {
+    const findings = signals.styleFindings.filter((finding) => finding.kind === kind);
+    if (findings.length > 0) {
+      issues.push({
+        type: "style",
+        signal: kind,
+        confidence,
+        evidence: buildStyleEvidence(
+          findings,
+          thresholds.maxStyleFindings ?? MAX_STYLE_FINDINGS
+        ),
+      });
+    }
+  }
+
+  if (!signals.testPresence.hasTests) {
     issues.push({
       type: "testing",
       signal: "testPresence",
@@ -119,5 +642,20 @@ export function runInsightAggregatorAgent(
     });
   }
 
+  const untestedPackages = (analysis.packages ?? []).filter(
+    (pkg) =>
+      pkg.files > 0 &&
+      !pkg.testPresence.hasTests &&
+      (!changedPaths || changedPaths.some((file) => file.startsWith(`${pkg.path}/`)))
+  );
+  if (signals.testPresence.hasTests && untestedPackages.length > 0) {
+    issues.push({
+      type: "testing",
+      signal: "packageTestPresence",
+      confidence: "medium",
+      evidence: buildPackageTestEvidence(untestedPackages),
+    });
+  }
+
   return { issues };
 }
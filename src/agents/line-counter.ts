@@ -0,0 +1,108 @@
+import type { LineCounts } from "../types";
+
+type CommentSyntax = {
+  line: string[];
+  block: [string, string][];
+};
+
+const C_STYLE: CommentSyntax = { line: ["//"], block: [["/*", "*/"]] };
+const HASH_STYLE: CommentSyntax = { line: ["#"], block: [] };
+
+const COMMENT_SYNTAX: Record<string, CommentSyntax> = {
+  ts: C_STYLE,
+  js: C_STYLE,
+  go: C_STYLE,
+  rs: C_STYLE,
+  java: C_STYLE,
+  kt: C_STYLE,
+  cs: C_STYLE,
+  swift: C_STYLE,
+  scala: C_STYLE,
+  scss: C_STYLE,
+  sass: C_STYLE,
+  less: C_STYLE,
+  php: { line: ["//", "#"], block: [["/*", "*/"]] },
+  css: { line: [], block: [["/*", "*/"]] },
+  py: HASH_STYLE,
+  rb: { line: ["#"], block: [["=begin", "=end"]] },
+  shell: HASH_STYLE,
+  yaml: HASH_STYLE,
+  toml: HASH_STYLE,
+  powershell: { line: ["#"], block: [["<#", "#>"]] },
+  sql: { line: ["--"], block: [["/*", "*/"]] },
+  html: { line: [], block: [["<!--", "-->"]] },
+  json: { line: [], block: [] },
+};
+
+export function emptyLineCounts(): LineCounts {
+  return { code: 0, comment: 0, blank: 0 };
+}
+
+export function addLineCounts(target: LineCounts, counts: LineCounts): void {
+  target.code += counts.code;
+  target.comment += counts.comment;
+  target.blank += counts.blank;
+}
+
+export function countLines(content: string, language: string): LineCounts {
+  const syntax = COMMENT_SYNTAX[language] ?? { line: [], block: [] };
+  const counts = emptyLineCounts();
+  if (content.length === 0) {
+    return counts;
+  }
+
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+
+  let blockEnd: string | null = null;
+  for (const line of lines) {
+    if (line.trim().length === 0) {
+      counts.blank += 1;
+      continue;
+    }
+
+    let hasCode = false;
+    let hasComment = false;
+    let index = 0;
+    while (index < line.length) {
+      if (blockEnd) {
+        hasComment = true;
+        const end = line.indexOf(blockEnd, index);
+        if (end === -1) {
+          break;
+        }
+        index = end + blockEnd.length;
+        blockEnd = null;
+        continue;
+      }
+      if (/\s/.test(line[index])) {
+        index += 1;
+        continue;
+      }
+      if (syntax.line.some((prefix) => line.startsWith(prefix, index))) {
+        hasComment = true;
+        break;
+      }
+      const block = syntax.block.find(([start]) => line.startsWith(start, index));
+      if (block) {
+        blockEnd = block[1];
+        index += block[0].length;
+        continue;
+      }
+      hasCode = true;
+      index += 1;
+    }
+
+    if (hasCode) {
+      counts.code += 1;
+    } else if (hasComment) {
+      counts.comment += 1;
+    } else {
+      counts.blank += 1;
+    }
+  }
+
+  return counts;
+}
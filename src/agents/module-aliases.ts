@@ -0,0 +1,216 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import ts from "typescript";
+
+export type AliasRule = {
+  pattern: string;
+  targets: string[];
+};
+
+export type AliasScope = {
+  dir: string;
+  rules: AliasRule[];
+  baseUrl?: string;
+};
+
+export type GoModule = {
+  dir: string;
+  name: string;
+};
+
+export type ModuleAliases = {
+  paths: AliasScope[];
+  imports: AliasScope[];
+  goModules: GoModule[];
+};
+
+export const TSCONFIG_FILE_NAMES = new Set(["tsconfig.json", "jsconfig.json"]);
+const PACKAGE_MANIFEST = "package.json";
+const GO_MODULE_MANIFEST = "go.mod";
+const INTERNAL_SPECIFIER_PATTERN = /^(?:#|~|@\/)/;
+
+const CONFIG_HOST: ts.ParseConfigHost = {
+  useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+  readDirectory: () => [],
+  fileExists: (fileName) => ts.sys.fileExists(fileName),
+  readFile: (fileName) => ts.sys.readFile(fileName),
+};
+
+function toRelativePath(rootPath: string, absolutePath: string): string {
+  return path.relative(rootPath, absolutePath).split(path.sep).join("/");
+}
+
+function joinRelative(dir: string, target: string): string {
+  return path.posix.normalize(path.posix.join(dir, target)).replace(/\/$/, "");
+}
+
+export function readCompilerOptions(configPath: string): ts.CompilerOptions | null {
+  const { config, error } = ts.readConfigFile(configPath, CONFIG_HOST.readFile);
+  if (error || !config) {
+    return null;
+  }
+  return ts.parseJsonConfigFileContent(
+    config,
+    CONFIG_HOST,
+    path.dirname(configPath),
+    undefined,
+    configPath
+  ).options;
+}
+
+function loadTsconfigScope(rootPath: string, configFile: string): AliasScope | null {
+  const configPath = path.join(rootPath, ...configFile.split("/"));
+  const options = readCompilerOptions(configPath);
+  if (!options) {
+    return null;
+  }
+  const configDir = path.dirname(configPath);
+  const pathsBase =
+    options.baseUrl ??
+    (options as ts.CompilerOptions & { pathsBasePath?: string }).pathsBasePath ??
+    configDir;
+  const rules = Object.entries(options.paths ?? {}).map(([pattern, targets]) => ({
+    pattern,
+    targets: targets.map((target) => toRelativePath(rootPath, path.resolve(pathsBase, target))),
+  }));
+  return {
+    dir: path.posix.dirname(configFile),
+    rules,
+    baseUrl: options.baseUrl ? toRelativePath(rootPath, options.baseUrl) : undefined,
+  };
+}
+
+function pickImportTarget(value: unknown): string | null {
+  if (typeof value === "string") {
+    return value.startsWith("./") ? value : null;
+  }
+  const candidates = Array.isArray(value)
+    ? value
+    : value && typeof value === "object"
+      ? Object.values(value)
+      : [];
+  for (const candidate of candidates) {
+    const target = pickImportTarget(candidate);
+    if (target) {
+      return target;
+    }
+  }
+  return null;
+}
+
+async function loadPackageImportsScope(
+  rootPath: string,
+  manifest: string
+): Promise<AliasScope | null> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(path.join(rootPath, ...manifest.split("/")), "utf8"));
+  } catch {
+    return null;
+  }
+  const dir = path.posix.dirname(manifest);
+  const imports = (data as { imports?: unknown } | null)?.imports;
+  const rules: AliasRule[] = [];
+  if (imports && typeof imports === "object" && !Array.isArray(imports)) {
+    for (const [pattern, value] of Object.entries(imports)) {
+      const target = pickImportTarget(value);
+      if (pattern.startsWith("#") && target) {
+        rules.push({ pattern, targets: [joinRelative(dir, target)] });
+      }
+    }
+  }
+  return { dir, rules };
+}
+
+async function loadGoModule(rootPath: string, manifest: string): Promise<GoModule | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(rootPath, ...manifest.split("/")), "utf8");
+  } catch {
+    return null;
+  }
+  const match = /^module\s+"?([^\s"]+)"?/m.exec(content);
+  return match ? { dir: path.posix.dirname(manifest), name: match[1] } : null;
+}
+
+export async function loadModuleAliases(
+  rootPath: string,
+  projectFiles: string[]
+): Promise<ModuleAliases> {
+  const aliases: ModuleAliases = { paths: [], imports: [], goModules: [] };
+  for (const projectFile of [...projectFiles].sort()) {
+    const fileName = path.posix.basename(projectFile);
+    if (TSCONFIG_FILE_NAMES.has(fileName)) {
+      const scope = loadTsconfigScope(rootPath, projectFile);
+      if (scope) {
+        aliases.paths.push(scope);
+      }
+    } else if (fileName === PACKAGE_MANIFEST) {
+      const scope = await loadPackageImportsScope(rootPath, projectFile);
+      if (scope) {
+        aliases.imports.push(scope);
+      }
+    } else if (fileName === GO_MODULE_MANIFEST) {
+      const goModule = await loadGoModule(rootPath, projectFile);
+      if (goModule) {
+        aliases.goModules.push(goModule);
+      }
+    }
+  }
+  return aliases;
+}
+
+export function findAliasScope(scopes: AliasScope[], importerPath: string): AliasScope | undefined {
+  const depth = (scope: AliasScope): number => (scope.dir === "." ? 0 : scope.dir.length + 1);
+  let nearest: AliasScope | undefined;
+  for (const scope of scopes) {
+    const contains = scope.dir === "." || importerPath.startsWith(`${scope.dir}/`);
+    if (contains && (!nearest || depth(scope) > depth(nearest))) {
+      nearest = scope;
+    }
+  }
+  return nearest;
+}
+
+export function matchAliasRules(specifier: string, rules: AliasRule[]): string[] | null {
+  const exact = rules.find((rule) => rule.pattern === specifier);
+  if (exact) {
+    return exact.targets;
+  }
+
+  let best: { rule: AliasRule; prefix: string; suffix: string } | null = null;
+  for (const rule of rules) {
+    const starIndex = rule.pattern.indexOf("*");
+    if (starIndex === -1) {
+      continue;
+    }
+    const prefix = rule.pattern.slice(0, starIndex);
+    const suffix = rule.pattern.slice(starIndex + 1);
+    if (
+      specifier.length >= prefix.length + suffix.length &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix) &&
+      (!best || prefix.length > best.prefix.length)
+    ) {
+      best = { rule, prefix, suffix };
+    }
+  }
+  if (!best) {
+    return null;
+  }
+  const { rule, prefix, suffix } = best;
+  const captured = specifier.slice(prefix.length, specifier.length - suffix.length);
+  return rule.targets.map((target) => target.replace("*", captured));
+}
+
+export function isInternalSpecifier(
+  specifier: string,
+  importerPath: string,
+  aliases: ModuleAliases
+): boolean {
+  if (INTERNAL_SPECIFIER_PATTERN.test(specifier)) {
+    return true;
+  }
+  const scope = findAliasScope(aliases.paths, importerPath);
+  return Boolean(scope && matchAliasRules(specifier, scope.rules));
+}
@@ -1,14 +1,18 @@
 import type {
   AnalysisResult,
   CliConfig,
+  Diagnostic,
   FixApplyResult,
   FixResult,
   FixSuggestion,
   FixPreviewSummary,
   FormattedOutput,
+  RepoScanResult,
   RoastResult,
 } from "../types";
 
+const MAX_DIAGNOSTICS = 5;
+
 function humanizeFixMessage(message: string): string {
   const mappings: { pattern: RegExp; replacement: string }[] = [
     {
@@ -124,23 +128,221 @@ function formatArchitectureSummary(analysis?: AnalysisResult): string[] {
   }
   if (summary.cycles > 0 && summary.sampleCycle) {
     lines.push(`Cycles detected: ${summary.cycles}`);
-    lines.push(`Example cycle: ${summary.sampleCycle.from} ↔ ${summary.sampleCycle.to}`);
+    const cyclePath = summary.sampleCycle.path;
+    lines.push(`Example cycle: ${[...cyclePath, cyclePath[0]].join(" → ")}`);
   } else {
     lines.push("Cycles detected: 0");
   }
   return lines;
 }
 
+function formatLanguageBreakdown(scan?: RepoScanResult): string[] {
+  const byLanguage = scan?.lineCounts?.byLanguage ?? {};
+  const languages = Object.keys(byLanguage).sort(
+    (a, b) => byLanguage[b].code - byLanguage[a].code || a.localeCompare(b)
+  );
+  if (!scan || languages.length === 0) {
+    return [];
+  }
+  const rows = [
+    ["Language", "Files", "Code", "Comment", "Blank"],
+    ...languages.map((language) => [
+      language,
+      String(scan.languages[language] ?? 0),
+      String(byLanguage[language].code),
+      String(byLanguage[language].comment),
+      String(byLanguage[language].blank),
+    ]),
+    [
+      "Total",
+      String(languages.reduce((sum, language) => sum + (scan.languages[language] ?? 0), 0)),
+      String(scan.lineCounts.total.code),
+      String(scan.lineCounts.total.comment),
+      String(scan.lineCounts.total.blank),
+    ],
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  const lines = rows.map((row) =>
+    row
+      .map((cell, column) =>
+        column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])
+      )
+      .join("  ")
+  );
+  return ["", "Languages", ...lines];
+}
+
+function formatPackageBreakdown(analysis?: AnalysisResult): string[] {
+  const packages = analysis?.packages;
+  if (!packages || packages.length === 0) {
+    return [];
+  }
+  const lines: string[] = ["", `Packages (${packages.length})`];
+  for (const pkg of packages) {
+    const details = [
+      pluralize(pkg.files, "file"),
+      pluralize(pkg.metrics.totalFunctions, "function"),
+      `max ${pkg.metrics.maxFunctionLength} lines`,
+      `${pkg.longFunctions} long`,
+      `${pkg.metrics.duplicateBlocks} duplicated`,
+      `${pkg.circularDependencies} cycles`,
+      pkg.testPresence.hasTests
+        ? pluralize(pkg.testPresence.testFiles.length, "test file")
+        : "no tests",
+    ];
+    const dependsOn = pkg.dependsOn.length > 0 ? `; depends on ${pkg.dependsOn.join(", ")}` : "";
+    lines.push(`- ${pkg.name} (${pkg.path}): ${details.join(", ")}${dependsOn}`);
+  }
+  const untested = packages.filter((pkg) => !pkg.testPresence.hasTests).length;
+  const longFunctions = packages.reduce((sum, pkg) => sum + pkg.longFunctions, 0);
+  lines.push(
+    `Roll-up: ${untested} of ${packages.length} packages without tests, ${pluralize(
+      longFunctions,
+      "long function"
+    )} across packages`
+  );
+  return lines;
+}
+
+function formatTypeCoverage(analysis?: AnalysisResult): string[] {
+  const coverage = analysis?.typeCoverage;
+  if (!coverage) {
+    return [];
+  }
+  const findings = analysis.signals.typeFindings ?? [];
+  const counts = new Map<string, number>();
+  for (const finding of findings) {
+    counts.set(finding.kind, (counts.get(finding.kind) ?? 0) + 1);
+  }
+  const breakdown = Array.from(counts.entries())
+    .map(([kind, count]) => `${kind} ${count}`)
+    .join(", ");
+  return [
+    "",
+    "Type Coverage",
+    `Typed identifiers: ${coverage.percent}% (${coverage.typedIdentifiers}/${coverage.totalIdentifiers})`,
+    `Suppressions: ${coverage.suppressions} (${coverage.suppressionsPerKloc} per 1000 lines)`,
+    `Findings: ${findings.length}${breakdown ? ` (${breakdown})` : ""}`,
+  ];
+}
+
+function countByCode(diagnostics: Diagnostic[], code: Diagnostic["code"]): number {
+  return diagnostics.filter((diagnostic) => diagnostic.code === code).length;
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function formatPartialBanner(scan?: RepoScanResult, analysis?: AnalysisResult): string | null {
+  if (!scan?.partial && !analysis?.partial) {
+    return null;
+  }
+  const diagnostics = [...(scan?.diagnostics ?? []), ...(analysis?.diagnostics ?? [])];
+  const reasons: string[] = [];
+  if (countByCode(diagnostics, "scan-timeout") > 0) {
+    reasons.push("the scan timed out");
+  }
+  const unreadable =
+    countByCode(diagnostics, "unreadable-directory") +
+    countByCode(diagnostics, "stat-failed") +
+    countByCode(diagnostics, "unreadable-file");
+  if (unreadable > 0) {
+    reasons.push(`${pluralize(unreadable, "path")} could not be read`);
+  }
+  const unparsed = countByCode(diagnostics, "parse-error");
+  if (unparsed > 0) {
+    reasons.push(`${pluralize(unparsed, "file")} had syntax errors`);
+  }
+  return `PARTIAL RESULTS: ${reasons.join(", ")}. Findings only cover what was read and parsed.`;
+}
+
+function formatSkippedNotice(scan?: RepoScanResult): string | null {
+  const skipped: string[] = [];
+  const tooLarge = countByCode(scan?.diagnostics ?? [], "file-too-large");
+  if (tooLarge > 0) {
+    skipped.push(`${pluralize(tooLarge, "file")} for size`);
+  }
+  const binary = countByCode(scan?.diagnostics ?? [], "binary-file");
+  if (binary > 0) {
+    skipped.push(`${pluralize(binary, "file")} as binary`);
+  }
+  return skipped.length > 0 ? `Skipped ${skipped.join(" and ")} (see Diagnostics).` : null;
+}
+
+function formatChangeScope(config: CliConfig, scan?: RepoScanResult): string | null {
+  if (!scan?.changedFiles) {
+    return null;
+  }
+  const scope = [
+    config.since ? `since ${config.since}` : null,
+    config.staged ? "staged" : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+  return `Scope: ${pluralize(scan.changedFiles.length, "changed file")} (${scope}); findings are limited to changed lines.`;
+}
+
+function formatGeneratedNotice(config: CliConfig, scan?: RepoScanResult): string | null {
+  if (!scan || config.includeGenerated) {
+    return null;
+  }
+  const excluded = scan.files.filter((file) => file.classification).length;
+  if (excluded === 0) {
+    return null;
+  }
+  return `Skipped ${pluralize(excluded, "generated, minified or vendored file")} during analysis (use --include-generated to analyze them).`;
+}
+
+function formatDiagnostic(diagnostic: Diagnostic): string {
+  const location = diagnostic.path
+    ? `${diagnostic.path}${diagnostic.line ? `:${diagnostic.line}` : ""} `
+    : "";
+  return `- [${diagnostic.stage}/${diagnostic.code}] ${location}${diagnostic.message}`;
+}
+
+function formatDiagnostics(
+  config: CliConfig,
+  scan?: RepoScanResult,
+  analysis?: AnalysisResult
+): string[] {
+  const diagnostics = [...(scan?.diagnostics ?? []), ...(analysis?.diagnostics ?? [])];
+  if (diagnostics.length === 0) {
+    return [];
+  }
+  const lines: string[] = ["", "Diagnostics"];
+  const shown = config.showDetails ? diagnostics : diagnostics.slice(0, MAX_DIAGNOSTICS);
+  lines.push(...shown.map(formatDiagnostic));
+  const remaining = diagnostics.length - shown.length;
+  if (remaining > 0) {
+    lines.push(`- ... +${remaining} more (run with --details to see all)`);
+  }
+  return lines;
+}
+
 export function runOutputFormatterAgent(
   config: CliConfig,
   roast: RoastResult,
   fixResult?: FixResult,
-  analysis?: AnalysisResult
+  analysis?: AnalysisResult,
+  scan?: RepoScanResult
 ): FormattedOutput {
   const title = `CodeRoast (${config.severity}, ${config.focus})`;
   const divider = "-".repeat(title.length);
+  const notices = [
+    formatPartialBanner(scan, analysis),
+    formatSkippedNotice(scan),
+    formatChangeScope(config, scan),
+    formatGeneratedNotice(config, scan),
+  ].filter(
+    (notice): notice is string => Boolean(notice)
+  );
+  const header =
+    notices.length > 0
+      ? `${title}\n${divider}\n${notices.join("\n")}\n`
+      : `${title}\n${divider}`;
 
-  const sections: string[] = [`${title}\n${divider}\n${roast.content}`];
+  const sections: string[] = [`${header}\n${roast.content}`];
 
   if (roast.actionItems && roast.actionItems.length > 0 && roast.usedGemini === false) {
     sections.push(["", "Action Items", ...roast.actionItems.map((item) => `- ${item}`)].join("\n"));
@@ -150,6 +352,26 @@ export function runOutputFormatterAgent(
     sections.push(formatArchitectureSummary(analysis).join("\n").trimEnd());
   }
 
+  const languageLines = formatLanguageBreakdown(scan);
+  if (languageLines.length > 0) {
+    sections.push(languageLines.join("\n"));
+  }
+
+  const packageLines = formatPackageBreakdown(analysis);
+  if (packageLines.length > 0) {
+    sections.push(packageLines.join("\n"));
+  }
+
+  const typeLines = formatTypeCoverage(analysis);
+  if (typeLines.length > 0) {
+    sections.push(typeLines.join("\n"));
+  }
+
+  const diagnosticLines = formatDiagnostics(config, scan, analysis);
+  if (diagnosticLines.length > 0) {
+    sections.push(diagnosticLines.join("\n"));
+  }
+
   if (fixResult?.previewSummary) {
     sections.push(formatPreviewSummary(fixResult.previewSummary).join("\n").trimEnd());
   }
@@ -189,3 +411,9 @@ export function runOutputFormatterAgent(
     text: `${sections.join("\n")}\n`,
   };
 }
+
+export function formatJsonOutput(data: unknown): FormattedOutput {
+  return {
+    text: `${JSON.stringify(data, null, 2)}\n`,
+  };
+}
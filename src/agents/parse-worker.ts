@@ -0,0 +1,19 @@
+import { parentPort } from "node:worker_threads";
+import { parseFile } from "./source-parser";
+
+export type ParseTask = {
+  path: string;
+  extension: string;
+  content: string;
+};
+
+parentPort?.on("message", (task: ParseTask) => {
+  try {
+    parentPort?.postMessage({ ok: true, output: parseFile(task.path, task.extension, task.content) });
+  } catch (error) {
+    parentPort?.postMessage({
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
@@ -0,0 +1,41 @@
+import type { FunctionMetrics } from "../types";
+import type { TokenStream } from "./clone-detector";
+import type { ErrorHandlingFindingSpan } from "./error-handling-analyzer";
+import type { PerformanceFindingSpan } from "./performance-analyzer";
+import type { SecurityFindingSpan } from "./security-analyzer";
+import type { StyleFacts } from "./style-analyzer";
+import type { TaintSummary } from "./taint-analyzer";
+
+export type ImportReference = {
+  specifier: string;
+  startLine: number;
+  endLine: number;
+  names: string[];
+  reexportsAll: boolean;
+  typeOnly: boolean;
+};
+
+export type ExportReference = {
+  name: string;
+  startLine: number;
+  endLine: number;
+};
+
+export const NAMESPACE_IMPORT = "*";
+
+export type FunctionSpan = Omit<FunctionMetrics, "file">;
+
+export type ParsedFile = {
+  functions: FunctionSpan[];
+  imports: ImportReference[];
+  exports: ExportReference[];
+  security: SecurityFindingSpan[];
+  taint: TaintSummary;
+  performance: PerformanceFindingSpan[];
+  errorHandling: ErrorHandlingFindingSpan[];
+  style: StyleFacts;
+  tokens: TokenStream;
+  normalizedLines: string[];
+  lineNumbers: number[];
+  parseError?: { message: string; line?: number };
+};
@@ -0,0 +1,265 @@
+import ts from "typescript";
+import {
+  CHILD_PROCESS_MODULES,
+  FS_MODULES,
+  collectImportBindings,
+  resolveModuleFunction,
+} from "./security-analyzer";
+import type { PerformanceFinding, PerformanceFindingKind } from "../types";
+
+export type PerformanceFindingSpan = Omit<PerformanceFinding, "file">;
+
+type Loop = {
+  iterated?: string;
+  functionDepth: number;
+  batchable: boolean;
+  body: ts.Node;
+};
+
+type Context = {
+  loops: Loop[];
+  functionDepth: number;
+  blocking: boolean;
+};
+
+const ITERATION_METHODS = new Set([
+  "forEach",
+  "map",
+  "flatMap",
+  "filter",
+  "reduce",
+  "some",
+  "every",
+  "find",
+  "findIndex",
+]);
+const LOOKUP_METHODS = new Set(["includes", "indexOf"]);
+const SYNC_CHILD_PROCESS_FUNCTIONS = new Set(["execSync", "execFileSync", "spawnSync"]);
+const HANDLER_REQUEST_NAMES = new Set(["req", "request"]);
+const HANDLER_RESPONSE_NAMES = new Set(["res", "response", "reply"]);
+
+function getLineRange(
+  node: ts.Node,
+  sourceFile: ts.SourceFile
+): { startLine: number; endLine: number } {
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+  return { startLine: start.line + 1, endLine: end.line + 1 };
+}
+
+function isFunctionWithBody(node: ts.Node): node is ts.FunctionLikeDeclaration {
+  return (
+    (ts.isFunctionDeclaration(node) ||
+      ts.isFunctionExpression(node) ||
+      ts.isArrowFunction(node) ||
+      ts.isMethodDeclaration(node)) &&
+    node.body !== undefined
+  );
+}
+
+function isAsyncFunction(node: ts.FunctionLikeDeclaration): boolean {
+  return (ts.getModifiers(node) ?? []).some(
+    (modifier) => modifier.kind === ts.SyntaxKind.AsyncKeyword
+  );
+}
+
+function isRequestHandler(node: ts.FunctionLikeDeclaration): boolean {
+  const [request, response] = node.parameters.map((param) =>
+    ts.isIdentifier(param.name) ? param.name.text : ""
+  );
+  return HANDLER_REQUEST_NAMES.has(request) && HANDLER_RESPONSE_NAMES.has(response);
+}
+
+function getIteratedCollection(
+  node: ts.FunctionLikeDeclaration,
+  sourceFile: ts.SourceFile
+): string | undefined {
+  const parent = node.parent;
+  return ts.isCallExpression(parent) &&
+    parent.arguments[0] === node &&
+    ts.isPropertyAccessExpression(parent.expression) &&
+    ITERATION_METHODS.has(parent.expression.name.text)
+    ? parent.expression.expression.getText(sourceFile)
+    : undefined;
+}
+
+function isPropertyCall(node: ts.Node, objectName: string, methodName: string): boolean {
+  return (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    ts.isIdentifier(node.expression.expression) &&
+    node.expression.expression.text === objectName &&
+    node.expression.name.text === methodName
+  );
+}
+
+function containsPushTo(body: ts.Node, receiver: string, sourceFile: ts.SourceFile): boolean {
+  let found = false;
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.name.text === "push" &&
+      node.expression.expression.getText(sourceFile) === receiver
+    ) {
+      found = true;
+    }
+    if (!found) {
+      ts.forEachChild(node, visit);
+    }
+  };
+  visit(body);
+  return found;
+}
+
+function exitsEarly(body: ts.Node): boolean {
+  let found = false;
+  const visit = (node: ts.Node): void => {
+    if (isFunctionWithBody(node)) {
+      return;
+    }
+    if (ts.isReturnStatement(node) || (ts.isBreakStatement(node) && !node.label)) {
+      found = true;
+    }
+    if (!found && !ts.isIterationStatement(node, false) && !ts.isSwitchStatement(node)) {
+      ts.forEachChild(node, visit);
+    }
+  };
+  visit(body);
+  return found;
+}
+
+export function collectPerformanceFindings(sourceFile: ts.SourceFile): PerformanceFindingSpan[] {
+  const findings: PerformanceFindingSpan[] = [];
+  const bindings = collectImportBindings(sourceFile);
+
+  const add = (kind: PerformanceFindingKind, rule: string, node: ts.Node): void => {
+    findings.push({ kind, rule, ...getLineRange(node, sourceFile) });
+  };
+
+  const checkAwait = (node: ts.AwaitExpression, context: Context): void => {
+    const inLoop = context.loops.some(
+      (loop) => loop.batchable && loop.functionDepth === context.functionDepth
+    );
+    if (inLoop) {
+      add("awaitInLoop", "await in loop", node);
+    }
+  };
+
+  const checkCall = (node: ts.CallExpression, context: Context): void => {
+    const callee = node.expression;
+
+    if (context.blocking) {
+      const fsFunction = resolveModuleFunction(callee, bindings, FS_MODULES);
+      const shellFunction = resolveModuleFunction(callee, bindings, CHILD_PROCESS_MODULES);
+      if (fsFunction?.endsWith("Sync")) {
+        add("syncIoInAsync", `fs.${fsFunction}`, node);
+      } else if (shellFunction && SYNC_CHILD_PROCESS_FUNCTIONS.has(shellFunction)) {
+        add("syncIoInAsync", shellFunction, node);
+      }
+    }
+
+    if (
+      isPropertyCall(node, "JSON", "parse") &&
+      node.arguments.length === 1 &&
+      isPropertyCall(node.arguments[0], "JSON", "stringify")
+    ) {
+      add("jsonClone", "JSON.parse(JSON.stringify())", node);
+    }
+
+    if (
+      ts.isPropertyAccessExpression(callee) &&
+      LOOKUP_METHODS.has(callee.name.text) &&
+      context.loops.length > 0
+    ) {
+      const receiver = callee.expression.getText(sourceFile);
+      const overLoopCollection = context.loops.some((loop) => loop.iterated === receiver);
+      const growsInLoop = context.loops.some((loop) =>
+        containsPushTo(loop.body, receiver, sourceFile)
+      );
+      if (overLoopCollection || growsInLoop) {
+        add("nestedIncludes", `${receiver}.${callee.name.text}`, node);
+      }
+    }
+
+    if (
+      (isPropertyCall(node, "Promise", "all") || isPropertyCall(node, "Promise", "allSettled")) &&
+      node.arguments.length === 1
+    ) {
+      const arg = node.arguments[0];
+      if (
+        ts.isCallExpression(arg) &&
+        ts.isPropertyAccessExpression(arg.expression) &&
+        arg.expression.name.text === "map" &&
+        !ts.isArrayLiteralExpression(arg.expression.expression) &&
+        !ts.isCallExpression(arg.expression.expression)
+      ) {
+        const collection = arg.expression.expression.getText(sourceFile);
+        add("unboundedPromiseAll", `Promise.all(${collection}.map)`, node);
+      }
+    }
+  };
+
+  const checkRegExp = (node: ts.CallExpression | ts.NewExpression, context: Context): void => {
+    const pattern = node.arguments?.[0];
+    if (
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === "RegExp" &&
+      context.loops.length > 0 &&
+      pattern &&
+      ts.isStringLiteralLike(pattern)
+    ) {
+      add("regexInLoop", "new RegExp", node);
+    }
+  };
+
+  const visit = (node: ts.Node, context: Context): void => {
+    if (isFunctionWithBody(node)) {
+      const iterated = getIteratedCollection(node, sourceFile);
+      const functionDepth = context.functionDepth + 1;
+      const loops =
+        iterated !== undefined
+          ? [...context.loops, { iterated, functionDepth, batchable: false, body: node }]
+          : context.loops;
+      const blocking =
+        isAsyncFunction(node) ||
+        isRequestHandler(node) ||
+        (iterated !== undefined && context.blocking);
+      ts.forEachChild(node, (child) => visit(child, { loops, functionDepth, blocking }));
+      return;
+    }
+
+    if (ts.isIterationStatement(node, false)) {
+      const overCollection = ts.isForOfStatement(node) || ts.isForInStatement(node);
+      const loop: Loop = {
+        iterated: overCollection ? node.expression.getText(sourceFile) : undefined,
+        functionDepth: context.functionDepth,
+        batchable:
+          (overCollection || ts.isForStatement(node)) &&
+          !(ts.isForOfStatement(node) && node.awaitModifier) &&
+          !exitsEarly(node.statement),
+        body: node.statement,
+      };
+      ts.forEachChild(node, (child) =>
+        visit(child, {
+          ...context,
+          loops: child === node.statement ? [...context.loops, loop] : context.loops,
+        })
+      );
+      return;
+    }
+
+    if (ts.isAwaitExpression(node)) {
+      checkAwait(node, context);
+    } else if (ts.isCallExpression(node)) {
+      checkCall(node, context);
+      checkRegExp(node, context);
+    } else if (ts.isNewExpression(node)) {
+      checkRegExp(node, context);
+    }
+    ts.forEachChild(node, (child) => visit(child, context));
+  };
+
+  visit(sourceFile, { loops: [], functionDepth: 0, blocking: false });
+  return findings;
+}
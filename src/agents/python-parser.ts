@@ -0,0 +1,386 @@
+import { scanSecrets } from "./security-analyzer";
+import {
+  NAMESPACE_IMPORT,
+  type FunctionSpan,
+  type ImportReference,
+  type ParsedFile,
+} from "./parsed-file";
+import type { StyleClass } from "./style-analyzer";
+import {
+  buildTokenPattern,
+  findClosing,
+  getTokenShape,
+  NAME_PATTERN,
+  scanTokens,
+  splitTopLevel,
+  type SourceToken,
+} from "./token-scanner";
+
+type PythonToken = SourceToken & { column: number };
+
+type LogicalLine = {
+  tokens: PythonToken[];
+  indent: number;
+  startLine: number;
+  endLine: number;
+};
+
+type Block = {
+  line: LogicalLine;
+  index: number;
+  end: number;
+};
+
+const KEYWORDS = new Set(
+  `False None True and as assert async await break class continue def del elif else except
+  finally for from global if import in is lambda nonlocal not or pass raise return try while
+  with yield`.split(/\s+/)
+);
+const NESTING_KEYWORDS = new Set(["if", "elif", "else", "for", "while", "except", "match"]);
+const SOFT_KEYWORDS = new Set(["match", "case"]);
+const IF_CHAIN_KEYWORDS = new Set(["if", "elif"]);
+const TRY_CLAUSE_KEYWORDS = new Set(["try", "except"]);
+const BOOLEAN_OPERATORS = new Set(["and", "or"]);
+const RECEIVER_PARAMETERS = new Set(["self", "cls"]);
+const TAB_WIDTH = 8;
+const TOKEN_PATTERN = buildTokenPattern([
+  /(?<space>[ \t\f]+)/,
+  /(?<comment>#[^\r\n]*)/,
+  /(?<continuation>\\\r?\n)/,
+  /(?<newline>\r?\n)/,
+  /(?<string>[rRbBuUfF]{0,2}(?:'''[\s\S]*?'''|"""[\s\S]*?"""|'(?:[^'\\\r\n]|\\[\s\S])*'|"(?:[^"\\\r\n]|\\[\s\S])*"))/,
+  /(?<number>0[xXoObB][\da-fA-F_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?[jJ]?)/,
+  NAME_PATTERN,
+  /(?<op>\*\*=|\/\/=|>>=|<<=|\.\.\.|->|:=|[-+*/%&|^@<>=!]=|\*\*|\/\/|<<|>>|[()[\]{}:;,.@=+\-*/%&|^~<>])/,
+]);
+
+function getColumn(content: string, offset: number): number {
+  let column = 0;
+  for (let index = content.lastIndexOf("\n", offset - 1) + 1; index < offset; index += 1) {
+    column =
+      content[index] === "\t" ? (Math.floor(column / TAB_WIDTH) + 1) * TAB_WIDTH : column + 1;
+  }
+  return column;
+}
+
+function readLogicalLines(content: string): {
+  lines: LogicalLine[];
+  parseError?: ParsedFile["parseError"];
+} {
+  const { tokens, parseError } = scanTokens(content, TOKEN_PATTERN);
+  const lines: LogicalLine[] = [];
+  let current: PythonToken[] = [];
+
+  const endLogicalLine = (): void => {
+    if (current.length > 0) {
+      lines.push({
+        tokens: current,
+        indent: current[0].column,
+        startLine: current[0].line,
+        endLine: current[current.length - 1].endLine,
+      });
+    }
+    current = [];
+  };
+
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    if (previous && token.line > previous.endLine && token.depth === 0 && !token.continued) {
+      endLogicalLine();
+    }
+    current.push({ ...token, column: getColumn(content, token.offset) });
+  });
+  endLogicalLine();
+  return { lines, parseError };
+}
+
+function isDocstring(line: LogicalLine): boolean {
+  return line.tokens.every((token) => token.kind === "string");
+}
+
+function isImportLine(line: LogicalLine): boolean {
+  const first = line.tokens[0].text;
+  return first === "import" || (first === "from" && line.tokens.some((t) => t.text === "import"));
+}
+
+function isSoftKeywordStatement(line: LogicalLine): boolean {
+  const [first, next] = line.tokens;
+  return (
+    next !== undefined &&
+    next.text !== "." &&
+    next.text !== ":" &&
+    !next.text.endsWith("=") &&
+    line.tokens.some((token) => token.text === ":" && token.depth === first.depth)
+  );
+}
+
+function getHeaderKeyword(line: LogicalLine): string {
+  const [first, second] = line.tokens;
+  const keyword = first.text === "async" && second ? second.text : first.text;
+  return SOFT_KEYWORDS.has(keyword) && !isSoftKeywordStatement(line) ? "" : keyword;
+}
+
+function findBlockEnd(lines: LogicalLine[], index: number): number {
+  let end = index + 1;
+  while (end < lines.length && lines[end].indent > lines[index].indent) {
+    end += 1;
+  }
+  return end;
+}
+
+function getParameterTokens(line: LogicalLine): PythonToken[] {
+  const open = line.tokens.findIndex((token) => token.text === "(");
+  return open === -1 ? [] : line.tokens.slice(open + 1, findClosing(line.tokens, open));
+}
+
+function describeParameters(
+  line: LogicalLine,
+  inClass: boolean
+): Pick<FunctionSpan, "parameters" | "flagParameters"> {
+  const parameters = splitTopLevel(getParameterTokens(line))
+    .filter((part) => part[0].kind === "name" || part[0].text.startsWith("*"))
+    .filter((part) => !(part.length === 1 && (part[0].text === "*" || part[0].text === "/")))
+    .map((part) => ({
+      name: part.find((token) => token.kind === "name")?.text ?? "",
+      tokens: part,
+    }));
+  if (inClass && RECEIVER_PARAMETERS.has(parameters[0]?.name ?? "")) {
+    parameters.shift();
+  }
+  return {
+    parameters: parameters.length,
+    flagParameters: parameters
+      .filter(({ tokens }) =>
+        tokens.some(
+          (token, index) =>
+            (token.text === "bool" && tokens[index - 1]?.text === ":") ||
+            ((token.text === "True" || token.text === "False") && tokens[index - 1]?.text === "=")
+        )
+      )
+      .map(({ name }) => name),
+  };
+}
+
+function measureComplexity(
+  lines: LogicalLine[],
+  block: Block
+): Pick<FunctionSpan, "cyclomatic" | "cognitive" | "maxNesting"> {
+  const score = { cyclomatic: 1, cognitive: 0, maxNesting: 0 };
+  const open: number[] = [];
+  const headers = new Map<number, string>();
+
+  const scoreLine = (line: LogicalLine, nesting: number): void => {
+    let previousOperator: string | undefined;
+    line.tokens.forEach((token, index) => {
+      if (BOOLEAN_OPERATORS.has(token.text)) {
+        score.cyclomatic += 1;
+        if (token.text !== previousOperator) {
+          score.cognitive += 1;
+        }
+        previousOperator = token.text;
+      } else if (token.text === "if" && index > 0) {
+        score.cyclomatic += 1;
+        score.cognitive += 1 + nesting;
+        score.maxNesting = Math.max(score.maxNesting, nesting + 1);
+      }
+    });
+  };
+
+  for (let index = block.index + 1; index < block.end; index += 1) {
+    const line = lines[index];
+    while (open.length > 0 && open[open.length - 1] >= line.indent) {
+      open.pop();
+    }
+    const nesting = open.length;
+    const keyword = getHeaderKeyword(line);
+    if (keyword === "def" || keyword === "class") {
+      index = findBlockEnd(lines, index) - 1;
+      continue;
+    }
+    const elseOf = keyword === "else" ? headers.get(line.indent) : undefined;
+    headers.set(line.indent, keyword);
+
+    if (keyword === "if" || keyword === "for" || keyword === "while" || keyword === "except") {
+      score.cyclomatic += 1;
+      score.cognitive += 1 + nesting;
+    } else if (keyword === "elif") {
+      score.cyclomatic += 1;
+      score.cognitive += 1;
+    } else if (keyword === "else" && IF_CHAIN_KEYWORDS.has(elseOf ?? "")) {
+      score.cognitive += 1;
+    } else if (keyword === "match") {
+      score.cognitive += 1 + nesting;
+    } else if (keyword === "case") {
+      score.cyclomatic += 1;
+    }
+    scoreLine(line, nesting);
+
+    const nests =
+      keyword === "else" ? !TRY_CLAUSE_KEYWORDS.has(elseOf ?? "") : NESTING_KEYWORDS.has(keyword);
+    if (nests) {
+      score.maxNesting = Math.max(score.maxNesting, nesting + 1);
+      open.push(line.indent);
+    }
+  }
+  return score;
+}
+
+function collectBlocks(lines: LogicalLine[]): {
+  functions: FunctionSpan[];
+  classes: StyleClass[];
+} {
+  const functions: FunctionSpan[] = [];
+  const classes: StyleClass[] = [];
+  const enclosing: { indent: number; end: number; isClass: boolean }[] = [];
+
+  lines.forEach((line, index) => {
+    while (enclosing.length > 0 && enclosing[enclosing.length - 1].end <= index) {
+      enclosing.pop();
+    }
+    const keyword = getHeaderKeyword(line);
+    if (keyword !== "def" && keyword !== "class") {
+      return;
+    }
+    const nameToken = line.tokens[line.tokens.findIndex((token) => token.text === keyword) + 1];
+    const end = findBlockEnd(lines, index);
+    const block: Block = { line, index, end };
+    const startLine = line.startLine;
+    const endLine = end > index + 1 ? lines[end - 1].endLine : line.endLine;
+    const name = nameToken?.kind === "name" ? nameToken.text : "<anonymous>";
+
+    if (keyword === "class") {
+      const memberIndent = lines[index + 1]?.indent;
+      const members = lines
+        .slice(index + 1, end)
+        .filter((member) => member.indent === memberIndent && !isDocstring(member))
+        .filter((member) => {
+          const memberKeyword = getHeaderKeyword(member);
+          return (
+            memberKeyword === "def" ||
+            (member.tokens[0].kind === "name" && member.tokens[1]?.text === "=") ||
+            (member.tokens[0].kind === "name" && member.tokens[1]?.text === ":")
+          );
+        });
+      classes.push({ name, members: members.length, startLine, endLine });
+    } else {
+      const inClass = enclosing[enclosing.length - 1]?.isClass ?? false;
+      functions.push({
+        name,
+        length: endLine - startLine + 1,
+        startLine,
+        endLine,
+        ...measureComplexity(lines, block),
+        ...describeParameters(line, inClass),
+      });
+    }
+    enclosing.push({ indent: line.indent, end, isClass: keyword === "class" });
+  });
+
+  return { functions, classes };
+}
+
+function readDottedName(tokens: PythonToken[], start: number): { name: string; next: number } {
+  let name = "";
+  let index = start;
+  while (
+    index < tokens.length &&
+    (tokens[index].text === "." || tokens[index].text === "..." || tokens[index].kind === "name") &&
+    !(tokens[index].text === "import" && name.length > 0)
+  ) {
+    if (tokens[index].kind === "name" && name.length > 0 && !name.endsWith(".")) {
+      break;
+    }
+    name += tokens[index].text;
+    index += 1;
+  }
+  return { name, next: index };
+}
+
+function collectImports(lines: LogicalLine[]): ImportReference[] {
+  const imports: ImportReference[] = [];
+  for (const line of lines) {
+    if (!isImportLine(line)) {
+      continue;
+    }
+    const add = (specifier: string, names: string[]): void => {
+      imports.push({
+        specifier,
+        startLine: line.startLine,
+        endLine: line.endLine,
+        names,
+        reexportsAll: false,
+        typeOnly: false,
+      });
+    };
+    const tokens = line.tokens;
+    if (tokens[0].text === "import") {
+      for (const part of splitTopLevel(tokens.slice(1))) {
+        const { name } = readDottedName(part, 0);
+        if (name) {
+          add(name, [NAMESPACE_IMPORT]);
+        }
+      }
+      continue;
+    }
+
+    const { name: module, next } = readDottedName(tokens, 1);
+    const importedNames = splitTopLevel(
+      tokens.slice(next + 1).filter((token) => token.text !== "(" && token.text !== ")")
+    ).map((part) => (part[0].text === "*" ? NAMESPACE_IMPORT : part[0].text));
+    if (!module) {
+      continue;
+    }
+    const separator = module.endsWith(".") ? "" : ".";
+    for (const imported of importedNames) {
+      if (imported === NAMESPACE_IMPORT) {
+        add(module, [NAMESPACE_IMPORT]);
+      } else {
+        add(`${module}${separator}${imported}`, [imported]);
+      }
+    }
+  }
+  return imports;
+}
+
+export function parsePythonFile(content: string): ParsedFile {
+  const { lines, parseError } = readLogicalLines(content);
+  const { functions, classes } = collectBlocks(lines);
+  const physicalLines = content.split(/\r?\n/);
+  const codeLines = new Set<number>();
+  const tokens: ParsedFile["tokens"] = { shapes: [], values: [], lines: [] };
+
+  for (const line of lines) {
+    if (isDocstring(line)) {
+      continue;
+    }
+    for (const token of line.tokens) {
+      for (let lineNumber = token.line; lineNumber <= token.endLine; lineNumber += 1) {
+        codeLines.add(lineNumber);
+      }
+    }
+    if (isImportLine(line)) {
+      continue;
+    }
+    for (const token of line.tokens) {
+      tokens.shapes.push(getTokenShape(token, KEYWORDS));
+      tokens.values.push(token.text);
+      tokens.lines.push(token.line);
+    }
+  }
+
+  const lineNumbers = Array.from(codeLines).sort((a, b) => a - b);
+  return {
+    functions,
+    imports: collectImports(lines),
+    exports: [],
+    security: scanSecrets(content, "source"),
+    taint: { flows: [], exportedSinks: [], importedCalls: [] },
+    performance: [],
+    errorHandling: [],
+    style: { symbols: [], literals: [], classes },
+    tokens,
+    normalizedLines: lineNumbers.map((lineNumber) => physicalLines[lineNumber - 1].trim()),
+    lineNumbers,
+    parseError,
+  };
+}
@@ -1,23 +1,62 @@
 import fs from "node:fs";
 import path from "node:path";
-import ignore from "ignore";
-import type { CliConfig, RepoScanResult } from "../types";
+import ignore, { type Ignore } from "ignore";
+import { listChangedFiles } from "./git-client";
+import { detectEntryPoints, type ProjectFileReader } from "./entry-point-detector";
+import { CACHE_DIR_NAME } from "./analysis-cache";
+import { addLineCounts, countLines, emptyLineCounts } from "./line-counter";
+import { createFileClassifier, type FileClassifier } from "./generated-detector";
+import { mapWithConcurrency, resolveConcurrency } from "./task-pool";
+import { detectWorkspacePackages } from "./workspace-detector";
+import type {
+  ChangedFile,
+  CliConfig,
+  DetectedFramework,
+  Diagnostic,
+  FileManifestEntry,
+  LineCountSummary,
+  LineCounts,
+  RepoScanResult,
+  WorkspacePackage,
+} from "../types";
 
 const DEFAULT_MAX_FILE_SIZE_BYTES = 5 * 1024 * 1024;
 const MAX_BINARY_CHECK_BYTES = 8000;
 const MAX_IGNORED_PATHS = 50;
+const IO_CONCURRENCY_FACTOR = 4;
 const NO_EXTENSION_KEY = "<none>";
+const PARTIAL_DIAGNOSTIC_CODES = new Set<Diagnostic["code"]>([
+  "scan-timeout",
+  "unreadable-directory",
+  "stat-failed",
+]);
 
-const AUTO_IGNORE_DIRS = [".git", "node_modules", "dist", "build", ".next", "out", ".turbo"];
+const IGNORE_FILE_NAMES = [".gitignore", ".coderoastignore"];
+const AUTO_IGNORE_DIRS = [
+  ".git",
+  "node_modules",
+  "dist",
+  "build",
+  ".next",
+  "out",
+  ".turbo",
+  CACHE_DIR_NAME,
+];
 const PROJECT_FILE_NAMES = new Set([
   "package.json",
   "tsconfig.json",
+  "jsconfig.json",
+  "pnpm-workspace.yaml",
+  "nest-cli.json",
   "requirements.txt",
   "pyproject.toml",
+  "Pipfile",
+  "setup.py",
+  "setup.cfg",
   "go.mod",
+  "go.work",
+  "Cargo.toml",
 ]);
-const ENTRY_ROOT_BASE_NAMES = new Set(["app", "server"]);
-const ENTRY_SRC_BASE_NAMES = new Set(["index", "main"]);
 
 const LANGUAGE_BY_EXTENSION: Record<string, string> = {
   ".ts": "ts",
@@ -113,9 +152,30 @@ const BINARY_EXTENSIONS = new Set([
 
 type IgnoreMatcher = (relativePath: string, isDir: boolean) => boolean;
 
+type IgnoreRules = {
+  shouldIgnore: IgnoreMatcher;
+  isFilteredOut: IgnoreMatcher;
+  loadDirectory: (relativeDir: string) => Promise<void>;
+};
+
+type PendingFile = {
+  name: string;
+  fullPath: string;
+  relativePath: string;
+};
+
+type FileInspection = {
+  relativePath: string;
+  sizeBytes?: number;
+  projectFile: boolean;
+  diagnostic?: Diagnostic;
+  entry?: FileManifestEntry;
+};
+
 type ScanState = {
   languages: Record<string, number>;
   fileTypes: Record<string, number>;
+  lineCounts: Record<string, LineCounts>;
   totalFiles: number;
   totalFolders: number;
   entryPoints: Set<string>;
@@ -123,24 +183,14 @@ type ScanState = {
   ignoredCount: number;
   ignoredPaths: Set<string>;
   repoSizeBytes: number;
-  files: {
-    path: string;
-    sizeBytes: number;
-    extension: string;
-    language: string;
-  }[];
-  warnings: string[];
+  files: FileManifestEntry[];
+  diagnostics: Diagnostic[];
 };
 
 function toPosixPath(value: string): string {
   return value.split(path.sep).join("/");
 }
 
-function normalizeRelativePath(value: string): string {
-  const normalized = toPosixPath(path.normalize(value));
-  return normalized.replace(/^\.\/+/, "");
-}
-
 function increment(record: Record<string, number>, key: string): void {
   record[key] = (record[key] ?? 0) + 1;
 }
@@ -177,30 +227,84 @@ async function isBinaryFile(filePath: string, size: number): Promise<boolean> {
   }
 }
 
-async function readGitignore(rootPath: string): Promise<string[]> {
+async function readIgnoreFile(directoryPath: string, fileName: string): Promise<string[]> {
   try {
-    const content = await fs.promises.readFile(path.join(rootPath, ".gitignore"), "utf8");
+    const content = await fs.promises.readFile(path.join(directoryPath, fileName), "utf8");
     return content.split(/\r?\n/);
   } catch {
     return [];
   }
 }
 
-async function createIgnoreMatcher(rootPath: string): Promise<IgnoreMatcher> {
-  const matcher = ignore();
-  const gitignoreLines = await readGitignore(rootPath);
-  if (gitignoreLines.length > 0) {
-    matcher.add(gitignoreLines);
-  }
+function normalizeIgnoreDir(value: string): string {
+  return value.trim().replace(/\\/g, "/").replace(/^\.\/+/, "").replace(/\/+$/, "");
+}
+
+function toMatchTarget(relativePath: string, isDir: boolean): string {
+  return isDir ? `${relativePath}/` : relativePath;
+}
+
+async function createIgnoreRules(rootPath: string, config: CliConfig): Promise<IgnoreRules> {
+  const baseMatcher = ignore();
+  const ignoreDirs = [...AUTO_IGNORE_DIRS, ...(config.ignoreDirs ?? []).map(normalizeIgnoreDir)];
+  baseMatcher.add(ignoreDirs.filter((dir) => dir.length > 0).map((dir) => `${dir}/`));
 
-  matcher.add(AUTO_IGNORE_DIRS.map((dir) => `${dir}/`));
+  const excludeMatcher = config.exclude?.length ? ignore().add(config.exclude) : null;
+  const includeMatcher = config.include?.length ? ignore().add(config.include) : null;
+  const directoryMatchers = new Map<string, Ignore>();
 
-  return (relativePath: string, isDir: boolean): boolean => {
-    if (!relativePath) {
-      return false;
+  const loadDirectory = async (relativeDir: string): Promise<void> => {
+    const directoryPath = relativeDir ? path.join(rootPath, ...relativeDir.split("/")) : rootPath;
+    const lines: string[] = [];
+    for (const fileName of IGNORE_FILE_NAMES) {
+      lines.push(...(await readIgnoreFile(directoryPath, fileName)));
     }
-    const target = isDir ? `${relativePath}/` : relativePath;
-    return matcher.ignores(target);
+    if (lines.some((line) => line.trim().length > 0)) {
+      directoryMatchers.set(relativeDir, ignore().add(lines));
+    }
+  };
+
+  // Later (deeper) ignore files override earlier ones, matching git's precedence.
+  const matchesIgnoreFiles = (relativePath: string, isDir: boolean): boolean => {
+    const segments = relativePath.split("/");
+    let ignored = false;
+    for (let depth = 0; depth < segments.length; depth += 1) {
+      const matcher = directoryMatchers.get(segments.slice(0, depth).join("/"));
+      if (!matcher) {
+        continue;
+      }
+      const result = matcher.test(toMatchTarget(segments.slice(depth).join("/"), isDir));
+      if (result.ignored) {
+        ignored = true;
+      } else if (result.unignored) {
+        ignored = false;
+      }
+    }
+    return ignored;
+  };
+
+  await loadDirectory("");
+
+  return {
+    loadDirectory,
+    shouldIgnore: (relativePath: string, isDir: boolean): boolean => {
+      if (!relativePath) {
+        return false;
+      }
+      return (
+        baseMatcher.ignores(toMatchTarget(relativePath, isDir)) ||
+        matchesIgnoreFiles(relativePath, isDir)
+      );
+    },
+    isFilteredOut: (relativePath: string, isDir: boolean): boolean => {
+      if (!relativePath) {
+        return false;
+      }
+      if (excludeMatcher?.ignores(toMatchTarget(relativePath, isDir))) {
+        return true;
+      }
+      return !isDir && includeMatcher !== null && !includeMatcher.ignores(relativePath);
+    },
   };
 }
 
@@ -220,85 +324,141 @@ async function safeStat(filePath: string): Promise<fs.Stats | null> {
   }
 }
 
-function isEntryPointPath(relativePath: string): boolean {
-  const normalized = relativePath;
-  const parts = normalized.split("/");
-  const extension = path.posix.extname(normalized);
-  const baseName = path.posix.basename(normalized, extension);
-
-  if (parts.length === 2 && parts[0] === "src" && ENTRY_SRC_BASE_NAMES.has(baseName)) {
-    return true;
-  }
-
-  if (parts.length === 1 && ENTRY_ROOT_BASE_NAMES.has(baseName)) {
-    return true;
+async function readTextFile(filePath: string): Promise<string | null> {
+  try {
+    return await fs.promises.readFile(filePath, "utf8");
+  } catch {
+    return null;
   }
-
-  return false;
 }
 
-async function resolvePackageEntryPoints(
-  rootPath: string,
+async function inspectFile(
+  file: PendingFile,
   maxFileSizeBytes: number,
-  shouldIgnore: IgnoreMatcher
-): Promise<string[]> {
-  const packageRelativePath = "package.json";
-  if (shouldIgnore(packageRelativePath, false)) {
-    return [];
-  }
-
-  const packagePath = path.join(rootPath, packageRelativePath);
-  const stats = await safeStat(packagePath);
+  classifyFile: FileClassifier
+): Promise<FileInspection> {
+  const { relativePath, fullPath } = file;
+  const stats = await safeStat(fullPath);
   if (!stats || !stats.isFile()) {
-    return [];
+    return {
+      relativePath,
+      projectFile: false,
+      diagnostic: {
+        code: "stat-failed",
+        stage: "scan",
+        message: "Unable to stat file.",
+        path: relativePath,
+      },
+    };
   }
+
+  const inspection: FileInspection = {
+    relativePath,
+    sizeBytes: stats.size,
+    projectFile: PROJECT_FILE_NAMES.has(file.name),
+  };
+
   if (stats.size > maxFileSizeBytes) {
-    return [];
+    inspection.diagnostic = {
+      code: "file-too-large",
+      stage: "scan",
+      message: `Skipped: ${bytesToMB(stats.size)} MB exceeds the ${bytesToMB(
+        maxFileSizeBytes
+      )} MB limit.`,
+      path: relativePath,
+    };
+    return inspection;
   }
 
-  let packageJson: unknown;
-  try {
-    const content = await fs.promises.readFile(packagePath, "utf8");
-    packageJson = JSON.parse(content);
-  } catch {
-    return [];
+  const extension = path.extname(file.name).toLowerCase();
+  if (isBinaryExtension(extension)) {
+    return inspection;
   }
 
-  const entries: string[] = [];
-  if (packageJson && typeof packageJson === "object") {
-    const data = packageJson as Record<string, unknown>;
-    if (typeof data.main === "string") {
-      entries.push(data.main);
-    }
-    if (typeof data.bin === "string") {
-      entries.push(data.bin);
-    } else if (data.bin && typeof data.bin === "object") {
-      for (const value of Object.values(data.bin)) {
-        if (typeof value === "string") {
-          entries.push(value);
-        }
-      }
+  if (shouldCheckBinary(extension)) {
+    const binary = await isBinaryFile(fullPath, stats.size);
+    if (binary) {
+      inspection.diagnostic = {
+        code: "binary-file",
+        stage: "scan",
+        message: "Skipped: file content looks binary.",
+        path: relativePath,
+      };
+      return inspection;
     }
   }
 
-  const entryPoints: string[] = [];
-  for (const entry of entries) {
-    const normalized = normalizeRelativePath(entry);
-    if (!normalized) {
-      continue;
+  const language = LANGUAGE_BY_EXTENSION[extension] ?? "other";
+  const manifestEntry: FileManifestEntry = {
+    path: relativePath,
+    sizeBytes: stats.size,
+    extension,
+    language,
+  };
+  const content = language !== "other" ? await readTextFile(fullPath) : null;
+  if (content !== null) {
+    manifestEntry.lines = countLines(content, language);
+  }
+  const classification = classifyFile(relativePath, content);
+  if (classification) {
+    manifestEntry.classification = classification;
+  }
+  inspection.entry = manifestEntry;
+  return inspection;
+}
+
+function summarizeLineCounts(byLanguage: Record<string, LineCounts>): LineCountSummary {
+  const total = emptyLineCounts();
+  const sorted: Record<string, LineCounts> = {};
+  for (const language of Object.keys(byLanguage).sort()) {
+    sorted[language] = byLanguage[language];
+    addLineCounts(total, byLanguage[language]);
+  }
+  return { total, byLanguage: sorted };
+}
+
+function createProjectFileReader(
+  rootPath: string,
+  maxFileSizeBytes: number,
+  shouldIgnore: IgnoreMatcher
+): ProjectFileReader {
+  return async (relativePath: string): Promise<string | null> => {
+    if (shouldIgnore(relativePath, false)) {
+      return null;
     }
-    const absolute = path.resolve(rootPath, normalized);
+    const absolute = path.resolve(rootPath, ...relativePath.split("/"));
     if (!isWithinRoot(rootPath, absolute)) {
-      continue;
+      return null;
     }
-    const entryStats = await safeStat(absolute);
-    if (!entryStats || !entryStats.isFile()) {
-      continue;
+    const stats = await safeStat(absolute);
+    if (!stats || !stats.isFile() || stats.size > maxFileSizeBytes) {
+      return null;
     }
-    entryPoints.push(toPosixPath(path.relative(rootPath, absolute)));
-  }
+    try {
+      return await fs.promises.readFile(absolute, "utf8");
+    } catch {
+      return null;
+    }
+  };
+}
 
-  return entryPoints;
+async function resolveWorkspacePackages(
+  rootPath: string,
+  scanState: ScanState,
+  readFile: ProjectFileReader
+): Promise<{ packages: WorkspacePackage[]; frameworks: DetectedFramework[] }> {
+  const candidates = await detectWorkspacePackages(rootPath, Array.from(scanState.projectFiles));
+  const packages: WorkspacePackage[] = [];
+  const frameworks: DetectedFramework[] = [];
+  for (const candidate of candidates) {
+    const detection = await detectEntryPoints(
+      { rootPath, files: scanState.files, readFile },
+      candidate.path
+    );
+    packages.push({ ...candidate, entryPoints: detection.entryPoints });
+    frameworks.push(...detection.frameworks);
+  }
+  return { packages, frameworks };
 }
 
 function toSortedRecord(record: Record<string, number>): Record<string, number> {
@@ -316,6 +476,28 @@ function bytesToMB(bytes: number): number {
   return Math.round((bytes / (1024 * 1024)) * 100) / 100;
 }
 
+function resolveChangedFiles(
+  rootPath: string,
+  config: CliConfig,
+  files: FileManifestEntry[]
+): ChangedFile[] | undefined {
+  if (!config.since && !config.staged) {
+    return undefined;
+  }
+  const byPath = new Map(files.map((file) => [file.path, file]));
+  const changedFiles = listChangedFiles(rootPath, {
+    since: config.since,
+    staged: config.staged,
+  }).filter((changed) => byPath.has(changed.path));
+  for (const changed of changedFiles) {
+    const file = byPath.get(changed.path);
+    if (file) {
+      file.changed = true;
+    }
+  }
+  return changedFiles;
+}
+
 function getMaxFileSizeBytes(config: CliConfig): number {
   if (!config.maxFileSizeMB || config.maxFileSizeMB <= 0) {
     return DEFAULT_MAX_FILE_SIZE_BYTES;
@@ -326,7 +508,8 @@ function getMaxFileSizeBytes(config: CliConfig): number {
 export async function runRepoScannerAgent(config: CliConfig): Promise<RepoScanResult> {
   const rootPath = path.resolve(config.path);
   const maxFileSizeBytes = getMaxFileSizeBytes(config);
-  const shouldIgnore = await createIgnoreMatcher(rootPath);
+  const ignoreRules = await createIgnoreRules(rootPath, config);
+  const classifyFile = await createFileClassifier(rootPath);
   const deadline =
     typeof config.scanTimeoutMs === "number" && config.scanTimeoutMs > 0
       ? Date.now() + config.scanTimeoutMs
@@ -334,6 +517,7 @@ export async function runRepoScannerAgent(config: CliConfig): Promise<RepoScanRe
   const scanState: ScanState = {
     languages: {},
     fileTypes: {},
+    lineCounts: {},
     totalFiles: 0,
     totalFolders: 0,
     entryPoints: new Set<string>(),
@@ -342,9 +526,10 @@ export async function runRepoScannerAgent(config: CliConfig): Promise<RepoScanRe
     ignoredPaths: new Set<string>(),
     repoSizeBytes: 0,
     files: [],
-    warnings: [],
+    diagnostics: [],
   };
 
+  const ioConcurrency = resolveConcurrency(config) * IO_CONCURRENCY_FACTOR;
   const pending: string[] = [rootPath];
   let timedOut = false;
 
@@ -363,12 +548,22 @@ export async function runRepoScannerAgent(config: CliConfig): Promise<RepoScanRe
     try {
       directory = await fs.promises.opendir(currentPath);
     } catch {
-      scanState.warnings.push(`Unable to read directory: ${currentPath}`);
+      scanState.diagnostics.push({
+        code: "unreadable-directory",
+        stage: "scan",
+        message: "Unable to read directory.",
+        path: toPosixPath(path.relative(rootPath, currentPath)) || ".",
+      });
       continue;
     }
 
     scanState.totalFolders += 1;
+    const currentRelativeDir = toPosixPath(path.relative(rootPath, currentPath));
+    if (currentRelativeDir) {
+      await ignoreRules.loadDirectory(currentRelativeDir);
+    }
 
+    const fileEntries: PendingFile[] = [];
     for await (const entry of directory) {
       if (deadline && Date.now() > deadline) {
         timedOut = true;
@@ -383,7 +578,7 @@ export async function runRepoScannerAgent(config: CliConfig): Promise<RepoScanRe
       const relativePath = toPosixPath(path.relative(rootPath, fullPath));
       const isDir = entry.isDirectory();
 
-      if (shouldIgnore(relativePath, isDir)) {
+      if (ignoreRules.shouldIgnore(relativePath, isDir)) {
         scanState.ignoredCount += 1;
         if (isDir && scanState.ignoredPaths.size < MAX_IGNORED_PATHS) {
           scanState.ignoredPaths.add(relativePath);
@@ -391,56 +586,59 @@ export async function runRepoScannerAgent(config: CliConfig): Promise<RepoScanRe
         continue;
       }
 
-      if (isDir) {
-        pending.push(fullPath);
+      if (ignoreRules.isFilteredOut(relativePath, isDir)) {
+        scanState.ignoredCount += 1;
+        if (scanState.ignoredPaths.size < MAX_IGNORED_PATHS) {
+          scanState.ignoredPaths.add(relativePath);
+        }
         continue;
       }
 
-      if (!entry.isFile()) {
+      if (isDir) {
+        pending.push(fullPath);
         continue;
       }
 
-      const stats = await safeStat(fullPath);
-      if (!stats || !stats.isFile()) {
-        scanState.warnings.push(`Unable to stat file: ${fullPath}`);
-        continue;
+      if (entry.isFile()) {
+        fileEntries.push({ name: entry.name, fullPath, relativePath });
       }
+    }
 
-      scanState.repoSizeBytes += stats.size;
-
-      if (PROJECT_FILE_NAMES.has(entry.name)) {
-        scanState.projectFiles.add(relativePath);
+    const inspections = await mapWithConcurrency(fileEntries, ioConcurrency, (file) => {
+      if (deadline && Date.now() > deadline) {
+        timedOut = true;
+        return Promise.resolve(null);
       }
+      return inspectFile(file, maxFileSizeBytes, classifyFile);
+    });
 
-      if (isEntryPointPath(relativePath)) {
-        scanState.entryPoints.add(relativePath);
+    for (const inspection of inspections) {
+      if (!inspection) {
+        continue;
       }
-
-      if (stats.size > maxFileSizeBytes) {
+      if (inspection.diagnostic) {
+        scanState.diagnostics.push(inspection.diagnostic);
+      }
+      if (inspection.sizeBytes === undefined) {
         continue;
       }
-
-      const extension = path.extname(entry.name).toLowerCase();
-      if (isBinaryExtension(extension)) {
+      scanState.repoSizeBytes += inspection.sizeBytes;
+      if (inspection.projectFile) {
+        scanState.projectFiles.add(inspection.relativePath);
+      }
+      const manifestEntry = inspection.entry;
+      if (!manifestEntry) {
         continue;
       }
-
-      if (shouldCheckBinary(extension)) {
-        const binary = await isBinaryFile(fullPath, stats.size);
-        if (binary) {
-          continue;
-        }
+      const language = manifestEntry.language ?? "other";
+      if (manifestEntry.lines) {
+        const languageCounts = scanState.lineCounts[language] ?? emptyLineCounts();
+        addLineCounts(languageCounts, manifestEntry.lines);
+        scanState.lineCounts[language] = languageCounts;
       }
-
-      const language = LANGUAGE_BY_EXTENSION[extension] ?? "other";
-      scanState.files.push({
-        path: relativePath,
-        sizeBytes: stats.size,
-        extension,
-        language,
-      });
+      scanState.files.push(manifestEntry);
       scanState.totalFiles += 1;
-      increment(scanState.fileTypes, extension || NO_EXTENSION_KEY);
+      increment(scanState.fileTypes, manifestEntry.extension || NO_EXTENSION_KEY);
       increment(scanState.languages, language);
     }
 
@@ -449,34 +647,65 @@ export async function runRepoScannerAgent(config: CliConfig): Promise<RepoScanRe
     }
   }
 
-  const packageEntryPoints = await resolvePackageEntryPoints(
+  const readProjectFile = createProjectFileReader(
     rootPath,
     maxFileSizeBytes,
-    shouldIgnore
+    ignoreRules.shouldIgnore
   );
-  for (const entryPoint of packageEntryPoints) {
+  const rootDetection = await detectEntryPoints({
+    rootPath,
+    files: scanState.files,
+    readFile: readProjectFile,
+  });
+  const workspaces = await resolveWorkspacePackages(rootPath, scanState, readProjectFile);
+  const packages = workspaces.packages;
+  for (const entryPoint of [
+    ...rootDetection.entryPoints,
+    ...packages.flatMap((workspacePackage) => workspacePackage.entryPoints),
+  ]) {
     scanState.entryPoints.add(entryPoint);
   }
+  const frameworks = [...rootDetection.frameworks, ...workspaces.frameworks];
 
   if (timedOut) {
-    scanState.warnings.push("Scan timed out");
+    scanState.diagnostics.push({
+      code: "scan-timeout",
+      stage: "scan",
+      message: `Scan timed out after ${config.scanTimeoutMs} ms; remaining folders were not read.`,
+    });
   }
 
+  const changedFiles = resolveChangedFiles(rootPath, config, scanState.files);
+
   const result: RepoScanResult = {
     languages: toSortedRecord(scanState.languages),
     fileTypes: toSortedRecord(scanState.fileTypes),
+    lineCounts: summarizeLineCounts(scanState.lineCounts),
     totalFiles: scanState.totalFiles,
     totalFolders: scanState.totalFolders,
     entryPoints: Array.from(scanState.entryPoints).sort(),
+    frameworks,
     projectFiles: Array.from(scanState.projectFiles).sort(),
     ignoredCount: scanState.ignoredCount,
     repoSizeMB: bytesToMB(scanState.repoSizeBytes),
     files: scanState.files.sort((a, b) => a.path.localeCompare(b.path)),
+    diagnostics: scanState.diagnostics,
+    partial: scanState.diagnostics.some((diagnostic) =>
+      PARTIAL_DIAGNOSTIC_CODES.has(diagnostic.code)
+    ),
   };
 
   if (scanState.ignoredPaths.size > 0) {
     result.ignoredPaths = Array.from(scanState.ignoredPaths).sort();
   }
 
+  if (changedFiles) {
+    result.changedFiles = changedFiles;
+  }
+
+  if (packages.length > 0) {
+    result.packages = packages;
+  }
+
   return result;
 }
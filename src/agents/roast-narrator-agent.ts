@@ -3,6 +3,7 @@ import type {
   CliConfig,
   EvidenceItem,
   EvidenceMetric,
+  Focus,
   GuardedInsights,
   GuardedIssue,
   RoastResult,
@@ -25,18 +26,42 @@ function formatEvidenceExample(item: EvidenceItem): string {
   return `${item.file} lines ${item.startLine}-${item.endLine}${locText}`;
 }
 
-function buildLongFunctionMessage(issue: GuardedIssue): string {
-  const example = issue.evidence[0];
-  if (!example) {
-    return "Long functions detected, but the evidence list is empty.";
-  }
-  const extraCount = issue.evidence.length - 1;
-  const extraText = extraCount > 0 ? ` (+${extraCount} more)` : "";
-  return `Very long functions can be hard to maintain, for example ${formatEvidenceExample(
+type IssueMessageBuilder = (issue: GuardedIssue) => string;
+
+function describeFirstExample(
+  emptyText: string,
+  describe: (example: EvidenceItem) => string
+): IssueMessageBuilder {
+  return (issue) => {
+    const example = issue.evidence[0];
+    if (!example) {
+      return emptyText;
+    }
+    const extraCount = issue.evidence.length - 1;
+    const extraText = extraCount > 0 ? ` (+${extraCount} more)` : "";
+    return `${describe(example)}${extraText}.`;
+  };
+}
+
+function describeComplexity(example: EvidenceItem): string {
+  const cyclomatic = getMetricValue(example.metrics, "cyclomatic");
+  const cognitive = getMetricValue(example.metrics, "cognitive");
+  const scores = [
+    typeof cyclomatic === "number" ? `${cyclomatic} independent paths` : null,
+    typeof cognitive === "number" ? `a cognitive complexity of ${cognitive}` : null,
+  ].filter(Boolean);
+  const scoreText = scores.length > 0 ? ` with ${scores.join(" and ")}` : "";
+  return `Some functions branch so much they are hard to follow, for example ${formatEvidenceExample(
     example
-  )}${extraText}.`;
+  )}${scoreText}`;
 }
 
+function describeNesting(example: EvidenceItem): string {
+  const nesting = getMetricValue(example.metrics, "nesting");
+  const depthText =
+    typeof nesting === "number" ? ` nests ${nesting} levels deep` : " is deeply nested";
+  return `Code in ${formatEvidenceExample(example)}${depthText}`;
+}
 function buildDuplicateMessage(issue: GuardedIssue): string {
   const byHash = new Map<
     string,
@@ -83,84 +108,436 @@ function buildDuplicateMessage(issue: GuardedIssue): string {
   if (!example) {
     return `Repeated code${locText} appears in multiple places${countText}.`;
   }
-  return `Repeated code${locText} appears in multiple places${countText}, for example ${formatEvidenceExample(
+  const similarity = getMetricValue(example.metrics, "similarity");
+  const renamedText =
+    typeof similarity === "number" && similarity < 100 ? " with only names changed" : "";
+  return `Repeated code${locText} appears in multiple places${renamedText}${countText}, for example ${formatEvidenceExample(
     example
   )}.`;
 }
 
+function buildNearDuplicateMessage(issue: GuardedIssue): string {
+  const [first, ...rest] = issue.evidence;
+  if (!first) {
+    return "Near-duplicate functions detected, but the evidence list is empty.";
+  }
+  const similarity = getMetricValue(first.metrics, "similarity");
+  const similarityText = typeof similarity === "number" ? ` ${similarity}%` : "";
+  const hash = getMetricValue(first.metrics, "hash");
+  const copy = rest.find((item) => getMetricValue(item.metrics, "hash") === hash);
+  const copyText = copy ? ` and ${copy.file} lines ${copy.startLine}-${copy.endLine}` : "";
+  return `The functions at ${formatEvidenceExample(first)}${copyText} are${similarityText} alike, so every fix has to be made twice.`;
+}
+
 function buildCircularMessage(issue: GuardedIssue): string {
-  const unique = Array.from(
-    new Map(issue.evidence.map((item) => [item.file, item])).values()
-  );
-  if (unique.length === 0) {
+  const first = issue.evidence[0];
+  if (!first) {
     return "Possible circular dependency detected, but the evidence list is empty.";
   }
-  const examples = unique.slice(0, 2).map(formatEvidenceExample);
-  if (examples.length === 1) {
-    return `Possible circular dependency involving ${examples[0]}.`;
+  const hopCount = getMetricValue(first.metrics, "count");
+  const hops = issue.evidence.slice(0, typeof hopCount === "number" ? hopCount : 1);
+  const size = getMetricValue(first.metrics, "cycleSize");
+  const chain = [...hops.map((item) => item.file), first.file].join(" -> ");
+  let remaining = issue.evidence.length - hops.length;
+  let extraCycles = 0;
+  while (remaining > 0) {
+    const next = issue.evidence[issue.evidence.length - remaining];
+    const count = getMetricValue(next.metrics, "count");
+    remaining -= typeof count === "number" && count > 0 ? count : 1;
+    extraCycles += 1;
   }
-  return `Possible circular dependency between ${examples[0]} and ${examples[1]}.`;
+  const sizeText = typeof size === "number" ? ` across ${size} files` : "";
+  const extraText = extraCycles > 0 ? ` (+${extraCycles} more)` : "";
+  return `Files import each other in a loop${sizeText}: ${chain}${extraText}.`;
 }
 
+function describeUnusedExport(example: EvidenceItem): string {
+  const symbol = getMetricValue(example.metrics, "symbol");
+  const symbolText = symbol !== undefined ? `"${symbol}" in ` : "";
+  return `Exported code is never imported anywhere, for example ${symbolText}${formatEvidenceExample(
+    example
+  )}`;
+}
+
+const TYPE_ISSUE_LABELS: Record<string, string> = {
+  explicitAny: "an explicit any",
+  implicitAny: "an untyped parameter",
+  anyCast: "an as-any cast",
+  doubleCast: "an as-unknown-as cast",
+  nonNullAssertion: "a non-null assertion",
+  tsSuppression: "a @ts-ignore comment",
+};
+
+function describeUnsafeTypes(example: EvidenceItem): string {
+  const kind = getMetricValue(example.metrics, "typeIssue");
+  const label = TYPE_ISSUE_LABELS[String(kind)] ?? "a type-check bypass";
+  return `The type checker is switched off in places, for example ${label} in ${formatEvidenceExample(
+    example
+  )}`;
+}
+
+function describeTypeCoverage(example: EvidenceItem): string {
+  const coverage = getMetricValue(example.metrics, "typeCoverage");
+  const coverageText = typeof coverage === "number" ? `only ${coverage}% of` : "few of";
+  return `In ${example.file}, ${coverageText} the values have a known type`;
+}
+
+const SECURITY_LEADS: Record<string, string> = {
+  hardcodedSecret: "A credential looks hardcoded in the source",
+  shellInjection: "A shell command is built from a string that can change",
+  dynamicCode: "Code is run from a string at runtime",
+  insecureTls: "HTTPS certificate checks are switched off",
+  weakCrypto: "A weak hash or non-random value guards something sensitive",
+};
+
+const PERFORMANCE_LEADS: Record<string, string> = {
+  awaitInLoop: "Async calls wait for each other one at a time inside a loop",
+  syncIoInAsync: "Blocking file or process calls run inside async code",
+  jsonClone: "Objects are deep-copied by turning them into JSON and back",
+  regexInLoop: "The same regular expression is rebuilt on every loop pass",
+  nestedIncludes: "A list is searched from start to end inside a loop",
+  unboundedPromiseAll: "Every item in a list is started at once with no limit",
+};
+
+const ERROR_HANDLING_LEADS: Record<string, string> = {
+  emptyCatch: "Errors are caught and then silently dropped",
+  swallowedRejection: "Failed promises are caught and thrown away",
+  throwLiteral: "Code throws plain values instead of Error objects, so there is no stack trace",
+  floatingPromise: "Promises are started but never awaited, so their failures go unnoticed",
+  lostError: "A new error is thrown without the original one, hiding the real cause",
+  discardedError: "Errors are caught without looking at what went wrong",
+};
+
+function buildRuleMessage(lead: string, emptyText: string): IssueMessageBuilder {
+  return describeFirstExample(emptyText, (example) => {
+    const rule = getMetricValue(example.metrics, "rule");
+    const ruleText = rule !== undefined ? ` (${rule})` : "";
+    return `${lead}${ruleText}: ${formatEvidenceExample(example)}`;
+  });
+}
+
+function buildStyleMessage(
+  describe: (rule: string, count: EvidenceMetric["value"] | undefined, where: string) => string
+): IssueMessageBuilder {
+  return describeFirstExample(
+    "Style inconsistencies detected, but the evidence list is empty.",
+    (example) =>
+      describe(
+        String(getMetricValue(example.metrics, "rule") ?? ""),
+        getMetricValue(example.metrics, "count"),
+        formatEvidenceExample(example)
+      )
+  );
+}
+
+function buildTaintFlowMessage(issue: GuardedIssue): string {
+  const count = getMetricValue(issue.evidence[0]?.metrics ?? [], "count");
+  const steps = issue.evidence.slice(0, typeof count === "number" ? count : 1);
+  const source = steps[0];
+  const sink = steps[steps.length - 1];
+  if (!source || !sink) {
+    return "Untrusted input reaches a dangerous call, but the evidence list is empty.";
+  }
+  const hops = steps.map((step) => `${step.file}:${step.startLine}`).join(" → ");
+  const flowCount = issue.evidence.filter(
+    (item) => getMetricValue(item.metrics, "flowStep") === "source"
+  ).length;
+  const extraText = flowCount > 1 ? ` (+${flowCount - 1} more)` : "";
+  return `Input from ${getMetricValue(source.metrics, "symbol")} reaches ${getMetricValue(
+    sink.metrics,
+    "symbol"
+  )} without being checked: ${hops}${extraText}.`;
+}
+
+function buildLeadMessages(
+  leads: Record<string, string>,
+  emptyText: string
+): Record<string, IssueMessageBuilder> {
+  return Object.fromEntries(
+    Object.entries(leads).map(([signal, lead]) => [signal, buildRuleMessage(lead, emptyText)])
+  );
+}
+
+const ISSUE_MESSAGES: Record<string, IssueMessageBuilder> = {
+  taintedFlows: buildTaintFlowMessage,
+  ...buildLeadMessages(SECURITY_LEADS, "Security risk detected, but the evidence list is empty."),
+  ...buildLeadMessages(
+    PERFORMANCE_LEADS,
+    "Performance risk detected, but the evidence list is empty."
+  ),
+  ...buildLeadMessages(
+    ERROR_HANDLING_LEADS,
+    "Error-handling problem detected, but the evidence list is empty."
+  ),
+  namingConvention: buildStyleMessage(
+    (rule, _count, where) => `Names don't follow one convention: ${rule} in ${where}`
+  ),
+  magicLiteral: buildStyleMessage(
+    (rule, count, where) =>
+      `The same bare value ${rule} is repeated in ${count} files, for example ${where}`
+  ),
+  longParameterList: buildStyleMessage(
+    (rule, count, where) =>
+      `${rule}() takes ${count} parameters, which makes calls hard to read: ${where}`
+  ),
+  flagParameter: buildStyleMessage(
+    (rule, _count, where) => `A true/false parameter switches what ${rule} does: ${where}`
+  ),
+  largeFile: buildStyleMessage((_rule, _count, where) => `This file is very large: ${where}`),
+  largeClass: buildStyleMessage(
+    (rule, count, where) => `Class ${rule} has ${count} members: ${where}`
+  ),
+  longFunctions: describeFirstExample(
+    "Long functions detected, but the evidence list is empty.",
+    (example) =>
+      `Very long functions can be hard to maintain, for example ${formatEvidenceExample(example)}`
+  ),
+  highComplexity: describeFirstExample(
+    "Complex functions detected, but the evidence list is empty.",
+    describeComplexity
+  ),
+  deepNesting: describeFirstExample(
+    "Deeply nested code detected, but the evidence list is empty.",
+    describeNesting
+  ),
+  duplicateBlocks: buildDuplicateMessage,
+  nearDuplicateFunctions: buildNearDuplicateMessage,
+  circularDependencies: buildCircularMessage,
+  orphanModules: describeFirstExample(
+    "Unused modules detected, but the evidence list is empty.",
+    (example) =>
+      `Nothing reachable from an entry point or test imports ${formatEvidenceExample(example)}`
+  ),
+  unusedExports: describeFirstExample(
+    "Unused exports detected, but the evidence list is empty.",
+    describeUnusedExport
+  ),
+  unsafeTypes: describeFirstExample(
+    "Type checks are bypassed, but the evidence list is empty.",
+    describeUnsafeTypes
+  ),
+  typeCoverage: describeFirstExample(
+    "Type coverage is low, but the evidence list is empty.",
+    describeTypeCoverage
+  ),
+  testPresence: () => "not enough data",
+  packageTestPresence: describeFirstExample(
+    "Some workspace packages have no tests, but the evidence list is empty.",
+    (example) => `Workspace package ${example.file} has no tests of its own`
+  ),
+};
+
 function buildLaymanMessage(issue: GuardedIssue): string {
   if (!issue.evidenceComplete) {
     return "not enough data";
   }
-  switch (issue.signal) {
-    case "longFunctions":
-      return buildLongFunctionMessage(issue);
-    case "duplicateBlocks":
-      return buildDuplicateMessage(issue);
-    case "circularDependencies":
-      return buildCircularMessage(issue);
-    case "testPresence":
-      return "not enough data";
-    default: {
-      const example = issue.evidence[0];
-      if (!example) {
-        return "Issue detected, but the evidence list is empty.";
-      }
-      return `Potential issue spotted around ${formatEvidenceExample(example)}.`;
-    }
+  const buildMessage = ISSUE_MESSAGES[issue.signal];
+  if (buildMessage) {
+    return buildMessage(issue);
   }
+  const example = issue.evidence[0];
+  if (!example) {
+    return "Issue detected, but the evidence list is empty.";
+  }
+  return `Potential issue spotted around ${formatEvidenceExample(example)}.`;
+}
+
+type ActionTemplate = {
+  general: string;
+  specific?: string;
+};
+
+const DEFAULT_ACTION: ActionTemplate = {
+  general: "Create a focused refactor for the flagged area.",
+  specific: "Review {file} lines {start}-{end} for a focused refactor.",
+};
+
+const ACTION_ITEMS: Record<string, ActionTemplate> = {
+  taintedFlows: {
+    general: "Validate or escape untrusted input before it reaches shell, eval, file or SQL calls.",
+    specific:
+      "Validate or escape the input before it reaches {file} line {start}, or pass it as a separate argument or query parameter.",
+  },
+  hardcodedSecret: {
+    general: "Move hardcoded credentials into environment variables or a secret manager.",
+    specific:
+      "Rotate the credential in {file} line {start} and load it from the environment or a secret manager.",
+  },
+  shellInjection: {
+    general:
+      "Pass command arguments as an array with execFile or spawn instead of building shell strings.",
+    specific:
+      "Replace the shell string in {file} lines {start}-{end} with execFile or spawn and an argument array.",
+  },
+  dynamicCode: {
+    general: "Replace eval and new Function with explicit parsing or a lookup table.",
+    specific:
+      "Remove the eval-style call in {file} lines {start}-{end}; parse the input or use a lookup table instead.",
+  },
+  insecureTls: {
+    general: "Turn certificate verification back on and trust the right CA instead.",
+    specific:
+      "Turn certificate verification back on in {file} lines {start}-{end}; add the CA certificate if a private one is needed.",
+  },
+  weakCrypto: {
+    general: "Use sha256 or crypto.randomBytes instead of md5, sha1 or Math.random.",
+    specific: "Switch {file} lines {start}-{end} to sha256 or crypto.randomBytes.",
+  },
+  awaitInLoop: {
+    general: "Start independent async calls together and await them with Promise.all.",
+    specific:
+      "Collect the calls in {file} lines {start}-{end} and await them together with Promise.all if they don't depend on each other.",
+  },
+  syncIoInAsync: {
+    general: "Use the promise-based fs and child_process APIs inside async code.",
+    specific: "Replace the blocking call in {file} line {start} with its promise-based version.",
+  },
+  jsonClone: {
+    general: "Use structuredClone instead of JSON.parse(JSON.stringify()).",
+    specific: "Use structuredClone in {file} line {start}, or copy only the fields that change.",
+  },
+  regexInLoop: {
+    general: "Build regular expressions once, outside the loop.",
+    specific: "Move the RegExp in {file} line {start} into a constant outside the loop.",
+  },
+  nestedIncludes: {
+    general: "Put the searched values in a Set before the loop.",
+    specific:
+      "Build a Set before the loop and use has() instead of the lookup in {file} line {start}.",
+  },
+  unboundedPromiseAll: {
+    general: "Process large lists in batches or with a concurrency limit.",
+    specific:
+      "Limit how many calls run at once in {file} line {start}, for example by processing the list in batches.",
+  },
+  emptyCatch: {
+    general: "Log, handle or rethrow errors instead of leaving catch blocks empty.",
+    specific:
+      "Log, handle or rethrow the error caught in {file} line {start} instead of dropping it.",
+  },
+  swallowedRejection: {
+    general: "Handle or log promise rejections instead of discarding them in .catch().",
+    specific:
+      "Log or handle the rejection in {file} line {start}, or let it reach a caller that can.",
+  },
+  throwLiteral: {
+    general: "Throw Error objects instead of strings or plain objects.",
+    specific:
+      "Wrap the value thrown in {file} line {start} in new Error() so it carries a stack trace.",
+  },
+  floatingPromise: {
+    general: "Await or return promises, or mark intentional fire-and-forget calls with void.",
+    specific: "Await or return the promise in {file} line {start}, or attach a .catch() handler.",
+  },
+  lostError: {
+    general: "Pass the caught error as the cause when throwing a new one.",
+    specific: "Pass the caught error as { cause } when rethrowing in {file} line {start}.",
+  },
+  discardedError: {
+    general: "Check which error was caught before falling back to a default.",
+    specific:
+      "Check the error caught in {file} line {start} and only fall back for the failures you expect.",
+  },
+  namingConvention: {
+    general: "Rename symbols to match the convention the rest of the code uses.",
+    specific: "Rename the symbol in {file} line {start} to match the convention used elsewhere.",
+  },
+  magicLiteral: {
+    general: "Move values repeated across files into a shared named constant.",
+    specific: "Move the value used in {file} line {start} into a shared named constant.",
+  },
+  longParameterList: {
+    general: "Group related parameters into an options object.",
+    specific:
+      "Group the parameters of the function in {file} lines {start}-{end} into an options object.",
+  },
+  flagParameter: {
+    general: "Split functions that take a boolean flag into two clearly named functions.",
+    specific:
+      "Split the function in {file} lines {start}-{end} into two named functions instead of passing a flag.",
+  },
+  largeFile: {
+    general: "Split oversized files into smaller modules.",
+    specific: "Split {file} into smaller modules grouped by responsibility.",
+  },
+  largeClass: {
+    general: "Move groups of related members out of large classes.",
+    specific:
+      "Move groups of related members in {file} lines {start}-{end} into their own classes or helpers.",
+  },
+  longFunctions: {
+    general: "Split long functions into smaller helpers.",
+    specific: "Split {file} around lines {start}-{end} into smaller helpers.",
+  },
+  highComplexity: {
+    general: "Simplify branch-heavy functions by extracting conditions into named helpers.",
+    specific:
+      "Simplify the branching in {file} lines {start}-{end} by extracting conditions into named helpers.",
+  },
+  deepNesting: {
+    general: "Flatten deeply nested code with early returns.",
+    specific: "Flatten {file} lines {start}-{end} with early returns.",
+  },
+  duplicateBlocks: {
+    general: "Extract repeated logic into a shared helper.",
+    specific: "Extract repeated logic around {file} lines {start}-{end} into a shared helper.",
+  },
+  nearDuplicateFunctions: {
+    general: "Merge near-duplicate functions into one that takes the differences as parameters.",
+    specific:
+      "Merge the function at {file} lines {start}-{end} with its near-duplicates, passing the differences as parameters.",
+  },
+  circularDependencies: {
+    general: "Break circular dependencies by moving shared code into a lower-level module.",
+    specific:
+      "Break the dependency loop at {file} (lines {start}-{end}) by moving the shared code into a lower-level module.",
+  },
+  orphanModules: {
+    general: "Delete modules that nothing imports, or wire them into an entry point.",
+    specific: "Delete {file} if it is no longer needed, or import it from an entry point.",
+  },
+  unusedExports: {
+    general: "Remove exports that nothing imports.",
+    specific: "Remove or un-export the unused code in {file} lines {start}-{end}.",
+  },
+  unsafeTypes: {
+    general: "Replace any, casts and non-null assertions with real types.",
+    specific:
+      "Replace the type bypass in {file} lines {start}-{end} with a real type or a runtime check.",
+  },
+  typeCoverage: {
+    general: "Add type annotations to the files with the lowest type coverage.",
+    specific: "Add type annotations in {file} so its values stop falling back to any.",
+  },
+  testPresence: {
+    general: "Add at least one test file to cover critical paths.",
+  },
+  packageTestPresence: {
+    general: "Add tests to the workspace packages that have none.",
+    specific: "Add tests next to {file} so the package is covered on its own.",
+  },
+};
+
+function findTaintSink(issue: GuardedIssue): EvidenceItem | undefined {
+  const count = getMetricValue(issue.evidence[0]?.metrics ?? [], "count");
+  return typeof count === "number" ? issue.evidence[count - 1] : undefined;
 }
 
 function buildActionItem(issue: GuardedIssue): string | null {
+  const template = ACTION_ITEMS[issue.signal] ?? DEFAULT_ACTION;
   if (!issue.evidenceComplete) {
-    if (issue.signal === "testPresence") {
-      return "Add at least one test file to cover critical paths.";
-    }
-    return null;
+    return issue.signal === "testPresence" ? template.general : null;
   }
-
-  const example = issue.evidence[0];
-  switch (issue.signal) {
-    case "longFunctions": {
-      if (!example) {
-        return "Split long functions into smaller helpers.";
-      }
-      return `Split ${example.file} around lines ${example.startLine}-${example.endLine} into smaller helpers.`;
-    }
-    case "duplicateBlocks": {
-      if (!example) {
-        return "Extract repeated logic into a shared helper.";
-      }
-      return `Extract repeated logic around ${example.file} lines ${example.startLine}-${example.endLine} into a shared helper.`;
-    }
-    case "circularDependencies": {
-      if (!example) {
-        return "Break circular dependencies by moving shared code into a lower-level module.";
-      }
-      return `Break the dependency loop involving ${example.file} (lines ${example.startLine}-${example.endLine}).`;
-    }
-    case "testPresence":
-      return "Add at least one test file to cover critical paths.";
-    default:
-      if (!example) {
-        return "Create a focused refactor for the flagged area.";
-      }
-      return `Review ${example.file} lines ${example.startLine}-${example.endLine} for a focused refactor.`;
+  const example = issue.signal === "taintedFlows" ? findTaintSink(issue) : issue.evidence[0];
+  if (!example || !template.specific) {
+    return template.general;
   }
+  const values: Record<string, string | number> = {
+    file: example.file,
+    start: example.startLine,
+    end: example.endLine,
+  };
+  return template.specific.replace(/\{(\w+)\}/g, (_match, key: string) => String(values[key]));
 }
 
 function formatEvidenceList(issue: GuardedIssue, limit?: number): string {
@@ -245,18 +622,35 @@ function normalizeGeminiText(value: string): string {
   return value.replace(/\s+/g, " ").trim();
 }
 
+const FOCUS_ISSUE_TYPES: Record<Focus, string[]> = {
+  architecture: ["architecture", "deadCode", "duplication"],
+  performance: ["performance"],
+  style: ["style"],
+  security: ["security"],
+  general: [],
+};
+
+function prioritizeByFocus(issues: GuardedIssue[], focus: Focus): GuardedIssue[] {
+  const focused = new Set(FOCUS_ISSUE_TYPES[focus] ?? []);
+  return [
+    ...issues.filter((issue) => focused.has(issue.type)),
+    ...issues.filter((issue) => !focused.has(issue.type)),
+  ];
+}
+
 export async function runRoastNarratorAgent(
   config: CliConfig,
   insights: GuardedInsights
 ): Promise<RoastResult> {
-  if (insights.issues.length === 0) {
+  const issues = prioritizeByFocus(insights.issues, config.focus);
+  if (issues.length === 0) {
     return {
       content: `No issues detected for ${config.focus}. Add analyzers to produce evidence-bound findings.`,
       usedGemini: false,
     };
   }
 
-  const fallbackLines = insights.issues.map((issue, index) =>
+  const fallbackLines = issues.map((issue, index) =>
     formatIssueLine(
       index,
       issue,
@@ -266,7 +660,7 @@ export async function runRoastNarratorAgent(
     )
   );
 
-  const actionItems = insights.issues
+  const actionItems = issues
     .map(buildActionItem)
     .filter((item): item is string => Boolean(item));
 
@@ -280,7 +674,7 @@ export async function runRoastNarratorAgent(
   }
 
   const model = process.env.GEMINI_MODEL ?? "gemini-2.5-flash";
-  const issuesWithId: NarrationIssue[] = insights.issues.map((issue, index) => ({
+  const issuesWithId: NarrationIssue[] = issues.map((issue, index) => ({
     ...issue,
     id: index + 1,
   }));
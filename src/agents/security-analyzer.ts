@@ -0,0 +1,368 @@
+import ts from "typescript";
+import type { Confidence, SecurityFinding, SecurityFindingKind } from "../types";
+
+export type SecurityFindingSpan = Omit<SecurityFinding, "file">;
+
+export const CHILD_PROCESS_MODULES = new Set(["child_process", "node:child_process"]);
+export const FS_MODULES = new Set(["fs", "node:fs", "fs/promises", "node:fs/promises"]);
+export const SHELL_FUNCTIONS = new Set(["exec", "execSync"]);
+const WEAK_HASHES = new Set(["md4", "md5", "sha1", "ripemd160"]);
+const TOKEN_NAME_PATTERN = /token|secret|passw|nonce|salt|session|otp|api_?key|csrf/i;
+const SECRET_NAME_PATTERN =
+  /secret|token|passw(?:or)?d|pwd|credential|(?:api|access|private|auth)[_-]?key/i;
+const SECRET_ASSIGNMENT_PATTERN =
+  /([A-Za-z_$][\w$.-]*)["']?\s*[:=]\s*(["'`])([^"'`\s]{16,})\2/g;
+const ENV_ASSIGNMENT_PATTERN = /^\s*(?:export\s+)?([A-Za-z_][\w.-]*)\s*=\s*["']?([^"'\s#]+)/;
+const PLACEHOLDER_PATTERN =
+  /^(?:x+|\*+|<.*>|\$\{.*\})$|changeme|example|placeholder|your[_-]|dummy|redacted/i;
+const MIN_SECRET_ENTROPY = 3.5;
+const PROVIDER_PATTERNS: { rule: string; pattern: RegExp }[] = [
+  { rule: "AWS access key ID", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { rule: "GitHub token", pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/ },
+  { rule: "Slack token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/ },
+  { rule: "Stripe live key", pattern: /\b[rs]k_live_[0-9A-Za-z]{24,}\b/ },
+  { rule: "Google API key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { rule: "private key", pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----/ },
+];
+
+function getLineRange(
+  node: ts.Node,
+  sourceFile: ts.SourceFile
+): { startLine: number; endLine: number } {
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+  return { startLine: start.line + 1, endLine: end.line + 1 };
+}
+
+function getPropertyName(name: ts.PropertyName | ts.MemberName): string | undefined {
+  return ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isPrivateIdentifier(name)
+    ? name.text
+    : undefined;
+}
+
+export type ImportBindings = {
+  named: Map<string, { specifier: string; name: string }>;
+  namespaces: Map<string, string>;
+};
+
+function getRequiredModule(node: ts.Expression | undefined): string | undefined {
+  return node &&
+    ts.isCallExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === "require" &&
+    node.arguments.length === 1 &&
+    ts.isStringLiteral(node.arguments[0])
+    ? node.arguments[0].text
+    : undefined;
+}
+
+export function collectImportBindings(sourceFile: ts.SourceFile): ImportBindings {
+  const bindings: ImportBindings = { named: new Map(), namespaces: new Map() };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      const specifier = node.moduleSpecifier.text;
+      const clause = node.importClause;
+      if (clause?.name) {
+        bindings.named.set(clause.name.text, { specifier, name: "default" });
+      }
+      const namedBindings = clause?.namedBindings;
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        bindings.namespaces.set(namedBindings.name.text, specifier);
+      } else if (namedBindings) {
+        for (const element of namedBindings.elements) {
+          bindings.named.set(element.name.text, {
+            specifier,
+            name: (element.propertyName ?? element.name).text,
+          });
+        }
+      }
+    } else if (ts.isVariableDeclaration(node)) {
+      const specifier = getRequiredModule(node.initializer);
+      if (specifier && ts.isIdentifier(node.name)) {
+        bindings.namespaces.set(node.name.text, specifier);
+      } else if (specifier && ts.isObjectBindingPattern(node.name)) {
+        for (const element of node.name.elements) {
+          if (ts.isIdentifier(element.name)) {
+            const imported = element.propertyName && getPropertyName(element.propertyName);
+            bindings.named.set(element.name.text, {
+              specifier,
+              name: imported || element.name.text,
+            });
+          }
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return bindings;
+}
+
+export function resolveModuleFunction(
+  callee: ts.Expression,
+  bindings: ImportBindings,
+  modules: Set<string>
+): string | undefined {
+  if (ts.isIdentifier(callee)) {
+    const binding = bindings.named.get(callee.text);
+    return binding && binding.name !== "default" && modules.has(binding.specifier)
+      ? binding.name
+      : undefined;
+  }
+  if (!ts.isPropertyAccessExpression(callee)) {
+    return undefined;
+  }
+  let object = callee.expression;
+  if (ts.isPropertyAccessExpression(object) && object.name.text === "promises") {
+    object = object.expression;
+  }
+  if (!ts.isIdentifier(object)) {
+    return undefined;
+  }
+  const binding = bindings.named.get(object.text);
+  const specifier =
+    bindings.namespaces.get(object.text) ??
+    (binding && (binding.name === "default" || binding.name === "promises")
+      ? binding.specifier
+      : undefined);
+  return specifier && modules.has(specifier) ? callee.name.text : undefined;
+}
+
+function getCalleeName(expression: ts.Expression): string | undefined {
+  if (ts.isIdentifier(expression)) {
+    return expression.text;
+  }
+  if (ts.isPropertyAccessExpression(expression)) {
+    return expression.name.text;
+  }
+  return undefined;
+}
+
+function isInterpolated(node: ts.Expression): boolean {
+  return (
+    ts.isTemplateExpression(node) ||
+    (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken)
+  );
+}
+
+function isConstantString(node: ts.Expression, constants: Set<string>): boolean {
+  if (ts.isParenthesizedExpression(node)) {
+    return isConstantString(node.expression, constants);
+  }
+  if (ts.isStringLiteralLike(node)) {
+    return true;
+  }
+  if (ts.isIdentifier(node)) {
+    return constants.has(node.text);
+  }
+  if (ts.isTemplateExpression(node)) {
+    return node.templateSpans.every((span) => isConstantString(span.expression, constants));
+  }
+  return (
+    ts.isBinaryExpression(node) &&
+    node.operatorToken.kind === ts.SyntaxKind.PlusToken &&
+    isConstantString(node.left, constants) &&
+    isConstantString(node.right, constants)
+  );
+}
+
+function collectConstantStrings(sourceFile: ts.SourceFile): Set<string> {
+  const constants = new Set<string>();
+  const shadowed = new Set<string>();
+
+  const visit = (node: ts.Node): void => {
+    if ((ts.isVariableDeclaration(node) || ts.isParameter(node)) && ts.isIdentifier(node.name)) {
+      const isConst =
+        ts.isVariableDeclaration(node) &&
+        ts.isVariableDeclarationList(node.parent) &&
+        (node.parent.flags & ts.NodeFlags.Const) !== 0;
+      if (isConst && node.initializer && isConstantString(node.initializer, constants)) {
+        constants.add(node.name.text);
+      } else {
+        shadowed.add(node.name.text);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  for (const name of shadowed) {
+    constants.delete(name);
+  }
+  return constants;
+}
+
+function getEnclosingName(node: ts.Node): string | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if (
+      (ts.isVariableDeclaration(current) ||
+        ts.isPropertyAssignment(current) ||
+        ts.isPropertyDeclaration(current) ||
+        ts.isFunctionDeclaration(current) ||
+        ts.isMethodDeclaration(current)) &&
+      current.name
+    ) {
+      return getPropertyName(current.name as ts.PropertyName);
+    }
+    if (
+      ts.isBinaryExpression(current) &&
+      current.operatorToken.kind === ts.SyntaxKind.EqualsToken
+    ) {
+      const target = current.left;
+      if (ts.isIdentifier(target)) {
+        return target.text;
+      }
+      if (ts.isPropertyAccessExpression(target)) {
+        return target.name.text;
+      }
+    }
+  }
+  return undefined;
+}
+
+function isFalseLiteral(node: ts.Expression): boolean {
+  return node.kind === ts.SyntaxKind.FalseKeyword;
+}
+
+export function collectSecurityFindings(sourceFile: ts.SourceFile): SecurityFindingSpan[] {
+  const findings: SecurityFindingSpan[] = [];
+  const bindings = collectImportBindings(sourceFile);
+  const constants = collectConstantStrings(sourceFile);
+
+  const add = (
+    kind: SecurityFindingKind,
+    rule: string,
+    confidence: Confidence,
+    node: ts.Node
+  ): void => {
+    findings.push({ kind, rule, confidence, ...getLineRange(node, sourceFile) });
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+      const callee = node.expression;
+      const name = getCalleeName(callee);
+      const firstArg = node.arguments?.[0];
+
+      if (ts.isCallExpression(node) && ts.isIdentifier(callee) && callee.text === "eval") {
+        add("dynamicCode", "eval", "high", node);
+      } else if (ts.isIdentifier(callee) && callee.text === "Function") {
+        add("dynamicCode", "new Function", "high", node);
+      }
+
+      const shellFunction = resolveModuleFunction(callee, bindings, CHILD_PROCESS_MODULES);
+      if (
+        shellFunction &&
+        SHELL_FUNCTIONS.has(shellFunction) &&
+        firstArg &&
+        !isConstantString(firstArg, constants)
+      ) {
+        if (isInterpolated(firstArg)) {
+          add("shellInjection", shellFunction, "high", node);
+        } else {
+          add("shellInjection", shellFunction, "low", node);
+        }
+      }
+
+      if (
+        name === "createHash" &&
+        firstArg &&
+        ts.isStringLiteralLike(firstArg) &&
+        WEAK_HASHES.has(firstArg.text.toLowerCase())
+      ) {
+        add("weakCrypto", firstArg.text.toLowerCase(), "medium", node);
+      }
+
+      if (
+        ts.isPropertyAccessExpression(callee) &&
+        ts.isIdentifier(callee.expression) &&
+        callee.expression.text === "Math" &&
+        callee.name.text === "random" &&
+        TOKEN_NAME_PATTERN.test(getEnclosingName(node) ?? "")
+      ) {
+        add("weakCrypto", "Math.random", "medium", node);
+      }
+    } else if (ts.isPropertyAssignment(node)) {
+      const name = getPropertyName(node.name);
+      if (name === "rejectUnauthorized" && isFalseLiteral(node.initializer)) {
+        add("insecureTls", "rejectUnauthorized: false", "high", node);
+      } else if (name === "strictSSL" && isFalseLiteral(node.initializer)) {
+        add("insecureTls", "strictSSL: false", "medium", node);
+      }
+    } else if (
+      ts.isBinaryExpression(node) &&
+      node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      /NODE_TLS_REJECT_UNAUTHORIZED/.test(node.left.getText(sourceFile)) &&
+      ts.isStringLiteralLike(node.right) &&
+      node.right.text === "0"
+    ) {
+      add("insecureTls", "NODE_TLS_REJECT_UNAUTHORIZED=0", "high", node);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return findings;
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+function isLikelySecretValue(value: string): boolean {
+  return !PLACEHOLDER_PATTERN.test(value) && shannonEntropy(value) >= MIN_SECRET_ENTROPY;
+}
+
+function findProviderSecret(line: string): string | undefined {
+  return PROVIDER_PATTERNS.find(({ pattern }) => pattern.test(line))?.rule;
+}
+
+export function scanSecrets(content: string, format: "source" | "env"): SecurityFindingSpan[] {
+  const findings: SecurityFindingSpan[] = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    const lineNumber = index + 1;
+    const add = (rule: string, confidence: Confidence): void => {
+      findings.push({
+        kind: "hardcodedSecret",
+        rule,
+        confidence,
+        startLine: lineNumber,
+        endLine: lineNumber,
+      });
+    };
+
+    const provider = findProviderSecret(line);
+    if (provider) {
+      add(provider, "high");
+      return;
+    }
+
+    if (format === "env") {
+      const match = ENV_ASSIGNMENT_PATTERN.exec(line);
+      if (match && SECRET_NAME_PATTERN.test(match[1]) && isLikelySecretValue(match[2])) {
+        add("high-entropy value", "medium");
+      }
+      return;
+    }
+
+    for (const match of line.matchAll(SECRET_ASSIGNMENT_PATTERN)) {
+      if (SECRET_NAME_PATTERN.test(match[1]) && isLikelySecretValue(match[3])) {
+        add("high-entropy string", "medium");
+        return;
+      }
+    }
+  });
+  return findings;
+}
@@ -0,0 +1,535 @@
+import ts from "typescript";
+import type { FunctionMetrics } from "../types";
+import { collectTokens } from "./clone-detector";
+import { collectErrorHandlingFindings } from "./error-handling-analyzer";
+import { parseGoFile } from "./go-parser";
+import {
+  NAMESPACE_IMPORT,
+  type ExportReference,
+  type FunctionSpan,
+  type ImportReference,
+  type ParsedFile,
+} from "./parsed-file";
+import { collectPerformanceFindings } from "./performance-analyzer";
+import { parsePythonFile } from "./python-parser";
+import { collectSecurityFindings, scanSecrets } from "./security-analyzer";
+import { collectStyleFacts } from "./style-analyzer";
+import { analyzeTaint } from "./taint-analyzer";
+
+type ComplexityScore = Pick<FunctionMetrics, "cyclomatic" | "cognitive" | "maxNesting">;
+
+const LOGICAL_OPERATORS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+]);
+const LOGICAL_ASSIGNMENT_OPERATORS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken,
+]);
+
+function getScriptKind(extension: string): ts.ScriptKind {
+  switch (extension) {
+    case ".tsx":
+      return ts.ScriptKind.TSX;
+    case ".jsx":
+      return ts.ScriptKind.JSX;
+    case ".js":
+      return ts.ScriptKind.JS;
+    case ".mjs":
+      return ts.ScriptKind.JS;
+    case ".cjs":
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+function collectParseError(sourceFile: ts.SourceFile): ParsedFile["parseError"] {
+  const parseDiagnostics =
+    (sourceFile as ts.SourceFile & { parseDiagnostics?: ts.Diagnostic[] }).parseDiagnostics ?? [];
+  const first = parseDiagnostics[0];
+  if (!first) {
+    return undefined;
+  }
+  const line =
+    first.start !== undefined
+      ? sourceFile.getLineAndCharacterOfPosition(first.start).line + 1
+      : undefined;
+  const text = ts.flattenDiagnosticMessageText(first.messageText, " ");
+  const extra = parseDiagnostics.length > 1 ? ` (+${parseDiagnostics.length - 1} more)` : "";
+  return { message: `Syntax error: ${text}${extra}`, line };
+}
+
+function getLineRange(
+  node: ts.Node,
+  sourceFile: ts.SourceFile
+): { startLine: number; endLine: number } {
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+  return { startLine: start.line + 1, endLine: end.line + 1 };
+}
+
+function normalizeContent(content: string): { normalizedLines: string[]; lineNumbers: number[] } {
+  const withoutBlockComments = content.replace(/\/\*[\s\S]*?\*\//g, (match) => {
+    return match.replace(/[^\n]/g, "");
+  });
+  const withoutLineComments = withoutBlockComments.replace(/\/\/.*$/gm, "");
+  const rawLines = withoutLineComments.split(/\r?\n/);
+
+  const normalizedLines: string[] = [];
+  const lineNumbers: number[] = [];
+  for (let i = 0; i < rawLines.length; i += 1) {
+    const normalized = rawLines[i].replace(/\s+/g, " ").trim();
+    if (normalized.length === 0) {
+      continue;
+    }
+    normalizedLines.push(normalized);
+    lineNumbers.push(i + 1);
+  }
+
+  return { normalizedLines, lineNumbers };
+}
+
+function getImportClauseNames(clause: ts.ImportClause | undefined): string[] {
+  if (!clause) {
+    return [];
+  }
+  const names: string[] = [];
+  if (clause.name) {
+    names.push("default");
+  }
+  const bindings = clause.namedBindings;
+  if (bindings && ts.isNamespaceImport(bindings)) {
+    names.push(NAMESPACE_IMPORT);
+  } else if (bindings) {
+    for (const element of bindings.elements) {
+      names.push((element.propertyName ?? element.name).text);
+    }
+  }
+  return names;
+}
+
+function getExportClauseNames(declaration: ts.ExportDeclaration): string[] {
+  const clause = declaration.exportClause;
+  if (!clause) {
+    return [];
+  }
+  if (ts.isNamespaceExport(clause)) {
+    return [NAMESPACE_IMPORT];
+  }
+  return clause.elements.map((element) => (element.propertyName ?? element.name).text);
+}
+
+function hasOnlyTypeElements(
+  bindings: ts.NamedImportBindings | ts.NamedExportBindings | undefined
+): boolean {
+  if (!bindings || !(ts.isNamedImports(bindings) || ts.isNamedExports(bindings))) {
+    return false;
+  }
+  const elements: readonly (ts.ImportSpecifier | ts.ExportSpecifier)[] = bindings.elements;
+  return elements.length > 0 && elements.every((element) => element.isTypeOnly);
+}
+
+function isTypeOnlyReference(node: ts.Node): boolean {
+  if (ts.isImportDeclaration(node)) {
+    const clause = node.importClause;
+    return Boolean(
+      clause && (clause.isTypeOnly || (!clause.name && hasOnlyTypeElements(clause.namedBindings)))
+    );
+  }
+  if (ts.isExportDeclaration(node)) {
+    return node.isTypeOnly || hasOnlyTypeElements(node.exportClause);
+  }
+  return ts.isImportEqualsDeclaration(node) && node.isTypeOnly;
+}
+
+function collectImports(sourceFile: ts.SourceFile): ImportReference[] {
+  const imports: ImportReference[] = [];
+
+  const addImport = (specifier: string, node: ts.Node, names: string[], reexportsAll = false): void => {
+    const { startLine, endLine } = getLineRange(node, sourceFile);
+    const typeOnly = isTypeOnlyReference(node);
+    imports.push({ specifier, startLine, endLine, names, reexportsAll, typeOnly });
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      addImport(node.moduleSpecifier.text, node, getImportClauseNames(node.importClause));
+    } else if (
+      ts.isExportDeclaration(node) &&
+      node.moduleSpecifier &&
+      ts.isStringLiteral(node.moduleSpecifier)
+    ) {
+      addImport(node.moduleSpecifier.text, node, getExportClauseNames(node), !node.exportClause);
+    } else if (ts.isImportEqualsDeclaration(node)) {
+      const ref = node.moduleReference;
+      if (ts.isExternalModuleReference(ref) && ref.expression && ts.isStringLiteral(ref.expression)) {
+        addImport(ref.expression.text, node, [NAMESPACE_IMPORT]);
+      }
+    } else if (ts.isCallExpression(node)) {
+      if (
+        ts.isIdentifier(node.expression) &&
+        node.expression.text === "require" &&
+        node.arguments.length === 1 &&
+        ts.isStringLiteral(node.arguments[0])
+      ) {
+        addImport(node.arguments[0].text, node, getRequiredNames(node));
+      } else if (node.expression.kind === ts.SyntaxKind.ImportKeyword && node.arguments.length === 1) {
+        const arg = node.arguments[0];
+        if (ts.isStringLiteral(arg)) {
+          addImport(arg.text, node, [NAMESPACE_IMPORT]);
+        }
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return imports;
+}
+
+function getRequiredNames(call: ts.CallExpression): string[] {
+  const parent = call.parent;
+  if (ts.isPropertyAccessExpression(parent) && parent.expression === call) {
+    return [parent.name.text];
+  }
+  if (
+    !ts.isVariableDeclaration(parent) ||
+    parent.initializer !== call ||
+    !ts.isObjectBindingPattern(parent.name)
+  ) {
+    return [NAMESPACE_IMPORT];
+  }
+  const names: string[] = [];
+  for (const element of parent.name.elements) {
+    const key = element.propertyName ?? element.name;
+    if (element.dotDotDotToken || !ts.isIdentifier(key)) {
+      return [NAMESPACE_IMPORT];
+    }
+    names.push(key.text);
+  }
+  return names;
+}
+
+function collectBindingNames(name: ts.BindingName, names: string[]): void {
+  if (ts.isIdentifier(name)) {
+    names.push(name.text);
+    return;
+  }
+  for (const element of name.elements) {
+    if (!ts.isOmittedExpression(element)) {
+      collectBindingNames(element.name, names);
+    }
+  }
+}
+
+function isModuleExports(node: ts.Expression): boolean {
+  return (
+    ts.isPropertyAccessExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === "module" &&
+    node.name.text === "exports"
+  );
+}
+
+function getCommonJsExportNames(statement: ts.ExpressionStatement): string[] {
+  const assignment = statement.expression;
+  if (
+    !ts.isBinaryExpression(assignment) ||
+    assignment.operatorToken.kind !== ts.SyntaxKind.EqualsToken
+  ) {
+    return [];
+  }
+  const target = assignment.left;
+  if (isModuleExports(target)) {
+    if (!ts.isObjectLiteralExpression(assignment.right)) {
+      return [];
+    }
+    const names: string[] = [];
+    for (const property of assignment.right.properties) {
+      if (ts.isSpreadAssignment(property)) {
+        continue;
+      }
+      if (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) {
+        names.push(property.name.text);
+      }
+    }
+    return names;
+  }
+  if (
+    ts.isPropertyAccessExpression(target) &&
+    (isModuleExports(target.expression) ||
+      (ts.isIdentifier(target.expression) && target.expression.text === "exports"))
+  ) {
+    return [target.name.text];
+  }
+  return [];
+}
+
+function getDeclaredExportNames(statement: ts.Statement): string[] {
+  if (ts.isExportAssignment(statement)) {
+    return statement.isExportEquals ? [] : ["default"];
+  }
+  if (ts.isExpressionStatement(statement)) {
+    return getCommonJsExportNames(statement);
+  }
+  if (ts.isExportDeclaration(statement)) {
+    const clause = statement.exportClause;
+    if (!clause) {
+      return [];
+    }
+    return ts.isNamespaceExport(clause)
+      ? [clause.name.text]
+      : clause.elements.map((element) => element.name.text);
+  }
+
+  const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined;
+  if (!modifiers?.some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword)) {
+    return [];
+  }
+  if (modifiers.some((modifier) => modifier.kind === ts.SyntaxKind.DefaultKeyword)) {
+    return ["default"];
+  }
+  if (ts.isVariableStatement(statement)) {
+    const names: string[] = [];
+    for (const declaration of statement.declarationList.declarations) {
+      collectBindingNames(declaration.name, names);
+    }
+    return names;
+  }
+  if (
+    (ts.isFunctionDeclaration(statement) ||
+      ts.isClassDeclaration(statement) ||
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement) ||
+      ts.isEnumDeclaration(statement) ||
+      ts.isModuleDeclaration(statement)) &&
+    statement.name &&
+    ts.isIdentifier(statement.name)
+  ) {
+    return [statement.name.text];
+  }
+  return [];
+}
+
+function collectExports(sourceFile: ts.SourceFile): ExportReference[] {
+  const exports: ExportReference[] = [];
+  for (const statement of sourceFile.statements) {
+    const names = getDeclaredExportNames(statement);
+    if (names.length === 0) {
+      continue;
+    }
+    const { startLine, endLine } = getLineRange(statement, sourceFile);
+    for (const name of names) {
+      exports.push({ name, startLine, endLine });
+    }
+  }
+  return exports;
+}
+
+function getFunctionName(node: ts.Node, sourceFile: ts.SourceFile): string {
+  if (ts.isFunctionDeclaration(node) && node.name) {
+    return node.name.text;
+  }
+  if (
+    (ts.isMethodDeclaration(node) ||
+      ts.isMethodSignature(node) ||
+      ts.isGetAccessorDeclaration(node) ||
+      ts.isSetAccessorDeclaration(node)) &&
+    node.name
+  ) {
+    return node.name.getText(sourceFile);
+  }
+  if (ts.isConstructorDeclaration(node)) {
+    return "constructor";
+  }
+
+  const parent = node.parent;
+  if (parent) {
+    if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+      return parent.name.text;
+    }
+    if (ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) {
+      if (ts.isIdentifier(parent.name)) {
+        return parent.name.text;
+      }
+      return parent.name.getText(sourceFile);
+    }
+  }
+
+  return "<anonymous>";
+}
+
+function isLoop(node: ts.Node): boolean {
+  return (
+    ts.isForStatement(node) ||
+    ts.isForInStatement(node) ||
+    ts.isForOfStatement(node) ||
+    ts.isWhileStatement(node) ||
+    ts.isDoStatement(node)
+  );
+}
+
+function getLogicalParentOperator(node: ts.BinaryExpression): ts.SyntaxKind | undefined {
+  let parent = node.parent;
+  while (parent && ts.isParenthesizedExpression(parent)) {
+    parent = parent.parent;
+  }
+  return parent && ts.isBinaryExpression(parent) ? parent.operatorToken.kind : undefined;
+}
+
+function measureComplexity(fn: ts.FunctionLikeDeclaration): ComplexityScore {
+  const score: ComplexityScore = { cyclomatic: 1, cognitive: 0, maxNesting: 0 };
+
+  const enter = (nesting: number): number => {
+    score.maxNesting = Math.max(score.maxNesting, nesting + 1);
+    return nesting + 1;
+  };
+
+  const visit = (node: ts.Node, nesting: number): void => {
+    if (ts.isFunctionLike(node)) {
+      return;
+    }
+
+    if (ts.isIfStatement(node)) {
+      const isElseIf = ts.isIfStatement(node.parent) && node.parent.elseStatement === node;
+      score.cyclomatic += 1;
+      score.cognitive += isElseIf ? 1 : 1 + nesting;
+      visit(node.expression, nesting);
+      visit(node.thenStatement, enter(nesting));
+      if (node.elseStatement) {
+        if (ts.isIfStatement(node.elseStatement)) {
+          visit(node.elseStatement, nesting);
+        } else {
+          score.cognitive += 1;
+          visit(node.elseStatement, enter(nesting));
+        }
+      }
+      return;
+    }
+
+    if (isLoop(node) || ts.isCatchClause(node) || ts.isConditionalExpression(node)) {
+      score.cyclomatic += 1;
+      score.cognitive += 1 + nesting;
+      const inner = enter(nesting);
+      ts.forEachChild(node, (child) => visit(child, inner));
+      return;
+    }
+
+    if (ts.isSwitchStatement(node)) {
+      score.cognitive += 1 + nesting;
+      visit(node.expression, nesting);
+      const inner = enter(nesting);
+      ts.forEachChild(node.caseBlock, (child) => visit(child, inner));
+      return;
+    }
+
+    if (ts.isCaseClause(node)) {
+      score.cyclomatic += 1;
+    } else if (ts.isBinaryExpression(node)) {
+      const operator = node.operatorToken.kind;
+      if (LOGICAL_OPERATORS.has(operator)) {
+        score.cyclomatic += 1;
+        if (getLogicalParentOperator(node) !== operator) {
+          score.cognitive += 1;
+        }
+      } else if (LOGICAL_ASSIGNMENT_OPERATORS.has(operator)) {
+        score.cyclomatic += 1;
+      }
+    } else if ((ts.isBreakStatement(node) || ts.isContinueStatement(node)) && node.label) {
+      score.cognitive += 1;
+    }
+
+    ts.forEachChild(node, (child) => visit(child, nesting));
+  };
+
+  if (fn.body) {
+    visit(fn.body, 0);
+  }
+  return score;
+}
+
+function isFlagParameter(param: ts.ParameterDeclaration): boolean {
+  return (
+    param.type?.kind === ts.SyntaxKind.BooleanKeyword ||
+    param.initializer?.kind === ts.SyntaxKind.TrueKeyword ||
+    param.initializer?.kind === ts.SyntaxKind.FalseKeyword
+  );
+}
+
+function describeParameters(
+  node: ts.SignatureDeclaration,
+  sourceFile: ts.SourceFile
+): Pick<FunctionSpan, "parameters" | "flagParameters"> {
+  const parameters = node.parameters.filter((param) => param.name.getText(sourceFile) !== "this");
+  return {
+    parameters: parameters.length,
+    flagParameters: parameters
+      .filter(isFlagParameter)
+      .map((param) => param.name.getText(sourceFile)),
+  };
+}
+
+function collectFunctionLengths(sourceFile: ts.SourceFile): FunctionSpan[] {
+  const functions: FunctionSpan[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isFunctionLike(node) && "body" in node && node.body) {
+      const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+      const startLine = start.line + 1;
+      const endLine = end.line + 1;
+      const length = endLine - startLine + 1;
+
+      functions.push({
+        name: getFunctionName(node, sourceFile),
+        length,
+        startLine,
+        endLine,
+        ...measureComplexity(node),
+        ...describeParameters(node, sourceFile),
+      });
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return functions;
+}
+
+export function parseFile(relativePath: string, extension: string, content: string): ParsedFile {
+  if (extension === ".py") {
+    return parsePythonFile(content);
+  }
+  if (extension === ".go") {
+    return parseGoFile(content);
+  }
+  const sourceFile = ts.createSourceFile(
+    relativePath,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(extension)
+  );
+  const { normalizedLines, lineNumbers } = normalizeContent(content);
+  return {
+    functions: collectFunctionLengths(sourceFile),
+    imports: collectImports(sourceFile),
+    exports: collectExports(sourceFile),
+    security: [...collectSecurityFindings(sourceFile), ...scanSecrets(content, "source")].sort(
+      (a, b) => a.startLine - b.startLine
+    ),
+    taint: analyzeTaint(sourceFile),
+    performance: collectPerformanceFindings(sourceFile),
+    errorHandling: collectErrorHandlingFindings(sourceFile),
+    style: collectStyleFacts(sourceFile),
+    tokens: collectTokens(sourceFile),
+    normalizedLines,
+    lineNumbers,
+    parseError: collectParseError(sourceFile),
+  };
+}
@@ -0,0 +1,401 @@
+import ts from "typescript";
+import type { FunctionSpan } from "./parsed-file";
+import type { StyleFinding } from "../types";
+
+export type StyleSymbolKind =
+  | "class"
+  | "interface"
+  | "typeAlias"
+  | "enum"
+  | "function"
+  | "method"
+  | "constant"
+  | "variable";
+
+export type StyleSymbol = {
+  kind: StyleSymbolKind;
+  name: string;
+  startLine: number;
+  endLine: number;
+};
+
+export type StyleLiteral = {
+  value: string;
+  startLine: number;
+  endLine: number;
+};
+
+export type StyleClass = {
+  name: string;
+  members: number;
+  startLine: number;
+  endLine: number;
+};
+
+export type StyleFacts = {
+  symbols: StyleSymbol[];
+  literals: StyleLiteral[];
+  classes: StyleClass[];
+};
+
+export type StyleFile = {
+  path: string;
+  codeLines: number;
+  lastLine: number;
+  functions: FunctionSpan[];
+  style: StyleFacts;
+};
+
+export type StyleOptions = {
+  maxParameters: number;
+  maxFileLines: number;
+  maxClassMembers: number;
+  magicLiteralMinFiles: number;
+};
+
+type NamingStyle = "camelCase" | "PascalCase" | "UPPER_SNAKE_CASE" | "snake_case";
+
+type NamedSymbol = { file: string; symbol: StyleSymbol; style: NamingStyle };
+
+const MAX_TRIVIAL_NUMBER = 10;
+const MIN_STRING_LITERAL_LENGTH = 3;
+const MAX_MAGIC_LITERALS_PER_FILE = 3;
+const NAMING_DOMINANCE = 0.7;
+const NAMING_PATTERNS: [NamingStyle, RegExp][] = [
+  ["UPPER_SNAKE_CASE", /^[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)*$/],
+  ["PascalCase", /^[A-Z][A-Za-z0-9]*[a-z][A-Za-z0-9]*$/],
+  ["snake_case", /^[a-z][a-z0-9]*(?:_[a-z0-9]+)+$/],
+  ["camelCase", /^[a-z][A-Za-z0-9]*$/],
+];
+
+function getLineRange(
+  node: ts.Node,
+  sourceFile: ts.SourceFile
+): { startLine: number; endLine: number } {
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+  return { startLine: start.line + 1, endLine: end.line + 1 };
+}
+
+function isFunctionExpression(node: ts.Expression | undefined): boolean {
+  return Boolean(node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node)));
+}
+
+function isRequireCall(node: ts.Expression | undefined): boolean {
+  return Boolean(
+    node &&
+      ts.isCallExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === "require"
+  );
+}
+
+function isModuleLevel(node: ts.VariableDeclaration): boolean {
+  const statement = node.parent.parent;
+  return ts.isVariableStatement(statement) && ts.isSourceFile(statement.parent);
+}
+
+function isConstDeclaration(node: ts.VariableDeclaration): boolean {
+  return (node.parent.flags & ts.NodeFlags.Const) !== 0;
+}
+
+function isLiteralValue(node: ts.Expression): boolean {
+  if (ts.isAsExpression(node) || ts.isParenthesizedExpression(node)) {
+    return isLiteralValue(node.expression);
+  }
+  if (ts.isPrefixUnaryExpression(node)) {
+    return node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand);
+  }
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.every(isLiteralValue);
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    return node.properties.every(
+      (property) => ts.isPropertyAssignment(property) && isLiteralValue(property.initializer)
+    );
+  }
+  return (
+    ts.isLiteralExpression(node) ||
+    node.kind === ts.SyntaxKind.TrueKeyword ||
+    node.kind === ts.SyntaxKind.FalseKeyword ||
+    node.kind === ts.SyntaxKind.NullKeyword
+  );
+}
+
+function getVariableKind(node: ts.VariableDeclaration, name: string): StyleSymbolKind {
+  if (!isConstDeclaration(node)) {
+    return "variable";
+  }
+  const holdsLiteral = node.initializer !== undefined && isLiteralValue(node.initializer);
+  return holdsLiteral || getNamingStyle(name) === "UPPER_SNAKE_CASE" ? "constant" : "variable";
+}
+
+function getConstructedName(node: ts.Node): string | undefined {
+  if (ts.isNewExpression(node) && ts.isIdentifier(node.expression)) {
+    return node.expression.text;
+  }
+  if (
+    ts.isPropertyAccessExpression(node) &&
+    node.name.text === "prototype" &&
+    ts.isIdentifier(node.expression)
+  ) {
+    return node.expression.text;
+  }
+  return undefined;
+}
+
+function isNamedConstantValue(node: ts.Node): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isVariableDeclaration(current)) {
+      return isConstDeclaration(current) && isModuleLevel(current);
+    }
+    if (ts.isEnumMember(current) || ts.isFunctionLike(current) || ts.isBlock(current)) {
+      return ts.isEnumMember(current);
+    }
+  }
+  return false;
+}
+
+function isIgnoredLiteralPosition(node: ts.Node): boolean {
+  const parent = node.parent;
+  if (
+    ts.isLiteralTypeNode(parent) ||
+    ts.isImportDeclaration(parent) ||
+    ts.isExportDeclaration(parent) ||
+    ts.isExternalModuleReference(parent) ||
+    ts.isModuleDeclaration(parent) ||
+    ts.isExpressionStatement(parent) ||
+    ts.isElementAccessExpression(parent) ||
+    ts.isJsxAttribute(parent) ||
+    ts.isPropertyAssignment(parent) ||
+    (ts.isCallExpression(parent) &&
+      (parent.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        (ts.isIdentifier(parent.expression) && parent.expression.text === "require")))
+  ) {
+    return true;
+  }
+  return (
+    ts.isBinaryExpression(parent) &&
+    [parent.left, parent.right].some((side) => ts.isTypeOfExpression(side))
+  );
+}
+
+function getLiteralValue(node: ts.Node): string | undefined {
+  if (ts.isNumericLiteral(node)) {
+    const value =
+      ts.isPrefixUnaryExpression(node.parent) &&
+      node.parent.operator === ts.SyntaxKind.MinusToken
+        ? `-${node.text}`
+        : node.text;
+    return Math.abs(Number(value)) <= MAX_TRIVIAL_NUMBER ? undefined : value;
+  }
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text.length >= MIN_STRING_LITERAL_LENGTH ? JSON.stringify(node.text) : undefined;
+  }
+  return undefined;
+}
+
+export function collectStyleFacts(sourceFile: ts.SourceFile): StyleFacts {
+  const symbols: StyleSymbol[] = [];
+  const literals = new Map<string, StyleLiteral>();
+  const classes: StyleClass[] = [];
+  const constructed = new Set<string>();
+
+  const addSymbol = (kind: StyleSymbolKind, name: ts.Node | undefined): void => {
+    if (name && ts.isIdentifier(name)) {
+      symbols.push({ kind, name: name.text, ...getLineRange(name, sourceFile) });
+    }
+  };
+
+  const visit = (node: ts.Node): void => {
+    const constructedName = getConstructedName(node);
+    if (constructedName) {
+      constructed.add(constructedName);
+    }
+
+    if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+      if (!ts.isVariableDeclaration(node.parent)) {
+        addSymbol("class", node.name);
+      }
+      classes.push({
+        name: node.name?.text ?? "<anonymous>",
+        members: node.members.filter((member) => !ts.isSemicolonClassElement(member)).length,
+        ...getLineRange(node, sourceFile),
+      });
+    } else if (ts.isInterfaceDeclaration(node)) {
+      addSymbol("interface", node.name);
+    } else if (ts.isTypeAliasDeclaration(node)) {
+      addSymbol("typeAlias", node.name);
+    } else if (ts.isEnumDeclaration(node)) {
+      addSymbol("enum", node.name);
+    } else if (ts.isFunctionDeclaration(node)) {
+      addSymbol("function", node.name);
+    } else if (ts.isMethodDeclaration(node) && ts.isClassLike(node.parent)) {
+      addSymbol("method", node.name);
+    } else if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      !isRequireCall(node.initializer)
+    ) {
+      if (node.initializer && ts.isClassExpression(node.initializer)) {
+        addSymbol("class", node.name);
+      } else if (isFunctionExpression(node.initializer)) {
+        addSymbol("function", node.name);
+      } else {
+        addSymbol(getVariableKind(node, node.name.text), node.name);
+      }
+    } else {
+      const value = getLiteralValue(node);
+      if (
+        value !== undefined &&
+        !literals.has(value) &&
+        !isIgnoredLiteralPosition(node) &&
+        !isNamedConstantValue(node)
+      ) {
+        literals.set(value, { value, ...getLineRange(node, sourceFile) });
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  for (const symbol of symbols) {
+    if ((symbol.kind === "function" || symbol.kind === "variable") && constructed.has(symbol.name)) {
+      symbol.kind = "class";
+    }
+  }
+  return { symbols, literals: Array.from(literals.values()), classes };
+}
+
+function getNamingStyle(name: string): NamingStyle | undefined {
+  const bare = name.replace(/^[_$]+|[_$]+$/g, "");
+  return NAMING_PATTERNS.find(([, pattern]) => pattern.test(bare))?.[0];
+}
+
+function findNamingIssues(files: StyleFile[]): StyleFinding[] {
+  const byKind = new Map<StyleSymbolKind, NamedSymbol[]>();
+  for (const file of files) {
+    for (const symbol of file.style.symbols) {
+      const style = getNamingStyle(symbol.name);
+      if (style) {
+        const entries = byKind.get(symbol.kind) ?? [];
+        entries.push({ file: file.path, symbol, style });
+        byKind.set(symbol.kind, entries);
+      }
+    }
+  }
+
+  const findings: StyleFinding[] = [];
+  for (const [kind, entries] of byKind) {
+    const counts = new Map<NamingStyle, number>();
+    for (const entry of entries) {
+      counts.set(entry.style, (counts.get(entry.style) ?? 0) + 1);
+    }
+    const [dominant, dominantCount] = [...counts].sort((a, b) => b[1] - a[1])[0];
+    if (dominantCount / entries.length < NAMING_DOMINANCE || dominantCount === entries.length) {
+      continue;
+    }
+    for (const { file, symbol, style } of entries) {
+      if (style !== dominant) {
+        findings.push({
+          file,
+          kind: "namingConvention",
+          rule: `${kind} ${symbol.name} is ${style}; most use ${dominant}`,
+          value: dominantCount,
+          startLine: symbol.startLine,
+          endLine: symbol.endLine,
+        });
+      }
+    }
+  }
+  return findings;
+}
+
+function findMagicLiterals(files: StyleFile[], minFiles: number): StyleFinding[] {
+  const occurrences = new Map<string, { file: string; literal: StyleLiteral }[]>();
+  for (const file of files) {
+    for (const literal of file.style.literals) {
+      const entries = occurrences.get(literal.value) ?? [];
+      entries.push({ file: file.path, literal });
+      occurrences.set(literal.value, entries);
+    }
+  }
+
+  const byFile = new Map<string, StyleFinding[]>();
+  for (const [value, entries] of occurrences) {
+    if (entries.length < minFiles) {
+      continue;
+    }
+    for (const { file, literal } of entries) {
+      const findings = byFile.get(file) ?? [];
+      findings.push({
+        file,
+        kind: "magicLiteral",
+        rule: value,
+        value: entries.length,
+        startLine: literal.startLine,
+        endLine: literal.endLine,
+      });
+      byFile.set(file, findings);
+    }
+  }
+  return Array.from(byFile.values()).flatMap((findings) =>
+    findings
+      .sort((a, b) => b.value - a.value || a.startLine - b.startLine)
+      .slice(0, MAX_MAGIC_LITERALS_PER_FILE)
+  );
+}
+
+export function findStyleIssues(files: StyleFile[], options: StyleOptions): StyleFinding[] {
+  const findings: StyleFinding[] = [...findNamingIssues(files)];
+  findings.push(...findMagicLiterals(files, options.magicLiteralMinFiles));
+
+  for (const file of files) {
+    for (const fn of file.functions) {
+      if (fn.parameters > options.maxParameters) {
+        findings.push({
+          file: file.path,
+          kind: "longParameterList",
+          rule: fn.name,
+          value: fn.parameters,
+          startLine: fn.startLine,
+          endLine: fn.endLine,
+        });
+      }
+      for (const flag of fn.flagParameters) {
+        findings.push({
+          file: file.path,
+          kind: "flagParameter",
+          rule: `${fn.name}(${flag})`,
+          value: fn.parameters,
+          startLine: fn.startLine,
+          endLine: fn.endLine,
+        });
+      }
+    }
+    for (const cls of file.style.classes) {
+      if (cls.members > options.maxClassMembers) {
+        findings.push({
+          file: file.path,
+          kind: "largeClass",
+          rule: cls.name,
+          value: cls.members,
+          startLine: cls.startLine,
+          endLine: cls.endLine,
+        });
+      }
+    }
+    if (file.codeLines > options.maxFileLines) {
+      findings.push({
+        file: file.path,
+        kind: "largeFile",
+        rule: `${file.codeLines} lines of code`,
+        value: file.codeLines,
+        startLine: 1,
+        endLine: file.lastLine,
+      });
+    }
+  }
+  return findings;
+}
@@ -0,0 +1,622 @@
+import ts from "typescript";
+import {
+  CHILD_PROCESS_MODULES,
+  FS_MODULES,
+  SHELL_FUNCTIONS,
+  collectImportBindings,
+  resolveModuleFunction,
+  type ImportBindings,
+} from "./security-analyzer";
+import type { TaintFlow, TaintStep, TaintStepKind } from "../types";
+
+export type TaintStepSpan = Omit<TaintStep, "file">;
+
+export type TaintFlowSpan = Omit<TaintFlow, "steps"> & { steps: TaintStepSpan[] };
+
+export type ExportedTaintSink = {
+  name: string;
+  param: number;
+  sink: string;
+  steps: TaintStepSpan[];
+};
+
+export type ImportedTaintCall = {
+  specifier: string;
+  name: string;
+  param: number;
+  source: string;
+  steps: TaintStepSpan[];
+};
+
+export type TaintSummary = {
+  flows: TaintFlowSpan[];
+  exportedSinks: ExportedTaintSink[];
+  importedCalls: ImportedTaintCall[];
+};
+
+type FunctionNode = ts.FunctionLikeDeclaration;
+
+type Label = { source: string } | { owner: FunctionNode; param: number };
+
+type Trace = { label: Label; steps: TaintStepSpan[] };
+
+type Env = { vars: Map<string, Trace[]>; parent?: Env };
+
+type ParamSink = { sink: string; steps: TaintStepSpan[] };
+
+type FunctionSummary = {
+  paramSinks: Map<number, ParamSink[]>;
+  paramReturns: Map<number, TaintStepSpan[]>;
+  returnTraces: Trace[];
+};
+
+const FILE_READ_FUNCTIONS = new Set(["readFile", "readFileSync"]);
+const FS_PATH_FUNCTIONS = new Set([
+  "readFile",
+  "readFileSync",
+  "writeFile",
+  "writeFileSync",
+  "appendFile",
+  "appendFileSync",
+  "createReadStream",
+  "createWriteStream",
+  "readdir",
+  "readdirSync",
+  "mkdir",
+  "mkdirSync",
+  "rm",
+  "rmSync",
+  "unlink",
+  "unlinkSync",
+  "open",
+  "openSync",
+]);
+const HTTP_REQUEST_NAMES = new Set(["req", "request", "ctx", "ctx.request"]);
+const HTTP_INPUT_PROPERTIES = new Set(["body", "query", "params", "headers", "cookies", "url"]);
+const PASS_THROUGH_CALLS = new Set([
+  "String",
+  "decodeURI",
+  "decodeURIComponent",
+  "JSON.parse",
+  "Buffer.from",
+  "path.join",
+  "path.resolve",
+  "path.normalize",
+]);
+const SQL_PATTERN =
+  /\b(?:select\s[\s\S]*\bfrom|insert\s+into|update\s[\s\S]*\bset|delete\s+from)\b/i;
+const MAX_PASSES = 4;
+
+function isSource(label: Label): label is { source: string } {
+  return "source" in label;
+}
+
+function labelKey(label: Label): string {
+  return isSource(label) ? `source:${label.source}` : `param:${label.owner.pos}:${label.param}`;
+}
+
+function mergeTraces(lists: Trace[][]): Trace[] {
+  const merged = new Map<string, Trace>();
+  for (const trace of lists.flat()) {
+    const key = labelKey(trace.label);
+    if (!merged.has(key)) {
+      merged.set(key, trace);
+    }
+  }
+  return Array.from(merged.values());
+}
+
+function lookup(env: Env | undefined, name: string): Trace[] {
+  for (let current = env; current; current = current.parent) {
+    const traces = current.vars.get(name);
+    if (traces) {
+      return traces;
+    }
+  }
+  return [];
+}
+
+function findDeclaringEnv(env: Env, name: string): Env {
+  for (let current: Env | undefined = env; current; current = current.parent) {
+    if (current.vars.has(name)) {
+      return current;
+    }
+  }
+  return env;
+}
+
+function getFunctionName(node: FunctionNode): string {
+  if (node.name && ts.isIdentifier(node.name)) {
+    return node.name.text;
+  }
+  if (ts.isVariableDeclaration(node.parent) && ts.isIdentifier(node.parent.name)) {
+    return node.parent.name.text;
+  }
+  return "function";
+}
+
+function isFunctionWithBody(node: ts.Node): node is FunctionNode {
+  return (
+    (ts.isFunctionDeclaration(node) ||
+      ts.isFunctionExpression(node) ||
+      ts.isArrowFunction(node) ||
+      ts.isMethodDeclaration(node)) &&
+    node.body !== undefined
+  );
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node)
+    ? (ts.getModifiers(node) ?? []).some((modifier) => modifier.kind === kind)
+    : false;
+}
+
+function collectLocalFunctions(sourceFile: ts.SourceFile): Map<string, FunctionNode> {
+  const functions = new Map<string, FunctionNode>();
+  const visit = (node: ts.Node): void => {
+    if (ts.isFunctionDeclaration(node) && node.name && node.body) {
+      functions.set(node.name.text, node);
+    } else if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      node.initializer &&
+      isFunctionWithBody(node.initializer)
+    ) {
+      functions.set(node.name.text, node.initializer);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return functions;
+}
+
+function collectExportedFunctions(
+  sourceFile: ts.SourceFile,
+  functions: Map<string, FunctionNode>
+): Map<FunctionNode, string[]> {
+  const exported = new Map<FunctionNode, string[]>();
+  const add = (node: FunctionNode | undefined, name: string): void => {
+    if (node) {
+      exported.set(node, [...(exported.get(node) ?? []), name]);
+    }
+  };
+
+  for (const statement of sourceFile.statements) {
+    const isExported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    if (ts.isFunctionDeclaration(statement) && isExported && statement.body) {
+      const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+      add(statement, isDefault ? "default" : (statement.name?.text ?? "default"));
+    } else if (ts.isVariableStatement(statement) && isExported) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          add(functions.get(declaration.name.text), declaration.name.text);
+        }
+      }
+    } else if (
+      ts.isExportDeclaration(statement) &&
+      !statement.moduleSpecifier &&
+      statement.exportClause &&
+      ts.isNamedExports(statement.exportClause)
+    ) {
+      for (const element of statement.exportClause.elements) {
+        add(functions.get((element.propertyName ?? element.name).text), element.name.text);
+      }
+    } else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+      add(functions.get(statement.expression.text), "default");
+    }
+  }
+  return exported;
+}
+
+function emptySummary(): FunctionSummary {
+  return { paramSinks: new Map(), paramReturns: new Map(), returnTraces: [] };
+}
+
+function countSummaryEntries(summaries: Map<FunctionNode, FunctionSummary>): number {
+  let count = 0;
+  for (const summary of summaries.values()) {
+    for (const sinks of summary.paramSinks.values()) {
+      count += sinks.length;
+    }
+    count += summary.paramReturns.size + summary.returnTraces.length;
+  }
+  return count;
+}
+
+function isSqlText(parts: string[]): boolean {
+  return SQL_PATTERN.test(parts.join(" "));
+}
+
+function collectConcatenation(node: ts.Expression, parts: ts.Expression[]): void {
+  if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+    collectConcatenation(node.left, parts);
+    collectConcatenation(node.right, parts);
+  } else {
+    parts.push(node);
+  }
+}
+
+function isTopLevelConcatenation(node: ts.BinaryExpression): boolean {
+  return (
+    node.operatorToken.kind === ts.SyntaxKind.PlusToken &&
+    !(
+      ts.isBinaryExpression(node.parent) &&
+      node.parent.operatorToken.kind === ts.SyntaxKind.PlusToken
+    )
+  );
+}
+
+function isAssignmentOperator(kind: ts.SyntaxKind): boolean {
+  return (
+    kind === ts.SyntaxKind.EqualsToken ||
+    kind === ts.SyntaxKind.PlusEqualsToken ||
+    kind === ts.SyntaxKind.QuestionQuestionEqualsToken ||
+    kind === ts.SyntaxKind.BarBarEqualsToken
+  );
+}
+
+type PassResult = {
+  summaries: Map<FunctionNode, FunctionSummary>;
+  flows: TaintFlowSpan[];
+  importedCalls: ImportedTaintCall[];
+};
+
+function runPass(
+  sourceFile: ts.SourceFile,
+  bindings: ImportBindings,
+  functions: Map<string, FunctionNode>,
+  previous: Map<FunctionNode, FunctionSummary>
+): PassResult {
+  const summaries = new Map<FunctionNode, FunctionSummary>();
+  const flows = new Map<string, TaintFlowSpan>();
+  const importedCalls: ImportedTaintCall[] = [];
+
+  const step = (kind: TaintStepKind, name: string, node: ts.Node): TaintStepSpan => {
+    const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+    return { kind, name, startLine: start.line + 1, endLine: end.line + 1 };
+  };
+  const summaryOf = (owner: FunctionNode): FunctionSummary => {
+    const summary = summaries.get(owner) ?? emptySummary();
+    summaries.set(owner, summary);
+    return summary;
+  };
+  const extend = (traces: Trace[], steps: TaintStepSpan[]): Trace[] =>
+    traces.map((trace) => ({ label: trace.label, steps: [...trace.steps, ...steps] }));
+
+  const getSourceName = (node: ts.Expression): string | undefined => {
+    if (ts.isPropertyAccessExpression(node)) {
+      const objectText = node.expression.getText(sourceFile);
+      if (objectText === "process" && (node.name.text === "argv" || node.name.text === "env")) {
+        return `process.${node.name.text}`;
+      }
+      if (HTTP_REQUEST_NAMES.has(objectText) && HTTP_INPUT_PROPERTIES.has(node.name.text)) {
+        return `${objectText}.${node.name.text}`;
+      }
+    }
+    if (ts.isCallExpression(node)) {
+      const name = resolveModuleFunction(node.expression, bindings, FS_MODULES);
+      if (name && FILE_READ_FUNCTIONS.has(name)) {
+        return `fs.${name}`;
+      }
+    }
+    return undefined;
+  };
+
+  const evaluateCall = (node: ts.CallExpression, env: Env): Trace[] => {
+    const callee = node.expression;
+    const local = ts.isIdentifier(callee) ? functions.get(callee.text) : undefined;
+    if (local) {
+      const summary = previous.get(local);
+      if (!summary) {
+        return [];
+      }
+      const callStep = step("call", getFunctionName(local), node);
+      const fromArgs = node.arguments.map((arg, index) => {
+        const returned = summary.paramReturns.get(index);
+        return returned ? extend(evaluate(arg, env), [callStep, ...returned]) : [];
+      });
+      return mergeTraces([...fromArgs, summary.returnTraces]);
+    }
+    if (PASS_THROUGH_CALLS.has(callee.getText(sourceFile))) {
+      return mergeTraces(node.arguments.map((arg) => evaluate(arg, env)));
+    }
+    if (ts.isPropertyAccessExpression(callee)) {
+      return evaluate(callee.expression, env);
+    }
+    return [];
+  };
+
+  const evaluate = (node: ts.Expression, env: Env): Trace[] => {
+    const source = getSourceName(node);
+    if (source) {
+      return [{ label: { source }, steps: [step("source", source, node)] }];
+    }
+    if (ts.isIdentifier(node)) {
+      return lookup(env, node.text);
+    }
+    if (
+      ts.isParenthesizedExpression(node) ||
+      ts.isAwaitExpression(node) ||
+      ts.isAsExpression(node) ||
+      ts.isSatisfiesExpression(node) ||
+      ts.isNonNullExpression(node) ||
+      ts.isTypeAssertionExpression(node) ||
+      ts.isSpreadElement(node) ||
+      ts.isPropertyAccessExpression(node) ||
+      ts.isElementAccessExpression(node)
+    ) {
+      return evaluate(node.expression, env);
+    }
+    if (ts.isTemplateExpression(node)) {
+      return mergeTraces(node.templateSpans.map((span) => evaluate(span.expression, env)));
+    }
+    if (ts.isBinaryExpression(node)) {
+      const operator = node.operatorToken.kind;
+      if (operator === ts.SyntaxKind.CommaToken) {
+        return evaluate(node.right, env);
+      }
+      return operator === ts.SyntaxKind.PlusToken ||
+        operator === ts.SyntaxKind.BarBarToken ||
+        operator === ts.SyntaxKind.QuestionQuestionToken
+        ? mergeTraces([evaluate(node.left, env), evaluate(node.right, env)])
+        : [];
+    }
+    if (ts.isConditionalExpression(node)) {
+      return mergeTraces([evaluate(node.whenTrue, env), evaluate(node.whenFalse, env)]);
+    }
+    if (ts.isArrayLiteralExpression(node)) {
+      return mergeTraces(node.elements.map((element) => evaluate(element, env)));
+    }
+    if (ts.isObjectLiteralExpression(node)) {
+      return mergeTraces(
+        node.properties.map((property) => {
+          if (ts.isPropertyAssignment(property)) {
+            return evaluate(property.initializer, env);
+          }
+          if (ts.isShorthandPropertyAssignment(property)) {
+            return lookup(env, property.name.text);
+          }
+          return ts.isSpreadAssignment(property) ? evaluate(property.expression, env) : [];
+        })
+      );
+    }
+    if (ts.isCallExpression(node)) {
+      return evaluateCall(node, env);
+    }
+    return [];
+  };
+
+  const reach = (traces: Trace[], sink: string, steps: TaintStepSpan[]): void => {
+    for (const trace of traces) {
+      const flowSteps = [...trace.steps, ...steps];
+      if (isSource(trace.label)) {
+        const key = `${trace.label.source}:${flowSteps[0].startLine}:${sink}:${
+          flowSteps[flowSteps.length - 1].startLine
+        }`;
+        if (!flows.has(key)) {
+          flows.set(key, { source: trace.label.source, sink, steps: flowSteps });
+        }
+        continue;
+      }
+      const sinks = summaryOf(trace.label.owner).paramSinks;
+      const existing = sinks.get(trace.label.param) ?? [];
+      if (!existing.some((entry) => entry.sink === sink)) {
+        sinks.set(trace.label.param, [...existing, { sink, steps: flowSteps }]);
+      }
+    }
+  };
+
+  const getSink = (node: ts.CallExpression | ts.NewExpression): string | undefined => {
+    const callee = node.expression;
+    if (ts.isIdentifier(callee) && (callee.text === "eval" || callee.text === "Function")) {
+      return callee.text === "eval" ? "eval" : "new Function";
+    }
+    const shell = resolveModuleFunction(callee, bindings, CHILD_PROCESS_MODULES);
+    if (shell && SHELL_FUNCTIONS.has(shell)) {
+      return shell;
+    }
+    const fsFunction = resolveModuleFunction(callee, bindings, FS_MODULES);
+    return fsFunction && FS_PATH_FUNCTIONS.has(fsFunction) ? `fs.${fsFunction}` : undefined;
+  };
+
+  const getImportedCallee = (
+    callee: ts.Expression
+  ): { specifier: string; name: string } | undefined => {
+    if (ts.isIdentifier(callee)) {
+      return bindings.named.get(callee.text);
+    }
+    if (ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression)) {
+      const specifier = bindings.namespaces.get(callee.expression.text);
+      return specifier ? { specifier, name: callee.name.text } : undefined;
+    }
+    return undefined;
+  };
+
+  const checkCall = (node: ts.CallExpression | ts.NewExpression, env: Env): void => {
+    const args = node.arguments ?? [];
+    const sink = getSink(node);
+    if (sink) {
+      const sinkArgs = sink === "new Function" ? args : args.slice(0, 1);
+      for (const arg of sinkArgs) {
+        reach(evaluate(arg, env), sink, [step("sink", sink, node)]);
+      }
+      return;
+    }
+    if (!ts.isCallExpression(node)) {
+      return;
+    }
+
+    const callee = node.expression;
+    const local = ts.isIdentifier(callee) ? functions.get(callee.text) : undefined;
+    if (local) {
+      const summary = previous.get(local);
+      const callStep = step("call", getFunctionName(local), node);
+      args.forEach((arg, index) => {
+        const targets = summary?.paramSinks.get(index) ?? [];
+        if (targets.length === 0) {
+          return;
+        }
+        const traces = evaluate(arg, env);
+        for (const target of targets) {
+          reach(traces, target.sink, [callStep, ...target.steps]);
+        }
+      });
+      return;
+    }
+
+    const imported = getImportedCallee(callee);
+    if (!imported) {
+      return;
+    }
+    args.forEach((arg, index) => {
+      for (const trace of evaluate(arg, env)) {
+        if (isSource(trace.label)) {
+          importedCalls.push({
+            ...imported,
+            param: index,
+            source: trace.label.source,
+            steps: [...trace.steps, step("call", imported.name, node)],
+          });
+        }
+      }
+    });
+  };
+
+  const checkSql = (node: ts.Expression, env: Env): void => {
+    let texts: string[];
+    if (ts.isTemplateExpression(node)) {
+      texts = [node.head.text, ...node.templateSpans.map((span) => span.literal.text)];
+    } else {
+      const parts: ts.Expression[] = [];
+      collectConcatenation(node, parts);
+      texts = parts.filter(ts.isStringLiteralLike).map((part) => part.text);
+    }
+    if (isSqlText(texts)) {
+      reach(evaluate(node, env), "SQL query", [step("sink", "SQL query", node)]);
+    }
+  };
+
+  const bind = (name: ts.BindingName, traces: Trace[], env: Env, assignStep: boolean): void => {
+    if (ts.isIdentifier(name)) {
+      const assigned = assignStep ? extend(traces, [step("assign", name.text, name)]) : traces;
+      env.vars.set(name.text, assigned);
+      return;
+    }
+    for (const element of name.elements) {
+      if (!ts.isOmittedExpression(element)) {
+        bind(element.name, traces, env, assignStep);
+      }
+    }
+  };
+
+  const recordReturn = (owner: FunctionNode, traces: Trace[], node: ts.Node): void => {
+    const summary = summaryOf(owner);
+    const returnStep = step("return", getFunctionName(owner), node);
+    for (const trace of traces) {
+      const steps = [...trace.steps, returnStep];
+      if (isSource(trace.label)) {
+        summary.returnTraces = mergeTraces([summary.returnTraces, [{ label: trace.label, steps }]]);
+      } else if (trace.label.owner === owner && !summary.paramReturns.has(trace.label.param)) {
+        summary.paramReturns.set(trace.label.param, steps);
+      }
+    }
+  };
+
+  const walk = (node: ts.Node, env: Env, owner: FunctionNode | undefined): void => {
+    if (isFunctionWithBody(node)) {
+      enterFunction(node, env);
+      return;
+    }
+    if (ts.isVariableDeclaration(node) && node.initializer) {
+      walk(node.initializer, env, owner);
+      bind(node.name, evaluate(node.initializer, env), env, true);
+      return;
+    }
+    if (ts.isBinaryExpression(node) && isAssignmentOperator(node.operatorToken.kind)) {
+      walk(node.right, env, owner);
+      if (ts.isIdentifier(node.left)) {
+        const target = findDeclaringEnv(env, node.left.text);
+        const assigned = evaluate(node.right, env);
+        const traces =
+          node.operatorToken.kind === ts.SyntaxKind.EqualsToken
+            ? assigned
+            : mergeTraces([lookup(env, node.left.text), assigned]);
+        bind(node.left, traces, target, true);
+      } else {
+        walk(node.left, env, owner);
+      }
+      return;
+    }
+    if (
+      (ts.isForOfStatement(node) || ts.isForInStatement(node)) &&
+      ts.isVariableDeclarationList(node.initializer)
+    ) {
+      const declaration = node.initializer.declarations[0];
+      if (declaration) {
+        bind(declaration.name, evaluate(node.expression, env), env, true);
+      }
+    }
+    if (ts.isReturnStatement(node) && node.expression && owner) {
+      walk(node.expression, env, owner);
+      recordReturn(owner, evaluate(node.expression, env), node);
+      return;
+    }
+    if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+      checkCall(node, env);
+    } else if (ts.isTemplateExpression(node) && !ts.isTaggedTemplateExpression(node.parent)) {
+      checkSql(node, env);
+    } else if (ts.isBinaryExpression(node) && isTopLevelConcatenation(node)) {
+      checkSql(node, env);
+    }
+    ts.forEachChild(node, (child) => walk(child, env, owner));
+  };
+
+  const enterFunction = (node: FunctionNode, parent: Env): void => {
+    const env: Env = { vars: new Map(), parent };
+    node.parameters.forEach((param, index) => {
+      const paramStep = step("param", param.name.getText(sourceFile), param);
+      bind(param.name, [{ label: { owner: node, param: index }, steps: [paramStep] }], env, false);
+    });
+    const body = node.body;
+    if (!body) {
+      return;
+    }
+    if (ts.isBlock(body)) {
+      walk(body, env, node);
+    } else {
+      walk(body, env, node);
+      recordReturn(node, evaluate(body, env), body);
+    }
+  };
+
+  walk(sourceFile, { vars: new Map() }, undefined);
+  return { summaries, flows: Array.from(flows.values()), importedCalls };
+}
+
+export function analyzeTaint(sourceFile: ts.SourceFile): TaintSummary {
+  const bindings = collectImportBindings(sourceFile);
+  const functions = collectLocalFunctions(sourceFile);
+
+  let result = runPass(sourceFile, bindings, functions, new Map());
+  for (let pass = 1; pass < MAX_PASSES; pass += 1) {
+    const next = runPass(sourceFile, bindings, functions, result.summaries);
+    const settled = countSummaryEntries(next.summaries) === countSummaryEntries(result.summaries);
+    result = next;
+    if (settled) {
+      break;
+    }
+  }
+
+  const exportedSinks: ExportedTaintSink[] = [];
+  for (const [node, names] of collectExportedFunctions(sourceFile, functions)) {
+    const summary = result.summaries.get(node);
+    for (const [param, sinks] of summary?.paramSinks ?? []) {
+      for (const { sink, steps } of sinks) {
+        exportedSinks.push(...names.map((name) => ({ name, param, sink, steps })));
+      }
+    }
+  }
+
+  return { flows: result.flows, exportedSinks, importedCalls: result.importedCalls };
+}
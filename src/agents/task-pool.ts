@@ -0,0 +1,113 @@
+import os from "node:os";
+import { Worker } from "node:worker_threads";
+import type { CliConfig } from "../types";
+
+export function resolveConcurrency(config: Pick<CliConfig, "concurrency">): number {
+  if (typeof config.concurrency === "number" && config.concurrency >= 1) {
+    return Math.floor(config.concurrency);
+  }
+  return Math.max(1, os.availableParallelism());
+}
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const runNext = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await task(items[index], index);
+    }
+  };
+  const runners = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, runNext);
+  await Promise.all(runners);
+  return results;
+}
+
+type WorkerTask<I, O> = {
+  input: I;
+  resolve: (output: O) => void;
+  reject: (error: Error) => void;
+};
+
+type WorkerResponse<O> = { ok: true; output: O } | { ok: false; error: string };
+
+export type WorkerPool<I, O> = {
+  run: (input: I) => Promise<O>;
+  close: () => Promise<void>;
+};
+
+export function createWorkerPool<I, O>(scriptPath: string, size: number): WorkerPool<I, O> {
+  const queue: WorkerTask<I, O>[] = [];
+  const idle: Worker[] = [];
+  const active = new Map<Worker, WorkerTask<I, O>>();
+  const workers = new Set<Worker>();
+  let closed = false;
+
+  const dispatch = (): void => {
+    while (idle.length > 0 && queue.length > 0) {
+      const worker = idle.pop() as Worker;
+      const task = queue.shift() as WorkerTask<I, O>;
+      active.set(worker, task);
+      worker.postMessage(task.input);
+    }
+  };
+
+  const retire = (worker: Worker, error: Error): void => {
+    workers.delete(worker);
+    const task = active.get(worker);
+    active.delete(worker);
+    task?.reject(error);
+    if (workers.size === 0) {
+      for (const pending of queue.splice(0)) {
+        pending.reject(error);
+      }
+    }
+  };
+
+  for (let index = 0; index < Math.max(1, size); index += 1) {
+    const worker = new Worker(scriptPath);
+    workers.add(worker);
+    idle.push(worker);
+    worker.on("message", (response: WorkerResponse<O>) => {
+      const task = active.get(worker);
+      active.delete(worker);
+      if (task) {
+        if (response.ok) {
+          task.resolve(response.output);
+        } else {
+          task.reject(new Error(response.error));
+        }
+      }
+      idle.push(worker);
+      dispatch();
+    });
+    worker.on("error", (error) => retire(worker, error));
+    worker.on("exit", (code) => {
+      if (!closed && workers.has(worker)) {
+        retire(worker, new Error(`Worker exited with code ${code}.`));
+      }
+    });
+  }
+
+  return {
+    run: (input: I): Promise<O> => {
+      if (closed || workers.size === 0) {
+        return Promise.reject(new Error("Worker pool is not running."));
+      }
+      return new Promise<O>((resolve, reject) => {
+        queue.push({ input, resolve, reject });
+        dispatch();
+      });
+    },
+    close: async (): Promise<void> => {
+      closed = true;
+      await Promise.all(Array.from(workers, (worker) => worker.terminate()));
+      workers.clear();
+    },
+  };
+}
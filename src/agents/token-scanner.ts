@@ -0,0 +1,141 @@
+import type { ParsedFile } from "./parsed-file";
+
+export type TokenKind = "name" | "number" | "string" | "op";
+
+export type SourceToken = {
+  kind: TokenKind;
+  text: string;
+  line: number;
+  endLine: number;
+  offset: number;
+  depth: number;
+  continued: boolean;
+};
+
+export type TokenScan = {
+  tokens: SourceToken[];
+  parseError?: ParsedFile["parseError"];
+};
+
+export const NAME_PATTERN = /(?<name>[A-Za-z_\u00C0-\uFFFF][\w\u00C0-\uFFFF]*)/;
+export const BRACKET_PAIRS: Record<string, string> = { ")": "(", "]": "[", "}": "{" };
+
+export function buildTokenPattern(parts: RegExp[]): RegExp {
+  return new RegExp(parts.map((part) => part.source).join("|"), "y");
+}
+
+function countLineBreaks(text: string): number {
+  return text.split("\n").length - 1;
+}
+
+function getTokenKind(groups: Record<string, string | undefined>): TokenKind | undefined {
+  if (groups.string !== undefined) {
+    return "string";
+  }
+  if (groups.number !== undefined) {
+    return "number";
+  }
+  if (groups.name !== undefined) {
+    return "name";
+  }
+  return groups.op !== undefined ? "op" : undefined;
+}
+
+export function scanTokens(
+  content: string,
+  pattern: RegExp,
+  brackets: Record<string, string> = BRACKET_PAIRS
+): TokenScan {
+  const openers = new Set(Object.values(brackets));
+  const tokens: SourceToken[] = [];
+  const open: string[] = [];
+  let parseError: ParsedFile["parseError"];
+  let line = 1;
+  let continued = false;
+
+  const fail = (message: string): void => {
+    parseError ??= { message: `Syntax error: ${message}`, line };
+  };
+  const trackBracket = (text: string): void => {
+    if (openers.has(text)) {
+      open.push(text);
+    } else if (brackets[text] && open.pop() !== brackets[text]) {
+      fail(`unmatched "${text}"`);
+    }
+  };
+
+  pattern.lastIndex = 0;
+  while (pattern.lastIndex < content.length) {
+    const offset = pattern.lastIndex;
+    const match = pattern.exec(content);
+    if (!match?.groups) {
+      const character = content[offset];
+      fail(/["']/.test(character) ? "unterminated string" : `unexpected character "${character}"`);
+      const nextLine = content.indexOf("\n", offset);
+      pattern.lastIndex = nextLine === -1 ? content.length : nextLine;
+      continue;
+    }
+    if (match.groups.unclosed !== undefined) {
+      fail(/^["'`]/.test(match.groups.unclosed) ? "unterminated string" : "unterminated comment");
+      break;
+    }
+    const text = match[0];
+    const kind = getTokenKind(match.groups);
+    if (match.groups.continuation !== undefined) {
+      continued = true;
+    } else if (kind) {
+      tokens.push({
+        kind,
+        text,
+        line,
+        endLine: line + countLineBreaks(text),
+        offset,
+        depth: open.length,
+        continued,
+      });
+      continued = false;
+      trackBracket(text);
+    }
+    line += countLineBreaks(text);
+  }
+  if (open.length > 0) {
+    fail("unclosed bracket at end of file");
+  }
+  return { tokens, parseError };
+}
+
+export function findClosing(
+  tokens: SourceToken[],
+  open: number,
+  brackets: Record<string, string> = BRACKET_PAIRS
+): number {
+  for (let index = open + 1; index < tokens.length; index += 1) {
+    if (tokens[index].depth === tokens[open].depth + 1 && brackets[tokens[index].text]) {
+      return index;
+    }
+  }
+  return tokens.length - 1;
+}
+
+export function splitTopLevel<T extends SourceToken>(tokens: T[]): T[][] {
+  const parts: T[][] = [[]];
+  const depth = tokens[0]?.depth;
+  for (const token of tokens) {
+    if (token.depth === depth && token.text === ",") {
+      parts.push([]);
+    } else {
+      parts[parts.length - 1].push(token);
+    }
+  }
+  return parts.filter((part) => part.length > 0);
+}
+
+export function getTokenShape(token: SourceToken, keywords: Set<string>): string {
+  if (token.kind === "name") {
+    return keywords.has(token.text) ? token.text : "$id";
+  }
+  if (token.kind === "number") {
+    return "$num";
+  }
+  return token.kind === "string" ? "$str" : token.text;
+}
@@ -0,0 +1,233 @@
+import path from "node:path";
+import ts from "typescript";
+import { TSCONFIG_FILE_NAMES, readCompilerOptions } from "./module-aliases";
+import type {
+  FileTypeCoverage,
+  TypeCoverageSummary,
+  TypeFinding,
+  TypeFindingKind,
+} from "../types";
+
+export const TYPED_EXTENSIONS = new Set([".ts", ".tsx", ".mts", ".cts"]);
+
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.Preserve,
+  strict: true,
+  esModuleInterop: true,
+};
+const SUPPRESSION_PATTERN = /(?:\/\/|\/\*)\s*@ts-(?:ignore|expect-error)\b/;
+
+export type TypeAnalysisInput = {
+  rootPath: string;
+  files: string[];
+  projectFiles: string[];
+  overrides?: Record<string, string>;
+};
+
+export type TypeAnalysisResult = {
+  findings: TypeFinding[];
+  coverage: TypeCoverageSummary;
+};
+
+function toAbsolutePath(rootPath: string, relativePath: string): string {
+  return path.resolve(rootPath, ...relativePath.split("/"));
+}
+
+function findNearestConfig(configs: string[], filePath: string): string | undefined {
+  const depth = (config: string): number => {
+    const dir = path.posix.dirname(config);
+    return dir === "." ? 0 : dir.length + 1;
+  };
+  let nearest: string | undefined;
+  for (const config of configs) {
+    const dir = path.posix.dirname(config);
+    const contains = dir === "." || filePath.startsWith(`${dir}/`);
+    if (contains && (!nearest || depth(config) > depth(nearest))) {
+      nearest = config;
+    }
+  }
+  return nearest;
+}
+
+function groupByConfig(files: string[], projectFiles: string[]): Map<string, string[]> {
+  const configs = projectFiles.filter((file) =>
+    TSCONFIG_FILE_NAMES.has(path.posix.basename(file))
+  );
+  const groups = new Map<string, string[]>();
+  for (const file of files) {
+    const config = findNearestConfig(configs, file) ?? "";
+    const group = groups.get(config) ?? [];
+    group.push(file);
+    groups.set(config, group);
+  }
+  return groups;
+}
+
+function createProgram(input: TypeAnalysisInput, config: string, files: string[]): ts.Program {
+  const configOptions = config ? readCompilerOptions(toAbsolutePath(input.rootPath, config)) : null;
+  const options: ts.CompilerOptions = {
+    ...(configOptions ?? DEFAULT_COMPILER_OPTIONS),
+    noEmit: true,
+    skipLibCheck: true,
+    incremental: false,
+    composite: false,
+  };
+  const overrides = new Map(
+    Object.entries(input.overrides ?? {}).map(([file, content]) => [
+      toAbsolutePath(input.rootPath, file),
+      content,
+    ])
+  );
+  const host = ts.createCompilerHost(options, true);
+  const readFile = host.readFile;
+  const getSourceFile = host.getSourceFile;
+  host.readFile = (fileName) => overrides.get(path.resolve(fileName)) ?? readFile(fileName);
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+    const override = overrides.get(path.resolve(fileName));
+    return override !== undefined
+      ? ts.createSourceFile(fileName, override, languageVersion, true)
+      : getSourceFile(fileName, languageVersion, onError, shouldCreate);
+  };
+  return ts.createProgram({
+    rootNames: files.map((file) => toAbsolutePath(input.rootPath, file)),
+    options,
+    host,
+  });
+}
+
+function isAnyType(type: ts.Type): boolean {
+  return (type.flags & ts.TypeFlags.Any) !== 0;
+}
+
+function isAssertion(node: ts.Node): node is ts.AsExpression | ts.TypeAssertion {
+  return ts.isAsExpression(node) || ts.isTypeAssertionExpression(node);
+}
+
+function unwrapParentheses(node: ts.Expression): ts.Expression {
+  let current = node;
+  while (ts.isParenthesizedExpression(current)) {
+    current = current.expression;
+  }
+  return current;
+}
+
+function toPercent(part: number, total: number): number {
+  return total === 0 ? 100 : Math.round((part / total) * 10000) / 100;
+}
+
+function analyzeSourceFile(
+  sourceFile: ts.SourceFile,
+  checker: ts.TypeChecker,
+  relativePath: string
+): { findings: TypeFinding[]; coverage: FileTypeCoverage } {
+  const findings: TypeFinding[] = [];
+  let typedIdentifiers = 0;
+  let totalIdentifiers = 0;
+
+  const addFinding = (kind: TypeFindingKind, node: ts.Node): void => {
+    const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+    findings.push({
+      file: relativePath,
+      kind,
+      startLine: start.line + 1,
+      endLine: end.line + 1,
+    });
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (isAssertion(node)) {
+      const inner = unwrapParentheses(node.expression);
+      if (node.type.kind === ts.SyntaxKind.AnyKeyword) {
+        addFinding("anyCast", node);
+      } else if (isAssertion(inner) && inner.type.kind === ts.SyntaxKind.UnknownKeyword) {
+        addFinding("doubleCast", node);
+      }
+    } else if (node.kind === ts.SyntaxKind.AnyKeyword) {
+      if (!(isAssertion(node.parent) && node.parent.type === node)) {
+        addFinding("explicitAny", node);
+      }
+    } else if (ts.isNonNullExpression(node)) {
+      addFinding("nonNullAssertion", node);
+    } else if (
+      ts.isParameter(node) &&
+      !node.type &&
+      ts.isIdentifier(node.name) &&
+      isAnyType(checker.getTypeAtLocation(node.name))
+    ) {
+      addFinding("implicitAny", node);
+    } else if (ts.isIdentifier(node)) {
+      totalIdentifiers += 1;
+      if (!isAnyType(checker.getTypeAtLocation(node))) {
+        typedIdentifiers += 1;
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  const lines = sourceFile.text.split(/\r?\n/);
+  lines.forEach((line, index) => {
+    if (SUPPRESSION_PATTERN.test(line)) {
+      findings.push({
+        file: relativePath,
+        kind: "tsSuppression",
+        startLine: index + 1,
+        endLine: index + 1,
+      });
+    }
+  });
+
+  return {
+    findings: findings.sort((a, b) => a.startLine - b.startLine),
+    coverage: {
+      file: relativePath,
+      typedIdentifiers,
+      totalIdentifiers,
+      percent: toPercent(typedIdentifiers, totalIdentifiers),
+      lastLine: lines.length,
+    },
+  };
+}
+
+export function runTypeAnalysis(input: TypeAnalysisInput): TypeAnalysisResult {
+  const findings: TypeFinding[] = [];
+  const files: FileTypeCoverage[] = [];
+  let totalLines = 0;
+
+  for (const [config, group] of groupByConfig(input.files, input.projectFiles)) {
+    const program = createProgram(input, config, group);
+    const checker = program.getTypeChecker();
+    for (const relativePath of group) {
+      const sourceFile = program.getSourceFile(toAbsolutePath(input.rootPath, relativePath));
+      if (!sourceFile) {
+        continue;
+      }
+      const result = analyzeSourceFile(sourceFile, checker, relativePath);
+      findings.push(...result.findings);
+      files.push(result.coverage);
+      totalLines += result.coverage.lastLine;
+    }
+  }
+
+  const typedIdentifiers = files.reduce((sum, file) => sum + file.typedIdentifiers, 0);
+  const totalIdentifiers = files.reduce((sum, file) => sum + file.totalIdentifiers, 0);
+  const suppressions = findings.filter((finding) => finding.kind === "tsSuppression").length;
+  return {
+    findings,
+    coverage: {
+      percent: toPercent(typedIdentifiers, totalIdentifiers),
+      typedIdentifiers,
+      totalIdentifiers,
+      suppressions,
+      suppressionsPerKloc: totalLines
+        ? Math.round((suppressions / totalLines) * 100000) / 100
+        : 0,
+      files: files.sort((a, b) => a.file.localeCompare(b.file)),
+    },
+  };
+}
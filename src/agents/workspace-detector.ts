@@ -0,0 +1,212 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import ts from "typescript";
+import type { WorkspacePackage, WorkspaceSource } from "../types";
+
+export type WorkspaceCandidate = Omit<WorkspacePackage, "entryPoints">;
+
+const PACKAGE_MANIFEST = "package.json";
+const TSCONFIG_MANIFEST = "tsconfig.json";
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const segments = pattern.replace(/^\.\/+/, "").replace(/\/+$/, "").split("/");
+  let source = "";
+  segments.forEach((segment, index) => {
+    const isLast = index === segments.length - 1;
+    if (segment === "**") {
+      source += isLast ? ".*" : "(?:[^/]+/)*";
+      return;
+    }
+    source += segment.split("*").map(escapeRegExp).join("[^/]*");
+    if (!isLast) {
+      source += "/";
+    }
+  });
+  return new RegExp(`^${source}$`);
+}
+
+function matchesWorkspacePatterns(directory: string, patterns: string[]): boolean {
+  let matched = false;
+  for (const pattern of patterns) {
+    if (pattern.startsWith("!")) {
+      if (globToRegExp(pattern.slice(1)).test(directory)) {
+        matched = false;
+      }
+    } else if (globToRegExp(pattern).test(directory)) {
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+async function readText(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+async function readJsonObject(filePath: string): Promise<Record<string, unknown> | null> {
+  const content = await readText(filePath);
+  if (content === null) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readTsconfig(filePath: string): Promise<Record<string, unknown> | null> {
+  const content = await readText(filePath);
+  if (content === null) {
+    return null;
+  }
+  const { config, error } = ts.parseConfigFileTextToJson(filePath, content);
+  if (error || !config || typeof config !== "object") {
+    return null;
+  }
+  return config as Record<string, unknown>;
+}
+
+function readNpmWorkspaces(packageJson: Record<string, unknown> | null): string[] {
+  const workspaces = packageJson?.workspaces;
+  if (Array.isArray(workspaces)) {
+    return workspaces.filter((value): value is string => typeof value === "string");
+  }
+  if (workspaces && typeof workspaces === "object") {
+    const packages = (workspaces as Record<string, unknown>).packages;
+    if (Array.isArray(packages)) {
+      return packages.filter((value): value is string => typeof value === "string");
+    }
+  }
+  return [];
+}
+
+function readPnpmWorkspaces(content: string | null): string[] {
+  if (!content) {
+    return [];
+  }
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trimEnd();
+    if (!line.trim()) {
+      continue;
+    }
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (!/^\s/.test(line) && !line.startsWith("-")) {
+      inPackages = false;
+      continue;
+    }
+    const match = /^\s*-\s*["']?([^"']+)["']?\s*$/.exec(line);
+    if (inPackages && match) {
+      patterns.push(match[1]);
+    }
+  }
+  return patterns;
+}
+
+function readTsconfigReferences(tsconfig: Record<string, unknown> | null): string[] {
+  const references = tsconfig?.references;
+  if (!Array.isArray(references)) {
+    return [];
+  }
+  const directories: string[] = [];
+  for (const reference of references) {
+    const referencePath = (reference as Record<string, unknown> | null)?.path;
+    if (typeof referencePath !== "string") {
+      continue;
+    }
+    const normalized = path.posix.normalize(referencePath.split(path.sep).join("/"));
+    const directory = normalized.endsWith(".json") ? path.posix.dirname(normalized) : normalized;
+    const cleaned = directory.replace(/^\.\/+/, "").replace(/\/+$/, "");
+    if (cleaned && cleaned !== "." && !cleaned.startsWith("..")) {
+      directories.push(cleaned);
+    }
+  }
+  return directories;
+}
+
+async function readPackageName(rootPath: string, directory: string): Promise<string | null> {
+  const packageJson = await readJsonObject(path.join(rootPath, directory, PACKAGE_MANIFEST));
+  return typeof packageJson?.name === "string" && packageJson.name.trim()
+    ? packageJson.name
+    : null;
+}
+
+export async function detectWorkspacePackages(
+  rootPath: string,
+  projectFiles: string[]
+): Promise<WorkspaceCandidate[]> {
+  const rootPackageJson = await readJsonObject(path.join(rootPath, PACKAGE_MANIFEST));
+  const patternSources: { source: WorkspaceSource; patterns: string[] }[] = [
+    { source: "npm", patterns: readNpmWorkspaces(rootPackageJson) },
+    {
+      source: "pnpm",
+      patterns: readPnpmWorkspaces(await readText(path.join(rootPath, "pnpm-workspace.yaml"))),
+    },
+  ];
+
+  const manifestDirectories = new Map<string, Set<string>>();
+  for (const file of projectFiles) {
+    const directory = path.posix.dirname(file);
+    if (directory === ".") {
+      continue;
+    }
+    const names = manifestDirectories.get(directory) ?? new Set<string>();
+    names.add(path.posix.basename(file));
+    manifestDirectories.set(directory, names);
+  }
+
+  const candidates = new Map<string, WorkspaceCandidate>();
+  for (const { source, patterns } of patternSources) {
+    if (patterns.length === 0) {
+      continue;
+    }
+    for (const [directory, names] of manifestDirectories) {
+      if (!names.has(PACKAGE_MANIFEST) || candidates.has(directory)) {
+        continue;
+      }
+      if (!matchesWorkspacePatterns(directory, patterns)) {
+        continue;
+      }
+      candidates.set(directory, {
+        name: (await readPackageName(rootPath, directory)) ?? directory,
+        path: directory,
+        manifest: `${directory}/${PACKAGE_MANIFEST}`,
+        source,
+      });
+    }
+  }
+
+  const rootTsconfig = await readTsconfig(path.join(rootPath, TSCONFIG_MANIFEST));
+  for (const directory of readTsconfigReferences(rootTsconfig)) {
+    const names = manifestDirectories.get(directory);
+    if (!names || candidates.has(directory)) {
+      continue;
+    }
+    const manifestName = names.has(PACKAGE_MANIFEST) ? PACKAGE_MANIFEST : TSCONFIG_MANIFEST;
+    if (!names.has(manifestName)) {
+      continue;
+    }
+    candidates.set(directory, {
+      name: (await readPackageName(rootPath, directory)) ?? directory,
+      path: directory,
+      manifest: `${directory}/${manifestName}`,
+      source: "tsconfig",
+    });
+  }
+
+  return Array.from(candidates.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,48 @@
+import path from "node:path";
+import { loadConfigFile } from "./agents/config-loader";
+import { runPipelineStages } from "./pipeline";
+import type { AnalyzeRepoOptions, CliConfig, PipelineResult } from "./types";
+
+export { runCodeAnalysisAgent } from "./agents/code-analysis-agent";
+export { runEvidenceGuardAgent } from "./agents/evidence-guard-agent";
+export { runFixApplyAgent } from "./agents/fix-apply-agent";
+export { runFixItAgent } from "./agents/fix-it-agent";
+export { runInsightAggregatorAgent } from "./agents/insight-aggregator-agent";
+export { formatJsonOutput, runOutputFormatterAgent } from "./agents/output-formatter-agent";
+export { runRepoScannerAgent } from "./agents/repo-scanner-agent";
+export { runRoastNarratorAgent } from "./agents/roast-narrator-agent";
+export { loadConfigFile } from "./agents/config-loader";
+export { runPipeline, runPipelineStages } from "./pipeline";
+export type * from "./types";
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+}
+
+export async function analyzeRepo(options: AnalyzeRepoOptions): Promise<PipelineResult> {
+  const { hooks, configFile, useConfigFile = true, ...overrides } = options;
+  const fileConfig = useConfigFile
+    ? await loadConfigFile(path.resolve(overrides.path), configFile)
+    : {};
+  const command = overrides.command ?? "report";
+
+  const config: CliConfig = {
+    severity: "gentle",
+    focus: "general",
+    showDetails: false,
+    ...fileConfig,
+    ...withoutUndefined(overrides),
+    path: overrides.path,
+    command,
+    enableFixes: command === "fix" || command === "apply" || Boolean(overrides.enableFixes),
+    applyFixes: command === "apply" || Boolean(overrides.applyFixes),
+    quiet: overrides.quiet ?? true,
+  };
+  if (fileConfig.thresholds || overrides.thresholds) {
+    config.thresholds = { ...fileConfig.thresholds, ...overrides.thresholds };
+  }
+
+  return runPipelineStages(config, hooks);
+}
@@ -1,26 +1,73 @@
-import { runCliAgent } from "./agents/cli-agent";
+import { renderCliHelp, runCliAgent } from "./agents/cli-agent";
 import { runCodeAnalysisAgent } from "./agents/code-analysis-agent";
 import { runEvidenceGuardAgent } from "./agents/evidence-guard-agent";
 import { runFixApplyAgent } from "./agents/fix-apply-agent";
 import { runFixItAgent } from "./agents/fix-it-agent";
 import { runInsightAggregatorAgent } from "./agents/insight-aggregator-agent";
-import { runOutputFormatterAgent } from "./agents/output-formatter-agent";
+import { formatJsonOutput, runOutputFormatterAgent } from "./agents/output-formatter-agent";
 import { runRepoScannerAgent } from "./agents/repo-scanner-agent";
 import { runRoastNarratorAgent } from "./agents/roast-narrator-agent";
+import type { CliConfig, PipelineHooks, PipelineResult } from "./types";
+import { getPackageVersion } from "./version";
 
-export async function runPipeline(argv: string[]): Promise<string> {
-  const cliConfig = runCliAgent(argv);
-  const scanResult = await runRepoScannerAgent(cliConfig);
-  const analysisResult = await runCodeAnalysisAgent(cliConfig, scanResult);
-  const insights = runInsightAggregatorAgent(scanResult, analysisResult);
-  const guardedInsights = runEvidenceGuardAgent(insights);
-  const fixResult = cliConfig.enableFixes
-    ? await runFixItAgent(cliConfig, scanResult, analysisResult, guardedInsights)
+export async function runPipelineStages(
+  config: CliConfig,
+  hooks: PipelineHooks = {}
+): Promise<PipelineResult> {
+  const scan = await runRepoScannerAgent(config);
+  await hooks.onScan?.(scan);
+  if (config.command === "scan") {
+    return { config, scan };
+  }
+
+  const analysis = await runCodeAnalysisAgent(config, scan);
+  await hooks.onAnalysis?.(analysis);
+  if (config.command === "analyze") {
+    return { config, scan, analysis };
+  }
+
+  const aggregated = runInsightAggregatorAgent(scan, analysis, config.thresholds);
+  const insights = runEvidenceGuardAgent(aggregated);
+  await hooks.onInsights?.(insights);
+
+  const fix = config.enableFixes
+    ? await runFixItAgent(config, scan, analysis, insights)
     : undefined;
-  if (fixResult && cliConfig.applyFixes) {
-    fixResult.applyResult = await runFixApplyAgent(cliConfig, fixResult);
+  if (fix && config.applyFixes) {
+    fix.applyResult = await runFixApplyAgent(config, fix);
+  }
+  if (fix) {
+    await hooks.onFix?.(fix);
+  }
+
+  const roast = await runRoastNarratorAgent(config, insights);
+  await hooks.onRoast?.(roast);
+
+  return { config, scan, analysis, insights, roast, fix };
+}
+
+export async function runPipeline(argv: string[]): Promise<string> {
+  const cliConfig = await runCliAgent(argv);
+  if (cliConfig.showHelp) {
+    return renderCliHelp(cliConfig.command);
+  }
+  if (cliConfig.showVersion) {
+    return `${getPackageVersion()}\n`;
+  }
+
+  const result = await runPipelineStages(cliConfig);
+  if (cliConfig.command === "scan" || !result.analysis) {
+    return formatJsonOutput(result.scan).text;
+  }
+  if (cliConfig.command === "analyze" || !result.roast) {
+    return formatJsonOutput(result.analysis).text;
   }
-  const roast = await runRoastNarratorAgent(cliConfig, guardedInsights);
-  const formatted = runOutputFormatterAgent(cliConfig, roast, fixResult, analysisResult);
+  const formatted = runOutputFormatterAgent(
+    cliConfig,
+    result.roast,
+    result.fix,
+    result.analysis,
+    result.scan
+  );
   return formatted.text;
 }
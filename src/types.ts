@@ -1,7 +1,10 @@
 export type Severity = "gentle" | "savage" | "investor-demo";
 export type Focus = "architecture" | "performance" | "style" | "security" | "general";
 
+export type CliCommand = "scan" | "analyze" | "roast" | "fix" | "apply" | "report";
+
 export interface CliConfig {
+  command?: CliCommand;
   path: string;
   severity: Severity;
   focus: Focus;
@@ -15,26 +18,139 @@ export interface CliConfig {
   fixBranch?: string;
   fixTestCmd?: string;
   fixLimit?: number;
+  ignoreDirs?: string[];
+  include?: string[];
+  exclude?: string[];
+  since?: string;
+  staged?: boolean;
+  includeGenerated?: boolean;
+  cache?: boolean;
+  concurrency?: number;
+  typeCheck?: boolean;
+  thresholds?: AnalysisThresholds;
+  showHelp?: boolean;
+  showVersion?: boolean;
+  quiet?: boolean;
+}
+
+export interface AnalysisThresholds {
+  longFunctionLoc?: number;
+  duplicateMinLines?: number;
+  duplicateMaxLines?: number;
+  duplicateMinOccurrences?: number;
+  duplicateMinTokens?: number;
+  nearDuplicateSimilarity?: number;
+  maxLongFunctions?: number;
+  maxDuplicateBlocks?: number;
+  maxDuplicateOccurrences?: number;
+  maxNearDuplicates?: number;
+  maxCircularCycles?: number;
+  cyclomaticComplexity?: number;
+  cognitiveComplexity?: number;
+  nestingDepth?: number;
+  maxComplexFunctions?: number;
+  maxUnusedExports?: number;
+  maxOrphanModules?: number;
+  minTypeCoverage?: number;
+  maxTypeFindings?: number;
+  maxSecurityFindings?: number;
+  maxTaintFlows?: number;
+  maxPerformanceFindings?: number;
+  maxErrorHandlingFindings?: number;
+  maxParameters?: number;
+  maxFileLines?: number;
+  maxClassMembers?: number;
+  magicLiteralMinFiles?: number;
+  maxStyleFindings?: number;
+  maxFixes?: number;
+}
+
+export interface LineCounts {
+  code: number;
+  comment: number;
+  blank: number;
+}
+
+export interface LineCountSummary {
+  total: LineCounts;
+  byLanguage: Record<string, LineCounts>;
 }
 
+export type FileClassification = "generated" | "minified" | "vendored";
+
 export interface FileManifestEntry {
   path: string;
   sizeBytes: number;
   extension: string;
   language?: string;
+  lines?: LineCounts;
+  classification?: FileClassification;
+  changed?: boolean;
+}
+
+export interface LineRange {
+  startLine: number;
+  endLine: number;
+}
+
+export interface ChangedFile {
+  path: string;
+  ranges: LineRange[];
+}
+
+export type DiagnosticStage = "scan" | "analysis";
+
+export type DiagnosticCode =
+  | "unreadable-directory"
+  | "stat-failed"
+  | "scan-timeout"
+  | "file-too-large"
+  | "binary-file"
+  | "unreadable-file"
+  | "parse-error"
+  | "worker-failure"
+  | "unresolved-import";
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  stage: DiagnosticStage;
+  message: string;
+  path?: string;
+  line?: number;
+}
+
+export type WorkspaceSource = "npm" | "pnpm" | "tsconfig";
+
+export interface WorkspacePackage {
+  name: string;
+  path: string;
+  manifest: string;
+  source: WorkspaceSource;
+  entryPoints: string[];
+}
+
+export interface DetectedFramework {
+  name: string;
+  manifest: string;
 }
 
 export interface RepoScanResult {
   languages: Record<string, number>;
   fileTypes: Record<string, number>;
+  lineCounts: LineCountSummary;
   totalFiles: number;
   totalFolders: number;
   entryPoints: string[];
+  frameworks: DetectedFramework[];
   projectFiles: string[];
   ignoredCount: number;
   repoSizeMB?: number;
   ignoredPaths?: string[];
   files: FileManifestEntry[];
+  diagnostics: Diagnostic[];
+  partial: boolean;
+  changedFiles?: ChangedFile[];
+  packages?: WorkspacePackage[];
 }
 
 export interface LongFunction {
@@ -45,6 +161,14 @@ export interface LongFunction {
   endLine: number;
 }
 
+export interface FunctionMetrics extends LongFunction {
+  cyclomatic: number;
+  cognitive: number;
+  maxNesting: number;
+  parameters: number;
+  flagParameters: string[];
+}
+
 export interface DuplicateOccurrence {
   file: string;
   startLine: number;
@@ -54,9 +178,18 @@ export interface DuplicateOccurrence {
 export interface DuplicateBlock {
   hash: string;
   length: number;
+  tokens: number;
+  similarity: number;
   occurrences: DuplicateOccurrence[];
 }
 
+export interface CycleEdge {
+  from: string;
+  to: string;
+  startLine: number;
+  endLine: number;
+}
+
 export interface CircularDependency {
   from: string;
   to: string;
@@ -64,6 +197,136 @@ export interface CircularDependency {
   fromEndLine: number;
   toStartLine: number;
   toEndLine: number;
+  size: number;
+  files: string[];
+  path: string[];
+  edges: CycleEdge[];
+}
+
+export interface UnusedExport {
+  file: string;
+  name: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface OrphanModule {
+  file: string;
+  startLine: number;
+  endLine: number;
+}
+
+export type TypeFindingKind =
+  | "explicitAny"
+  | "implicitAny"
+  | "anyCast"
+  | "doubleCast"
+  | "nonNullAssertion"
+  | "tsSuppression";
+
+export interface TypeFinding {
+  file: string;
+  kind: TypeFindingKind;
+  startLine: number;
+  endLine: number;
+}
+
+export interface FileTypeCoverage {
+  file: string;
+  typedIdentifiers: number;
+  totalIdentifiers: number;
+  percent: number;
+  lastLine: number;
+}
+
+export interface TypeCoverageSummary {
+  percent: number;
+  typedIdentifiers: number;
+  totalIdentifiers: number;
+  suppressions: number;
+  suppressionsPerKloc: number;
+  files: FileTypeCoverage[];
+}
+
+export type SecurityFindingKind =
+  | "dynamicCode"
+  | "shellInjection"
+  | "insecureTls"
+  | "weakCrypto"
+  | "hardcodedSecret";
+
+export interface SecurityFinding {
+  file: string;
+  kind: SecurityFindingKind;
+  rule: string;
+  confidence: Confidence;
+  startLine: number;
+  endLine: number;
+}
+
+export type PerformanceFindingKind =
+  | "awaitInLoop"
+  | "syncIoInAsync"
+  | "jsonClone"
+  | "regexInLoop"
+  | "nestedIncludes"
+  | "unboundedPromiseAll";
+
+export interface PerformanceFinding {
+  file: string;
+  kind: PerformanceFindingKind;
+  rule: string;
+  startLine: number;
+  endLine: number;
+}
+
+export type ErrorHandlingFindingKind =
+  | "emptyCatch"
+  | "swallowedRejection"
+  | "discardedError"
+  | "lostError"
+  | "floatingPromise"
+  | "throwLiteral";
+
+export interface ErrorHandlingFinding {
+  file: string;
+  kind: ErrorHandlingFindingKind;
+  rule: string;
+  startLine: number;
+  endLine: number;
+}
+
+export type StyleFindingKind =
+  | "namingConvention"
+  | "magicLiteral"
+  | "longParameterList"
+  | "flagParameter"
+  | "largeFile"
+  | "largeClass";
+
+export interface StyleFinding {
+  file: string;
+  kind: StyleFindingKind;
+  rule: string;
+  value: number;
+  startLine: number;
+  endLine: number;
+}
+
+export type TaintStepKind = "source" | "assign" | "param" | "call" | "return" | "sink";
+
+export interface TaintStep {
+  file: string;
+  kind: TaintStepKind;
+  name: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface TaintFlow {
+  source: string;
+  sink: string;
+  steps: TaintStep[];
 }
 
 export interface TestPresence {
@@ -76,19 +339,51 @@ export interface AnalysisMetrics {
   avgFunctionLength: number;
   duplicateBlocks: number;
   totalFunctions: number;
+  maxCyclomaticComplexity: number;
+  avgCyclomaticComplexity: number;
+  maxCognitiveComplexity: number;
+  maxNestingDepth: number;
+  errorHandlingFindings: number;
 }
 
 export interface AnalysisSignals {
   longFunctions: LongFunction[];
+  complexFunctions: FunctionMetrics[];
+  deeplyNestedFunctions: FunctionMetrics[];
   duplicateBlocks: DuplicateBlock[];
+  nearDuplicateFunctions: DuplicateBlock[];
   circularDependencies: CircularDependency[];
+  unusedExports: UnusedExport[];
+  orphanModules: OrphanModule[];
+  typeFindings?: TypeFinding[];
+  securityFindings: SecurityFinding[];
+  taintFlows: TaintFlow[];
+  performanceFindings: PerformanceFinding[];
+  errorHandlingFindings: ErrorHandlingFinding[];
+  styleFindings: StyleFinding[];
   testPresence: TestPresence;
 }
 
+export interface PackageAnalysis {
+  name: string;
+  path: string;
+  manifest: string;
+  files: number;
+  metrics: AnalysisMetrics;
+  longFunctions: number;
+  circularDependencies: number;
+  testPresence: TestPresence;
+  dependsOn: string[];
+}
+
 export interface AnalysisResult {
   metrics: AnalysisMetrics;
   signals: AnalysisSignals;
   dependencySummary?: DependencySummary;
+  packages?: PackageAnalysis[];
+  typeCoverage?: TypeCoverageSummary;
+  diagnostics: Diagnostic[];
+  partial: boolean;
 }
 
 export interface DependencySummary {
@@ -97,12 +392,25 @@ export interface DependencySummary {
   topImporters: { file: string; imports: number }[];
   topImported: { file: string; importedBy: number }[];
   cycles: number;
-  sampleCycle?: { from: string; to: string };
+  sampleCycle?: { from: string; to: string; path: string[] };
 }
 
 export type Confidence = "low" | "medium" | "high";
 
-export type EvidenceMetricType = "loc" | "count" | "hash";
+export type EvidenceMetricType =
+  | "loc"
+  | "count"
+  | "hash"
+  | "cyclomatic"
+  | "cognitive"
+  | "nesting"
+  | "cycleSize"
+  | "symbol"
+  | "typeIssue"
+  | "typeCoverage"
+  | "rule"
+  | "flowStep"
+  | "similarity";
 
 export interface EvidenceMetric {
   type: EvidenceMetricType;
@@ -182,6 +490,31 @@ export interface MetricDelta {
   totalFunctions: number;
 }
 
+export interface PipelineHooks {
+  onScan?: (scan: RepoScanResult) => void | Promise<void>;
+  onAnalysis?: (analysis: AnalysisResult) => void | Promise<void>;
+  onInsights?: (insights: GuardedInsights) => void | Promise<void>;
+  onFix?: (fix: FixResult) => void | Promise<void>;
+  onRoast?: (roast: RoastResult) => void | Promise<void>;
+}
+
+export interface PipelineResult {
+  config: CliConfig;
+  scan: RepoScanResult;
+  analysis?: AnalysisResult;
+  insights?: GuardedInsights;
+  roast?: RoastResult;
+  fix?: FixResult;
+}
+
+export interface AnalyzeRepoOptions
+  extends Partial<Omit<CliConfig, "path" | "showHelp" | "showVersion">> {
+  path: string;
+  configFile?: string;
+  useConfigFile?: boolean;
+  hooks?: PipelineHooks;
+}
+
 export interface FormattedOutput {
   text: string;
 }
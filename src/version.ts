@@ -0,0 +1,12 @@
+import fs from "node:fs";
+import path from "node:path";
+
+export function getPackageVersion(): string {
+  try {
+    const packagePath = path.resolve(__dirname, "..", "package.json");
+    const packageJson = JSON.parse(fs.readFileSync(packagePath, "utf8"));
+    return typeof packageJson.version === "string" ? packageJson.version : "unknown";
+  } catch {
+    return "unknown";
+  }
+}
@@ -0,0 +1,73 @@
+const assert = require("node:assert/strict");
+const fs = require("node:fs/promises");
+const os = require("node:os");
+const path = require("node:path");
+const { test } = require("node:test");
+
+const { analyzeRepo } = require("../dist/api.js");
+
+async function withTempDir(callback) {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "coderoast-api-"));
+  try {
+    await callback(root);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+async function writeFile(filePath, contents = "") {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, contents);
+}
+
+test("returns structured results for every stage and calls hooks", async () => {
+  await withTempDir(async (root) => {
+    const longLines = Array.from({ length: 55 }, (_, i) => `  const line${i} = ${i};`).join("\n");
+    await writeFile(path.join(root, "src/long.ts"), `export function longFn() {\n${longLines}\n}\n`);
+
+    const originalKey = process.env.GEMINI_API_KEY;
+    delete process.env.GEMINI_API_KEY;
+    const calls = [];
+    let result;
+    try {
+      result = await analyzeRepo({
+        path: root,
+        command: "roast",
+        hooks: {
+          onScan: () => calls.push("scan"),
+          onAnalysis: () => calls.push("analysis"),
+          onInsights: () => calls.push("insights"),
+          onRoast: () => calls.push("roast"),
+        },
+      });
+    } finally {
+      if (originalKey) {
+        process.env.GEMINI_API_KEY = originalKey;
+      }
+    }
+
+    assert.deepEqual(calls, ["scan", "analysis", "insights", "roast"]);
+    assert.equal(result.scan.totalFiles, 1);
+    assert.equal(result.analysis.signals.longFunctions.length, 1);
+    assert.ok(result.insights.issues.some((issue) => issue.signal === "longFunctions"));
+    assert.equal(result.roast.usedGemini, false);
+    assert.equal(result.fix, undefined);
+  });
+});
+
+test("stops after the requested stage and applies threshold overrides", async () => {
+  await withTempDir(async (root) => {
+    const lines = Array.from({ length: 20 }, (_, i) => `  const line${i} = ${i};`).join("\n");
+    await writeFile(path.join(root, "src/short.ts"), `export function shortFn() {\n${lines}\n}\n`);
+
+    const result = await analyzeRepo({
+      path: root,
+      command: "analyze",
+      thresholds: { longFunctionLoc: 10 },
+    });
+
+    assert.equal(result.analysis.signals.longFunctions.length, 1);
+    assert.equal(result.insights, undefined);
+    assert.equal(result.roast, undefined);
+  });
+});
@@ -0,0 +1,144 @@
+const assert = require("node:assert/strict");
+const { execFileSync } = require("node:child_process");
+const fs = require("node:fs/promises");
+const os = require("node:os");
+const path = require("node:path");
+const { test } = require("node:test");
+
+const { runRepoScannerAgent } = require("../dist/agents/repo-scanner-agent.js");
+const { runCodeAnalysisAgent } = require("../dist/agents/code-analysis-agent.js");
+const { runInsightAggregatorAgent } = require("../dist/agents/insight-aggregator-agent.js");
+const { parseChangedRanges } = require("../dist/agents/git-client.js");
+
+async function withTempDir(callback) {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "coderoast-git-"));
+  try {
+    await callback(root);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+async function writeFile(filePath, contents = "") {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, contents);
+}
+
+function git(root, ...args) {
+  execFileSync(
+    "git",
+    ["-c", "user.name=CodeRoast", "-c", "user.email=coderoast@example.com", ...args],
+    { cwd: root, stdio: "ignore" }
+  );
+}
+
+function longFunction(name) {
+  const body = Array.from({ length: 55 }, (_, i) => `  const ${name}${i} = ${i};`).join("\n");
+  return `export function ${name}() {\n${body}\n}\n`;
+}
+
+test("parses changed line ranges from a zero-context diff", () => {
+  const diff = [
+    "diff --git a/src/a.ts b/src/a.ts",
+    "--- a/src/a.ts",
+    "+++ b/src/a.ts",
+    "@@ -3,0 +4,2 @@",
+    "@@ -10 +12 @@",
+    "@@ -20,3 +24,0 @@",
+  ].join("\n");
+
+  assert.deepEqual(parseChangedRanges(diff), [
+    {
+      path: "src/a.ts",
+      ranges: [
+        { startLine: 4, endLine: 5 },
+        { startLine: 12, endLine: 12 },
+        { startLine: 24, endLine: 24 },
+      ],
+    },
+  ]);
+});
+
+test("limits findings to lines changed since a ref", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(path.join(root, "src/old.ts"), longFunction("oldFn"));
+    await writeFile(path.join(root, "src/new.ts"), "export const placeholder = 1;\n");
+    git(root, "init", "-q");
+    git(root, "add", "-A");
+    git(root, "commit", "-q", "-m", "initial");
+
+    await writeFile(path.join(root, "src/new.ts"), longFunction("newFn"));
+
+    const config = { path: root, severity: "gentle", focus: "general", since: "HEAD" };
+    const scan = await runRepoScannerAgent(config);
+    assert.deepEqual(
+      scan.changedFiles.map((file) => file.path),
+      ["src/new.ts"]
+    );
+    assert.equal(scan.files.find((file) => file.path === "src/new.ts").changed, true);
+
+    const analysis = await runCodeAnalysisAgent(config, scan);
+    assert.equal(analysis.signals.longFunctions.length, 2);
+
+    const insights = runInsightAggregatorAgent(scan, analysis);
+    const longIssue = insights.issues.find((issue) => issue.signal === "longFunctions");
+    assert.deepEqual(
+      longIssue.evidence.map((item) => item.file),
+      ["src/new.ts"]
+    );
+  });
+});
+
+test("counts untracked files as changed unless only staged changes are requested", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(path.join(root, ".gitignore"), "ignored.ts\n");
+    await writeFile(path.join(root, "src/old.ts"), "export const old = 1;\n");
+    git(root, "init", "-q");
+    git(root, "add", "-A");
+    git(root, "commit", "-q", "-m", "initial");
+
+    await writeFile(path.join(root, "src/fresh.ts"), longFunction("freshFn"));
+    await writeFile(path.join(root, "ignored.ts"), longFunction("ignoredFn"));
+
+    const since = await runRepoScannerAgent({
+      path: root,
+      severity: "gentle",
+      focus: "general",
+      since: "HEAD",
+    });
+    assert.deepEqual(since.changedFiles, [
+      { path: "src/fresh.ts", ranges: [{ startLine: 1, endLine: 57 }] },
+    ]);
+
+    const staged = await runRepoScannerAgent({
+      path: root,
+      severity: "gentle",
+      focus: "general",
+      staged: true,
+    });
+    assert.deepEqual(staged.changedFiles, []);
+  });
+});
+
+test("reads changed paths regardless of the user's diff prefix settings", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(path.join(root, "src/old.ts"), "export const old = 1;\n");
+    git(root, "init", "-q");
+    git(root, "add", "-A");
+    git(root, "commit", "-q", "-m", "initial");
+    git(root, "config", "diff.noprefix", "true");
+
+    await writeFile(path.join(root, "src/old.ts"), "export const old = 2;\n");
+
+    const config = { path: root, severity: "gentle", focus: "general", since: "HEAD" };
+    const noPrefix = await runRepoScannerAgent(config);
+    assert.deepEqual(noPrefix.changedFiles, [
+      { path: "src/old.ts", ranges: [{ startLine: 1, endLine: 1 }] },
+    ]);
+
+    git(root, "config", "--unset", "diff.noprefix");
+    git(root, "config", "diff.mnemonicPrefix", "true");
+    const mnemonic = await runRepoScannerAgent(config);
+    assert.deepEqual(mnemonic.changedFiles, noPrefix.changedFiles);
+  });
+});
@@ -0,0 +1,107 @@
+const assert = require("node:assert/strict");
+const fs = require("node:fs/promises");
+const os = require("node:os");
+const path = require("node:path");
+const { test } = require("node:test");
+
+const { renderCliHelp, runCliAgent } = require("../dist/agents/cli-agent.js");
+
+async function withTempDir(callback) {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "coderoast-cli-"));
+  try {
+    await callback(root);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+async function writeJson(filePath, value) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(value, null, 2));
+}
+
+test("uses defaults when no config file exists", async () => {
+  await withTempDir(async (root) => {
+    const config = await runCliAgent(["--path", root]);
+    assert.equal(config.severity, "gentle");
+    assert.equal(config.focus, "general");
+    assert.equal(config.showDetails, false);
+    assert.equal(config.thresholds, undefined);
+  });
+});
+
+test("reads .coderoastrc with extends and lets flags override it", async () => {
+  await withTempDir(async (root) => {
+    await writeJson(path.join(root, "presets/team.json"), {
+      severity: "savage",
+      ignoreDirs: ["generated"],
+      thresholds: { longFunctionLoc: 40, maxLongFunctions: 2 },
+    });
+    await writeJson(path.join(root, ".coderoastrc"), {
+      extends: "./presets/team.json",
+      focus: "architecture",
+      showDetails: true,
+      ignoreDirs: ["fixtures"],
+      thresholds: { longFunctionLoc: 30 },
+    });
+
+    const config = await runCliAgent(["--path", root, "--severity=gentle", "--details=false"]);
+    assert.equal(config.severity, "gentle");
+    assert.equal(config.focus, "architecture");
+    assert.equal(config.showDetails, false);
+    assert.deepEqual(config.ignoreDirs, ["generated", "fixtures"]);
+    assert.deepEqual(config.thresholds, { longFunctionLoc: 30, maxLongFunctions: 2 });
+  });
+});
+
+test("rejects invalid config values", async () => {
+  await withTempDir(async (root) => {
+    await writeJson(path.join(root, "coderoast.config.json"), {
+      thresholds: { longFunctionLoc: -1 },
+    });
+    await assert.rejects(runCliAgent(["--path", root]), /thresholds\.longFunctionLoc/);
+
+    await writeJson(path.join(root, "coderoast.config.json"), { sevrity: "savage" });
+    await assert.rejects(runCliAgent(["--path", root]), /unknown option "sevrity"/);
+  });
+});
+
+test("parses subcommands and enables the matching stages", async () => {
+  await withTempDir(async (root) => {
+    const scan = await runCliAgent(["scan", "--path", root]);
+    assert.equal(scan.command, "scan");
+
+    const apply = await runCliAgent(["apply", "--path", root, "--fix-branch", "demo"]);
+    assert.equal(apply.command, "apply");
+    assert.equal(apply.enableFixes, true);
+    assert.equal(apply.applyFixes, true);
+    assert.equal(apply.fixBranch, "demo");
+
+    const report = await runCliAgent(["--path", root, "--fix"]);
+    assert.equal(report.command, "report");
+    assert.equal(report.enableFixes, true);
+    assert.equal(report.applyFixes, false);
+  });
+});
+
+test("rejects unknown flags, invalid values and misplaced options", async () => {
+  await assert.rejects(runCliAgent(["--bogus"]), /Unknown option --bogus/);
+  await assert.rejects(runCliAgent(["--severity", "brutal"]), /Invalid value for --severity/);
+  await assert.rejects(runCliAgent(["--fix-limit", "many"]), /expected an integer >= 0/);
+  await assert.rejects(runCliAgent(["--fix-limit", "1.5"]), /expected an integer >= 0/);
+  await assert.rejects(runCliAgent(["--concurrency", "-1"]), /expected an integer >= 1/);
+  await assert.rejects(runCliAgent(["--details-limit", "-3"]), /expected an integer >= 0/);
+  await assert.rejects(runCliAgent(["--max-file-size-mb", "-2"]), /expected a number >= 0/);
+  await assert.rejects(runCliAgent(["scan", "--focus", "style"]), /not supported by "scan"/);
+  await assert.rejects(runCliAgent(["roast", "extra"]), /Unexpected argument "extra"/);
+});
+
+test("renders help from the flag schema", async () => {
+  const config = await runCliAgent(["scan", "--help"]);
+  assert.equal(config.showHelp, true);
+  const help = renderCliHelp(config.command);
+  assert.match(help, /Usage: coderoast scan/);
+  assert.match(help, /--max-file-size-mb <mb>/);
+  assert.doesNotMatch(help, /--fix-branch/);
+  assert.match(renderCliHelp(), /analyze/);
+});
@@ -6,6 +6,7 @@ const { test } = require("node:test");
 
 const { runRepoScannerAgent } = require("../dist/agents/repo-scanner-agent.js");
 const { runCodeAnalysisAgent } = require("../dist/agents/code-analysis-agent.js");
+const { runInsightAggregatorAgent } = require("../dist/agents/insight-aggregator-agent.js");
 
 async function withTempDir(callback) {
   const root = await fs.mkdtemp(path.join(os.tmpdir(), "coderoast-"));
@@ -93,3 +94,1124 @@ test("analyzes ts/js files for core signals", async () => {
     assert.ok(analysis.signals.testPresence.testFiles.includes("src/__tests__/smoke.test.ts"));
   });
 });
+
+test("records parse errors as analysis diagnostics and marks the analysis partial", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(path.join(root, "src/ok.ts"), "export const ok = 1;\n");
+    await writeFile(path.join(root, "src/broken.ts"), "export const ok = 1;\nfunction (\n");
+
+    const config = createConfig(root);
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    assert.equal(analysis.diagnostics.length, 1);
+    assert.equal(analysis.diagnostics[0].code, "parse-error");
+    assert.equal(analysis.diagnostics[0].path, "src/broken.ts");
+    assert.equal(analysis.diagnostics[0].line, 2);
+    assert.equal(analysis.partial, true);
+    assert.equal(scan.partial, false);
+  });
+});
+
+test("measures cyclomatic complexity, cognitive complexity and nesting per function", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(
+      path.join(root, "src/route.ts"),
+      [
+        "export function route(kind: string, items: any[], flag: boolean) {",
+        "  let total = 0;",
+        "  for (const item of items) {",
+        "    if (item.active && item.ready) {",
+        "      switch (kind) {",
+        '        case "a":',
+        "          total += flag ? 1 : 2;",
+        "          break;",
+        '        case "b":',
+        "          total -= 1;",
+        "          break;",
+        "        default:",
+        "          total = 0;",
+        "      }",
+        "    } else if (item.skip) {",
+        "      continue;",
+        "    } else {",
+        "      total += 1;",
+        "    }",
+        "  }",
+        "  return total;",
+        "}",
+        "",
+        "export function outer(values: number[]) {",
+        "  return values.map((value) => (value > 0 ? value : 0));",
+        "}",
+        "",
+      ].join("\n")
+    );
+
+    const config = { ...createConfig(root), thresholds: { cyclomaticComplexity: 8 } };
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    const [route] = analysis.signals.complexFunctions;
+    assert.equal(analysis.signals.complexFunctions.length, 1);
+    assert.equal(route.name, "route");
+    assert.equal(route.cyclomatic, 8);
+    assert.equal(route.cognitive, 13);
+    assert.equal(route.maxNesting, 4);
+    assert.deepEqual(
+      analysis.signals.deeplyNestedFunctions.map((fn) => fn.name),
+      ["route"]
+    );
+    assert.equal(analysis.metrics.maxCyclomaticComplexity, 8);
+    assert.equal(analysis.metrics.maxCognitiveComplexity, 13);
+    assert.equal(analysis.metrics.maxNestingDepth, 4);
+    assert.equal(analysis.metrics.avgCyclomaticComplexity, 3.67);
+
+    const insights = runInsightAggregatorAgent(scan, analysis);
+    const complexity = insights.issues.find((issue) => issue.signal === "highComplexity");
+    assert.deepEqual(complexity.evidence[0].metrics, [
+      { type: "cyclomatic", value: 8 },
+      { type: "cognitive", value: 13 },
+      { type: "loc", value: 22 },
+    ]);
+    const nesting = insights.issues.find((issue) => issue.signal === "deepNesting");
+    assert.deepEqual(nesting.evidence[0].metrics, [
+      { type: "nesting", value: 4 },
+      { type: "loc", value: 22 },
+    ]);
+  });
+});
+
+test("reports import cycles of any length with every hop", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(path.join(root, "src/a.ts"), 'import { b } from "./b";\nexport const a = b;\n');
+    await writeFile(
+      path.join(root, "src/b.ts"),
+      '// b\nimport { c } from "./c";\nexport const b = c;\n'
+    );
+    await writeFile(path.join(root, "src/c.ts"), 'import { a } from "./a";\nexport const c = a;\n');
+    await writeFile(path.join(root, "src/x.ts"), 'import { y } from "./y";\nexport const x = 1;\n');
+    await writeFile(path.join(root, "src/y.ts"), 'import { x } from "./x";\nexport const y = 1;\n');
+
+    const config = createConfig(root);
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    const [loop, pair] = analysis.signals.circularDependencies;
+    assert.equal(analysis.signals.circularDependencies.length, 2);
+    assert.equal(loop.size, 3);
+    assert.deepEqual(loop.path, ["src/a.ts", "src/b.ts", "src/c.ts"]);
+    assert.deepEqual(loop.edges, [
+      { from: "src/a.ts", to: "src/b.ts", startLine: 1, endLine: 1 },
+      { from: "src/b.ts", to: "src/c.ts", startLine: 2, endLine: 2 },
+      { from: "src/c.ts", to: "src/a.ts", startLine: 1, endLine: 1 },
+    ]);
+    assert.equal(pair.size, 2);
+    assert.deepEqual(pair.files, ["src/x.ts", "src/y.ts"]);
+    assert.equal(analysis.dependencySummary.cycles, 2);
+
+    const insights = runInsightAggregatorAgent(scan, analysis);
+    const issue = insights.issues.find((item) => item.signal === "circularDependencies");
+    assert.deepEqual(
+      issue.evidence.map((item) => [item.file, item.startLine]),
+      [
+        ["src/a.ts", 1],
+        ["src/b.ts", 2],
+        ["src/c.ts", 1],
+        ["src/x.ts", 1],
+        ["src/y.ts", 1],
+      ]
+    );
+    assert.deepEqual(issue.evidence[0].metrics, [
+      { type: "cycleSize", value: 3 },
+      { type: "count", value: 3 },
+    ]);
+  });
+});
+
+test("reports the shortest loop of a tangle and ignores type-only imports", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(
+      path.join(root, "src/hub.ts"),
+      'import { p } from "./p";\nimport { q } from "./q";\nexport const hub = p + q;\n'
+    );
+    await writeFile(path.join(root, "src/p.ts"), 'import { hub } from "./hub";\nexport const p = 1;\n');
+    await writeFile(path.join(root, "src/q.ts"), 'import { r } from "./r";\nexport const q = r;\n');
+    await writeFile(path.join(root, "src/r.ts"), 'import { hub } from "./hub";\nexport const r = 1;\n');
+    await writeFile(
+      path.join(root, "src/model.ts"),
+      'import type { View } from "./view";\nexport type Model = { view?: View };\n'
+    );
+    await writeFile(
+      path.join(root, "src/view.ts"),
+      'import { type Model } from "./model";\nexport type { Model } from "./model";\nexport type View = { model: Model };\n'
+    );
+
+    const config = createConfig(root);
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    const [tangle] = analysis.signals.circularDependencies;
+    assert.equal(analysis.signals.circularDependencies.length, 1);
+    assert.equal(tangle.size, 4);
+    assert.deepEqual(tangle.files, ["src/hub.ts", "src/p.ts", "src/q.ts", "src/r.ts"]);
+    assert.deepEqual(tangle.path, ["src/hub.ts", "src/p.ts"]);
+    assert.deepEqual(tangle.edges, [
+      { from: "src/hub.ts", to: "src/p.ts", startLine: 1, endLine: 1 },
+      { from: "src/p.ts", to: "src/hub.ts", startLine: 1, endLine: 1 },
+    ]);
+  });
+});
+
+test("resolves tsconfig paths, baseUrl and package.json imports", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(
+      path.join(root, "tsconfig.base.json"),
+      JSON.stringify({ compilerOptions: { baseUrl: ".", paths: { "@/*": ["src/*"] } } })
+    );
+    await writeFile(
+      path.join(root, "tsconfig.json"),
+      '{\n  // comments are allowed\n  "extends": "./tsconfig.base.json"\n}\n'
+    );
+    await writeFile(
+      path.join(root, "package.json"),
+      JSON.stringify({ name: "app", imports: { "#internal/*": { default: "./src/internal/*.ts" } } })
+    );
+    await writeFile(
+      path.join(root, "src/lib/db.ts"),
+      'import { log } from "#internal/log";\nexport const db = log;\n'
+    );
+    await writeFile(
+      path.join(root, "src/internal/log.ts"),
+      'import { db } from "@/lib/db";\nexport const log = db;\n'
+    );
+    await writeFile(
+      path.join(root, "src/app.ts"),
+      [
+        'import { db } from "src/lib/db";',
+        'import { missing } from "@/lib/missing";',
+        'import { other } from "#other";',
+        'import react from "react";',
+        "export const app = [db, missing, other, react];",
+        "",
+      ].join("\n")
+    );
+
+    const config = createConfig(root);
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    assert.equal(analysis.dependencySummary.edges, 3);
+    const [cycle] = analysis.signals.circularDependencies;
+    assert.deepEqual(cycle.path, ["src/internal/log.ts", "src/lib/db.ts"]);
+    assert.deepEqual(
+      analysis.diagnostics
+        .filter((diagnostic) => diagnostic.code === "unresolved-import")
+        .map((diagnostic) => [diagnostic.path, diagnostic.line]),
+      [
+        ["src/app.ts", 2],
+        ["src/app.ts", 3],
+      ]
+    );
+  });
+});
+
+test("reports orphan modules and exports nothing imports", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(
+      path.join(root, "src/index.ts"),
+      'import { used } from "./lib";\nexport * from "./barrel";\nexport const main = used;\n'
+    );
+    await writeFile(
+      path.join(root, "src/lib.ts"),
+      "export const used = 1;\nexport function unused() {\n  return 2;\n}\nexport default 3;\n"
+    );
+    await writeFile(path.join(root, "src/barrel.ts"), 'export * from "./deep";\n');
+    await writeFile(path.join(root, "src/deep.ts"), "export const deep = 1;\n");
+    await writeFile(
+      path.join(root, "src/orphan.ts"),
+      'import { used } from "./lib";\nexport const orphan = used;\n'
+    );
+    await writeFile(
+      path.join(root, "src/__tests__/lib.test.ts"),
+      'import { used } from "../lib";\nexport const check = used;\n'
+    );
+    await writeFile(path.join(root, "scripts/seed.ts"), "export const seed = 1;\n");
+
+    const config = createConfig(root);
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    assert.deepEqual(analysis.signals.orphanModules, [
+      { file: "src/orphan.ts", startLine: 1, endLine: 2 },
+    ]);
+    assert.deepEqual(analysis.signals.unusedExports, [
+      { file: "src/lib.ts", name: "unused", startLine: 2, endLine: 4 },
+      { file: "src/lib.ts", name: "default", startLine: 5, endLine: 5 },
+    ]);
+
+    const insights = runInsightAggregatorAgent(scan, analysis);
+    const unused = insights.issues.find((issue) => issue.signal === "unusedExports");
+    assert.equal(unused.type, "deadCode");
+    assert.deepEqual(unused.evidence[0].metrics, [
+      { type: "symbol", value: "unused" },
+      { type: "loc", value: 3 },
+    ]);
+  });
+});
+
+test("reports unused CommonJS exports", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(
+      path.join(root, "src/index.js"),
+      [
+        'const { used } = require("./helpers");',
+        'const tool = require("./tools").tool;',
+        'require("./config");',
+        "module.exports = { run: () => used() + tool() };",
+        "",
+      ].join("\n")
+    );
+    await writeFile(
+      path.join(root, "src/helpers.js"),
+      "exports.used = () => 1;\nexports.unused = () => 2;\nmodule.exports.alsoUnused = 3;\n"
+    );
+    await writeFile(
+      path.join(root, "src/tools.js"),
+      "const tool = () => 1;\nconst spare = () => 2;\nmodule.exports = { tool, spare };\n"
+    );
+    await writeFile(path.join(root, "src/config.js"), "module.exports = { debug: false };\n");
+
+    const config = createConfig(root);
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    assert.deepEqual(analysis.signals.unusedExports, [
+      { file: "src/helpers.js", name: "unused", startLine: 2, endLine: 2 },
+      { file: "src/helpers.js", name: "alsoUnused", startLine: 3, endLine: 3 },
+      { file: "src/tools.js", name: "spare", startLine: 3, endLine: 3 },
+    ]);
+  });
+});
+
+test("reports any usage, unsafe casts and type coverage in type-check mode", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(
+      path.join(root, "src/unsafe.ts"),
+      [
+        "export function load(input: any, raw) {",
+        "  const value = input as any;",
+        "  const typed = raw as unknown as string;",
+        "  // @ts-ignore",
+        "  const length = typed!.length;",
+        "  return [value, length];",
+        "}",
+        "",
+      ].join("\n")
+    );
+    await writeFile(
+      path.join(root, "src/clean.ts"),
+      "export const total = (a: number, b: number): number => a + b;\n"
+    );
+
+    const config = { ...createConfig(root), typeCheck: true };
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    assert.deepEqual(
+      analysis.signals.typeFindings.map((finding) => [finding.kind, finding.startLine]),
+      [
+        ["explicitAny", 1],
+        ["implicitAny", 1],
+        ["anyCast", 2],
+        ["doubleCast", 3],
+        ["tsSuppression", 4],
+        ["nonNullAssertion", 5],
+      ]
+    );
+    const [clean, unsafe] = analysis.typeCoverage.files;
+    assert.equal(clean.file, "src/clean.ts");
+    assert.equal(clean.percent, 100);
+    assert.ok(unsafe.percent < 100);
+    assert.equal(analysis.typeCoverage.suppressions, 1);
+
+    const insights = runInsightAggregatorAgent(scan, analysis, { minTypeCoverage: 100 });
+    const unsafeTypes = insights.issues.find((issue) => issue.signal === "unsafeTypes");
+    assert.deepEqual(unsafeTypes.evidence[0].metrics, [
+      { type: "typeIssue", value: "explicitAny" },
+      { type: "count", value: 6 },
+    ]);
+    const coverage = insights.issues.find((issue) => issue.signal === "typeCoverage");
+    assert.deepEqual(
+      coverage.evidence.map((item) => item.file),
+      ["src/unsafe.ts"]
+    );
+
+    const plain = await runCodeAnalysisAgent(createConfig(root), scan);
+    assert.equal(plain.signals.typeFindings, undefined);
+    assert.equal(plain.typeCoverage, undefined);
+  });
+});
+
+test("flags dangerous APIs and hardcoded secrets as security issues", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(
+      path.join(root, "src/risky.ts"),
+      [
+        'import { execSync } from "node:child_process";',
+        'import crypto from "node:crypto";',
+        "export function run(branch: string, code: string) {",
+        "  execSync(`git checkout ${branch}`);",
+        '  execSync("git status");',
+        "  eval(code);",
+        '  const digest = crypto.createHash("md5").update(code).digest("hex");',
+        "  const sessionToken = Math.random().toString(36);",
+        "  const id = Math.random();",
+        "  return { digest, sessionToken, id, agent: { rejectUnauthorized: false } };",
+        "}",
+        "",
+      ].join("\n")
+    );
+    await writeFile(
+      path.join(root, ".env"),
+      ["NODE_ENV=production", `AWS_KEY=${"AKIA"}IOSFODNN7ABCDEFG`, "API_TOKEN=changeme", ""].join(
+        "\n"
+      )
+    );
+    await writeFile(
+      path.join(root, "src/config.ts"),
+      'export const apiKey = "q8Zr4Lw2Xv9Tn5Kp1Hs7";\n'
+    );
+    await writeFile(
+      path.join(root, "src/shell.ts"),
+      [
+        'import { exec, execSync } from "node:child_process";',
+        'const LIST = "ls " + "-la";',
+        "const STATUS = `git status`;",
+        "export function run(dir: string, cmd: string) {",
+        '  execSync("ls " + "-la");',
+        "  execSync(LIST);",
+        "  exec(`${STATUS} --short`);",
+        '  execSync("ls " + dir);',
+        "  exec(cmd);",
+        "}",
+        "",
+      ].join("\n")
+    );
+    await writeFile(path.join(root, "tests/fixture.test.ts"), "eval(input);\n");
+
+    const config = createConfig(root);
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    assert.deepEqual(
+      analysis.signals.securityFindings.map((finding) => [
+        finding.file,
+        finding.kind,
+        finding.rule,
+        finding.confidence,
+        finding.startLine,
+      ]),
+      [
+        ["src/config.ts", "hardcodedSecret", "high-entropy string", "medium", 1],
+        ["src/risky.ts", "shellInjection", "execSync", "high", 4],
+        ["src/risky.ts", "dynamicCode", "eval", "high", 6],
+        ["src/risky.ts", "weakCrypto", "md5", "medium", 7],
+        ["src/risky.ts", "weakCrypto", "Math.random", "medium", 8],
+        ["src/risky.ts", "insecureTls", "rejectUnauthorized: false", "high", 10],
+        ["src/shell.ts", "shellInjection", "execSync", "high", 8],
+        ["src/shell.ts", "shellInjection", "exec", "low", 9],
+        [".env", "hardcodedSecret", "AWS access key ID", "high", 2],
+      ]
+    );
+
+    const insights = runInsightAggregatorAgent(scan, analysis);
+    const security = insights.issues.filter((issue) => issue.type === "security");
+    assert.deepEqual(
+      security.map((issue) => [issue.signal, issue.confidence]),
+      [
+        ["hardcodedSecret", "high"],
+        ["shellInjection", "high"],
+        ["dynamicCode", "high"],
+        ["insecureTls", "high"],
+        ["weakCrypto", "medium"],
+      ]
+    );
+    assert.deepEqual(security[0].evidence[0], {
+      file: ".env",
+      startLine: 2,
+      endLine: 2,
+      metrics: [
+        { type: "rule", value: "AWS access key ID" },
+        { type: "count", value: 2 },
+      ],
+    });
+  });
+});
+
+test("tracks untrusted input from sources to sinks across modules", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(
+      path.join(root, "src/cli.ts"),
+      [
+        'import { checkout } from "./git";',
+        "const branch = process.argv[2];",
+        "checkout(`origin/${branch}`);",
+        "export function handler(req: Request, db: Database) {",
+        "  const id = req.query.id;",
+        "  db.query(`SELECT * FROM users WHERE id = ${id}`);",
+        "  db.query(`SELECT * FROM users WHERE id = ${Number(id)}`);",
+        "}",
+        "",
+      ].join("\n")
+    );
+    await writeFile(
+      path.join(root, "src/git.ts"),
+      [
+        'import { execSync } from "node:child_process";',
+        "export function checkout(ref: string) {",
+        '  const command = "git checkout " + ref;',
+        "  execSync(command);",
+        "}",
+        "",
+      ].join("\n")
+    );
+
+    const config = createConfig(root);
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    assert.deepEqual(
+      analysis.signals.taintFlows.map((flow) => [
+        flow.source,
+        flow.sink,
+        flow.steps.map((step) => `${step.kind}:${step.name}@${step.file}:${step.startLine}`),
+      ]),
+      [
+        [
+          "req.query",
+          "SQL query",
+          [
+            "source:req.query@src/cli.ts:5",
+            "assign:id@src/cli.ts:5",
+            "sink:SQL query@src/cli.ts:6",
+          ],
+        ],
+        [
+          "process.argv",
+          "execSync",
+          [
+            "source:process.argv@src/cli.ts:2",
+            "assign:branch@src/cli.ts:2",
+            "call:checkout@src/cli.ts:3",
+            "param:ref@src/git.ts:2",
+            "assign:command@src/git.ts:3",
+            "sink:execSync@src/git.ts:4",
+          ],
+        ],
+      ]
+    );
+
+    const insights = runInsightAggregatorAgent(scan, analysis);
+    const tainted = insights.issues.find((issue) => issue.signal === "taintedFlows");
+    assert.equal(tainted.type, "security");
+    assert.equal(tainted.evidence[0].file, "src/cli.ts");
+    assert.deepEqual(tainted.evidence[5].metrics, [
+      { type: "flowStep", value: "sink" },
+      { type: "symbol", value: "execSync" },
+      { type: "count", value: 6 },
+    ]);
+  });
+});
+
+test("flags async and I/O performance anti-patterns", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(
+      path.join(root, "src/slow.ts"),
+      [
+        'import fs from "node:fs";',
+        "export async function load(ids: string[], fetchOne: (id: string) => Promise<string>) {",
+        "  const results: string[] = [];",
+        "  for (const id of ids) {",
+        "    results.push(await fetchOne(id));",
+        "  }",
+        "  for (const id of ids) {",
+        "    if (await fetchOne(id)) return id;",
+        "  }",
+        '  const config = fs.readFileSync("config.json", "utf8");',
+        "  const copy = JSON.parse(JSON.stringify(results));",
+        "  const unique: string[] = [];",
+        "  ids.forEach((id) => {",
+        '    const pattern = new RegExp("^[a-z]+$");',
+        "    if (pattern.test(id) && !unique.includes(id)) unique.push(id);",
+        "  });",
+        "  return Promise.all(ids.map((id) => fetchOne(id + config + copy)));",
+        "}",
+        "",
+      ].join("\n")
+    );
+
+    const config = createConfig(root);
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    assert.deepEqual(
+      analysis.signals.performanceFindings.map((finding) => [
+        finding.kind,
+        finding.rule,
+        finding.startLine,
+      ]),
+      [
+        ["awaitInLoop", "await in loop", 5],
+        ["syncIoInAsync", "fs.readFileSync", 10],
+        ["jsonClone", "JSON.parse(JSON.stringify())", 11],
+        ["regexInLoop", "new RegExp", 14],
+        ["nestedIncludes", "unique.includes", 15],
+        ["unboundedPromiseAll", "Promise.all(ids.map)", 17],
+      ]
+    );
+
+    const insights = runInsightAggregatorAgent(scan, analysis);
+    const performance = insights.issues.filter((issue) => issue.type === "performance");
+    assert.deepEqual(
+      performance.map((issue) => [issue.signal, issue.confidence]),
+      [
+        ["syncIoInAsync", "high"],
+        ["awaitInLoop", "medium"],
+        ["nestedIncludes", "medium"],
+        ["regexInLoop", "medium"],
+        ["jsonClone", "medium"],
+        ["unboundedPromiseAll", "low"],
+      ]
+    );
+  });
+});
+
+test("reports naming, magic literal, parameter and size style issues", async () => {
+  await withTempDir(async (root) => {
+    const helpers = ["alpha", "beta", "gamma", "delta"]
+      .map((name) => `export function ${name}Helper() {\n  return "retry-later";\n}`)
+      .join("\n");
+    await writeFile(path.join(root, "src/helpers.ts"), `${helpers}\nexport function load_user() {}\n`);
+    await writeFile(
+      path.join(root, "src/a.ts"),
+      'export const a = (status: string) => status === "retry-later";\n'
+    );
+    await writeFile(path.join(root, "src/b.ts"), 'export const b = () => "retry-later";\n');
+    for (const index of [1, 2, 3]) {
+      await writeFile(
+        path.join(root, `src/tags${index}.ts`),
+        `export const tags${index} = () => ["alpha-one", "beta-two", "gamma-three", "delta-four", 42, 7];\n`
+      );
+    }
+    await writeFile(
+      path.join(root, "src/names.ts"),
+      [
+        "export const MAX_RETRIES = 5;",
+        "export const retryLabel = \"retry\";",
+        "export const IGNORED = new Set([\"tmp\"]);",
+        "export const cache = new Map();",
+        "export function Widget(this: { id: number }) {",
+        "  this.id = MAX_RETRIES;",
+        "}",
+        "export const Panel = class {};",
+        "export const widget = new Widget();",
+        "",
+      ].join("\n")
+    );
+    await writeFile(
+      path.join(root, "src/report.ts"),
+      [
+        "export class Report {",
+        "  one() {}",
+        "  two() {}",
+        "  three() {}",
+        "}",
+        "export function render(a: number, b: number, c: number, d: number, e: number) {",
+        "  return a + b + c + d + e;",
+        "}",
+        "export function print(text: string, verbose = false) {",
+        "  return verbose ? text : text.trim();",
+        "}",
+        "",
+      ].join("\n")
+    );
+
+    const config = {
+      ...createConfig(root),
+      thresholds: { maxClassMembers: 2, maxFileLines: 10 },
+    };
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    const findings = (kind) =>
+      analysis.signals.styleFindings
+        .filter((finding) => finding.kind === kind)
+        .map((finding) => [finding.file, finding.rule, finding.value]);
+    assert.deepEqual(findings("namingConvention"), [
+      ["src/helpers.ts", "function load_user is snake_case; most use camelCase", 11],
+    ]);
+    assert.deepEqual(findings("magicLiteral"), [
+      ["src/a.ts", '"retry-later"', 3],
+      ["src/b.ts", '"retry-later"', 3],
+      ["src/helpers.ts", '"retry-later"', 3],
+      ...[1, 2, 3].flatMap((index) =>
+        ['"alpha-one"', '"beta-two"', '"gamma-three"'].map((value) => [
+          `src/tags${index}.ts`,
+          value,
+          3,
+        ])
+      ),
+    ]);
+    assert.deepEqual(findings("longParameterList"), [["src/report.ts", "render", 5]]);
+    assert.deepEqual(findings("flagParameter"), [["src/report.ts", "print(verbose)", 2]]);
+    assert.deepEqual(findings("largeClass"), [["src/report.ts", "Report", 3]]);
+    assert.deepEqual(findings("largeFile"), [
+      ["src/helpers.ts", "13 lines of code", 13],
+      ["src/report.ts", "11 lines of code", 11],
+    ]);
+
+    const insights = runInsightAggregatorAgent(scan, analysis);
+    const largeFile = insights.issues.find((issue) => issue.signal === "largeFile");
+    assert.equal(largeFile.type, "style");
+    assert.deepEqual(largeFile.evidence[0].metrics, [
+      { type: "rule", value: "13 lines of code" },
+      { type: "loc", value: 13 },
+    ]);
+  });
+});
+
+test("detects renamed clones and near-duplicate functions across files", async () => {
+  await withTempDir(async (root) => {
+    const totals = (prefix, extra = "") =>
+      [
+        `export function ${prefix}Totals(${prefix}Rows: number[], ${prefix}Rate: number) {`,
+        `  let ${prefix}Sum = 0;`,
+        `  let ${prefix}Count = 0;`,
+        `  for (const ${prefix}Row of ${prefix}Rows) {`,
+        `    if (${prefix}Row > 0) {`,
+        `      ${prefix}Sum += ${prefix}Row * ${prefix}Rate;`,
+        `      ${prefix}Count += 1;`,
+        "    }",
+        "  }",
+        `  const ${prefix}Average = ${prefix}Count > 0 ? ${prefix}Sum / ${prefix}Count : 0;`,
+        extra,
+        `  return { sum: ${prefix}Sum, count: ${prefix}Count, average: ${prefix}Average };`,
+        "}",
+        "",
+      ].join("\n");
+    await writeFile(path.join(root, "src/orders.ts"), totals("order"));
+    await writeFile(path.join(root, "src/invoices.ts"), totals("invoice"));
+    await writeFile(
+      path.join(root, "src/refunds.ts"),
+      totals("refund", '  console.log("refund totals", refundSum);')
+    );
+
+    const config = {
+      ...createConfig(root),
+      thresholds: { duplicateMinLines: 12, duplicateMinTokens: 60 },
+    };
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    const [block] = analysis.signals.duplicateBlocks;
+    assert.equal(analysis.signals.duplicateBlocks.length, 1);
+    assert.deepEqual(block.occurrences, [
+      { file: "src/invoices.ts", startLine: 1, endLine: 13 },
+      { file: "src/orders.ts", startLine: 1, endLine: 13 },
+    ]);
+    assert.ok(block.similarity < 100);
+
+    const [near] = analysis.signals.nearDuplicateFunctions;
+    assert.equal(analysis.signals.nearDuplicateFunctions.length, 1);
+    assert.deepEqual(
+      near.occurrences.map((occurrence) => occurrence.file),
+      ["src/invoices.ts", "src/orders.ts", "src/refunds.ts"]
+    );
+    assert.ok(near.similarity >= 80 && near.similarity < 100);
+
+    const insights = runInsightAggregatorAgent(scan, analysis);
+    const issue = insights.issues.find((entry) => entry.signal === "nearDuplicateFunctions");
+    assert.equal(issue.type, "duplication");
+    assert.ok(
+      issue.evidence[0].metrics.some(
+        (metric) => metric.type === "similarity" && metric.value === near.similarity
+      )
+    );
+  });
+});
+
+test("reports empty catches, swallowed rejections, lost errors and floating promises", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(
+      path.join(root, "src/jobs.ts"),
+      [
+        "async function sync(id: string) {",
+        "  return id;",
+        "}",
+        "export function run(ids: string[]) {",
+        "  sync(ids[0]);",
+        "  void sync(ids[1]);",
+        "  fetch(ids[2]).catch(() => undefined);",
+        "  fetch(ids[3]).catch((error) => console.error(error));",
+        "  try {",
+        "    JSON.parse(ids[4]);",
+        "  } catch {}",
+        "  try {",
+        "    JSON.parse(ids[5]);",
+        "  } catch (error) {",
+        '    throw new Error("bad id");',
+        "  }",
+        "  try {",
+        "    return JSON.parse(ids[6]);",
+        "  } catch {",
+        "    return null;",
+        "  }",
+        "}",
+        "export function fail() {",
+        '  throw "failed";',
+        "}",
+        "",
+      ].join("\n")
+    );
+    await writeFile(
+      path.join(root, "tests/jobs.test.ts"),
+      "try {\n  run([]);\n} catch {}\n"
+    );
+
+    const config = createConfig(root);
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    assert.deepEqual(
+      analysis.signals.errorHandlingFindings.map((finding) => [
+        finding.kind,
+        finding.startLine,
+        finding.rule,
+      ]),
+      [
+        ["floatingPromise", 5, "sync()"],
+        ["swallowedRejection", 7, ".catch(() => undefined)"],
+        ["emptyCatch", 11, "catch {}"],
+        ["lostError", 14, "catch (error) rethrows without the original error"],
+        ["discardedError", 19, "catch ignores the error"],
+        ["throwLiteral", 24, "throw string"],
+      ]
+    );
+    assert.equal(analysis.metrics.errorHandlingFindings, 6);
+
+    const insights = runInsightAggregatorAgent(scan, analysis);
+    const emptyCatch = insights.issues.find((issue) => issue.signal === "emptyCatch");
+    assert.equal(emptyCatch.type, "errorHandling");
+    assert.deepEqual(emptyCatch.evidence, [
+      {
+        file: "src/jobs.ts",
+        startLine: 11,
+        endLine: 11,
+        metrics: [
+          { type: "rule", value: "catch {}" },
+          { type: "count", value: 1 },
+        ],
+      },
+    ]);
+  });
+});
+
+test("analyzes python modules for functions, import cycles, duplicates and tests", async () => {
+  await withTempDir(async (root) => {
+    const summarize = (prefix) =>
+      [
+        `def summarize_${prefix}(rows, rate, strict: bool = False):`,
+        "    total = 0",
+        "    count = 0",
+        "    for row in rows:",
+        "        if row > 0 and not strict:",
+        "            total += row * rate",
+        "            count += 1",
+        "    average = total / count if count else 0",
+        '    return {"total": total, "count": count, "average": average}',
+        "",
+      ].join("\n");
+    await writeFile(path.join(root, "app/__init__.py"), "");
+    await writeFile(
+      path.join(root, "app/orders.py"),
+      `from .invoices import summarize_invoices\n\n\n${summarize("orders")}`
+    );
+    await writeFile(
+      path.join(root, "app/invoices.py"),
+      `from . import orders\n\n\n${summarize("invoices")}`
+    );
+    await writeFile(
+      path.join(root, "tests/test_orders.py"),
+      "from app.orders import summarize_orders\n\n\ndef test_empty():\n    assert summarize_orders([], 1)\n"
+    );
+
+    const config = {
+      ...createConfig(root),
+      thresholds: { longFunctionLoc: 8, duplicateMinLines: 6, duplicateMinTokens: 40 },
+    };
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    const orders = analysis.signals.longFunctions.find((fn) => fn.file === "app/orders.py");
+    assert.deepEqual(
+      { name: orders.name, startLine: orders.startLine, endLine: orders.endLine },
+      { name: "summarize_orders", startLine: 4, endLine: 12 }
+    );
+    assert.equal(orders.cyclomatic, 5);
+    assert.equal(orders.parameters, 3);
+    assert.deepEqual(orders.flagParameters, ["strict"]);
+
+    const [cycle] = analysis.signals.circularDependencies;
+    assert.equal(analysis.signals.circularDependencies.length, 1);
+    assert.deepEqual(cycle.path, ["app/invoices.py", "app/orders.py"]);
+
+    const [block] = analysis.signals.duplicateBlocks;
+    assert.equal(analysis.signals.duplicateBlocks.length, 1);
+    assert.deepEqual(
+      block.occurrences.map((occurrence) => occurrence.file),
+      ["app/invoices.py", "app/orders.py"]
+    );
+
+    assert.deepEqual(analysis.signals.testPresence.testFiles, ["tests/test_orders.py"]);
+    assert.deepEqual(analysis.signals.orphanModules, []);
+    assert.deepEqual(analysis.diagnostics, []);
+  });
+});
+
+test("resolves python submodules imported from packages before names defined in them", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(path.join(root, "app/__init__.py"), "from .helpers import slugify\n");
+    await writeFile(path.join(root, "app/helpers.py"), "def slugify(text):\n    return text\n");
+    await writeFile(
+      path.join(root, "app/orders.py"),
+      "from app import billing, slugify\n\n\ndef place():\n    return billing\n"
+    );
+    await writeFile(path.join(root, "app/billing.py"), "from app import orders\n");
+    await writeFile(
+      path.join(root, "app/reports.py"),
+      "from .pkg import mod\n\n\ndef build():\n    return mod\n"
+    );
+    await writeFile(path.join(root, "app/pkg/__init__.py"), "");
+    await writeFile(path.join(root, "app/pkg/mod.py"), "from app.reports import build\n");
+
+    const config = createConfig(root);
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    assert.deepEqual(
+      analysis.signals.circularDependencies.map((cycle) => cycle.path),
+      [
+        ["app/billing.py", "app/orders.py"],
+        ["app/pkg/mod.py", "app/reports.py"],
+      ]
+    );
+    assert.deepEqual(analysis.diagnostics, []);
+  });
+});
+
+test("analyzes go packages for functions, package cycles and tests", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(path.join(root, "go.mod"), "module example.com/shop\n\ngo 1.22\n");
+    await writeFile(
+      path.join(root, "internal/orders/orders.go"),
+      [
+        "package orders",
+        "",
+        'import "example.com/shop/internal/billing"',
+        "",
+        "type Order struct {",
+        "\tAmount int",
+        "}",
+        "",
+        "func Total(items []Order, strict, verbose bool) int {",
+        "\ttotal := 0",
+        "\tfor _, item := range items {",
+        "\t\tif item.Amount > 0 && strict {",
+        "\t\t\ttotal += billing.Tax(item.Amount)",
+        "\t\t} else if verbose {",
+        "\t\t\ttotal--",
+        "\t\t}",
+        "\t}",
+        "\treturn total",
+        "}",
+        "",
+        "func (o *Order) Describe() interface{} {",
+        "\treturn o.Amount",
+        "}",
+        "",
+      ].join("\n")
+    );
+    await writeFile(
+      path.join(root, "internal/billing/tax.go"),
+      [
+        "package billing",
+        "",
+        "func Tax(amount int) int { return amount / 10 }",
+        "",
+        "func Sign(n int) int { if n > 0 { return 1 }; return 0 }",
+        "",
+        "func Sum() int {",
+        "\ttotal := 0",
+        "\tfor _, value := range []int{1, 2} {",
+        "\t\ttotal += value",
+        "\t}",
+        "\treturn total",
+        "}",
+        "",
+      ].join("\n")
+    );
+    await writeFile(
+      path.join(root, "internal/billing/invoice.go"),
+      [
+        "package billing",
+        "",
+        "import (",
+        '\t"fmt"',
+        "",
+        '\t"example.com/shop/internal/orders"',
+        ")",
+        "",
+        "func Invoice(o orders.Order) string {",
+        '\treturn fmt.Sprint(o.Amount)',
+        "}",
+        "",
+      ].join("\n")
+    );
+    await writeFile(
+      path.join(root, "internal/orders/orders_test.go"),
+      'package orders\n\nimport "testing"\n\nfunc TestTotal(t *testing.T) {}\n'
+    );
+
+    const config = { ...createConfig(root), thresholds: { longFunctionLoc: 10, nestingDepth: 1 } };
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    const [total] = analysis.signals.longFunctions;
+    assert.equal(analysis.signals.longFunctions.length, 1);
+    assert.deepEqual(
+      { name: total.name, file: total.file, startLine: total.startLine, endLine: total.endLine },
+      { name: "Total", file: "internal/orders/orders.go", startLine: 9, endLine: 19 }
+    );
+    assert.equal(total.cyclomatic, 5);
+    assert.equal(total.cognitive, 5);
+    assert.equal(total.maxNesting, 2);
+    assert.deepEqual(total.flagParameters, ["strict", "verbose"]);
+    assert.deepEqual(
+      analysis.signals.deeplyNestedFunctions.map((fn) => [fn.name, fn.maxNesting]),
+      [
+        ["Sign", 1],
+        ["Sum", 1],
+        ["Total", 2],
+      ]
+    );
+
+    const [cycle] = analysis.signals.circularDependencies;
+    assert.equal(analysis.signals.circularDependencies.length, 1);
+    assert.deepEqual(cycle.edges, [
+      {
+        from: "internal/billing/invoice.go",
+        to: "internal/orders/orders.go",
+        startLine: 6,
+        endLine: 6,
+      },
+      {
+        from: "internal/orders/orders.go",
+        to: "internal/billing/invoice.go",
+        startLine: 3,
+        endLine: 3,
+      },
+    ]);
+
+    assert.deepEqual(analysis.signals.testPresence.testFiles, ["internal/orders/orders_test.go"]);
+    assert.equal(analysis.metrics.totalFunctions, 7);
+    assert.deepEqual(analysis.diagnostics, []);
+  });
+});
+
+test("skips generated files unless includeGenerated is set", async () => {
+  await withTempDir(async (root) => {
+    const longLines = Array.from({ length: 55 }, (_, i) => `  const line${i} = ${i};`).join("\n");
+    await writeFile(
+      path.join(root, "src/client.generated.ts"),
+      `export function generated() {\n${longLines}\n}\n`
+    );
+    await writeFile(path.join(root, "src/index.ts"), "export const value = 1;\n");
+
+    const config = createConfig(root);
+    const scan = await runRepoScannerAgent(config);
+    const skipped = await runCodeAnalysisAgent(config, scan);
+    assert.equal(skipped.signals.longFunctions.length, 0);
+
+    const included = await runCodeAnalysisAgent({ ...config, includeGenerated: true }, scan);
+    assert.equal(included.signals.longFunctions.length, 1);
+    assert.equal(included.signals.longFunctions[0].file, "src/client.generated.ts");
+  });
+});
+
+test("stores parse results in the on-disk cache unless disabled", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(path.join(root, "src/a.ts"), "export function a() {\n  return 1;\n}\n");
+    await writeFile(path.join(root, "src/b.ts"), 'import { a } from "./a";\nexport const b = a();\n');
+
+    const config = createConfig(root);
+    const scan = await runRepoScannerAgent(config);
+    const uncached = await runCodeAnalysisAgent({ ...config, cache: false }, scan);
+    await assert.rejects(fs.stat(path.join(root, ".coderoast")));
+
+    const first = await runCodeAnalysisAgent(config, scan);
+    const second = await runCodeAnalysisAgent(config, scan);
+    assert.deepEqual(first, uncached);
+    assert.deepEqual(second, uncached);
+
+    const cacheRoot = path.join(root, ".coderoast");
+    assert.equal(await fs.readFile(path.join(cacheRoot, ".gitignore"), "utf8"), "*\n");
+    const countEntries = async () => {
+      const entries = await fs.readdir(path.join(cacheRoot, "cache"), { recursive: true });
+      return entries.filter((entry) => entry.endsWith(".json")).length;
+    };
+    assert.equal(await countEntries(), 2);
+
+    await writeFile(path.join(cacheRoot, "cache/v0.0.0-old/parse/ab/ab.json"), "{}");
+    await writeFile(path.join(root, "src/b.ts"), 'import { a } from "./a";\nexport const b = a() + 1;\n');
+    await runCodeAnalysisAgent(config, scan);
+    assert.equal((await fs.readdir(path.join(cacheRoot, "cache"))).length, 1);
+    assert.equal(await countEntries(), 2);
+
+    const rescan = await runRepoScannerAgent(config);
+    assert.ok(rescan.files.every((file) => !file.path.startsWith(".coderoast/")));
+  });
+});
+
+test("produces identical results with parallel scanning and worker parsing", async () => {
+  await withTempDir(async (root) => {
+    const shared = Array.from({ length: 12 }, (_, i) => `  const shared${i} = ${i};`).join("\n");
+    for (let index = 0; index < 40; index += 1) {
+      const next = (index + 1) % 40;
+      await writeFile(
+        path.join(root, `src/module-${index}.ts`),
+        [
+          `import { fn${next} } from "./module-${next}";`,
+          `export function fn${index}() {`,
+          shared,
+          `  return fn${next};`,
+          "}",
+          "",
+        ].join("\n")
+      );
+    }
+    await writeFile(path.join(root, "src/broken.ts"), "export const = ;\n");
+
+    const serialConfig = { ...createConfig(root), cache: false, concurrency: 1 };
+    const parallelConfig = { ...createConfig(root), cache: false, concurrency: 3 };
+    const serialScan = await runRepoScannerAgent(serialConfig);
+    const parallelScan = await runRepoScannerAgent(parallelConfig);
+    assert.deepEqual(parallelScan, serialScan);
+
+    const serial = await runCodeAnalysisAgent(serialConfig, serialScan);
+    const parallel = await runCodeAnalysisAgent(parallelConfig, parallelScan);
+    assert.deepEqual(parallel, serial);
+    assert.equal(serial.metrics.totalFunctions, 40);
+    assert.equal(serial.diagnostics[0].code, "parse-error");
+  });
+});
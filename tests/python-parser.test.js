@@ -0,0 +1,64 @@
+const assert = require("node:assert/strict");
+const { test } = require("node:test");
+const { parsePythonFile } = require("../dist/agents/python-parser.js");
+
+function parseFunction(lines) {
+  const [fn] = parsePythonFile(lines.join("\n")).functions;
+  return { cyclomatic: fn.cyclomatic, cognitive: fn.cognitive, maxNesting: fn.maxNesting };
+}
+
+test("treats match and case as plain names outside match statements", () => {
+  const score = parseFunction([
+    "def find(pattern, text):",
+    "    match = re.match(pattern, text)",
+    "    case = match.group(1)",
+    "    match.start()",
+    "    return case",
+  ]);
+
+  assert.deepEqual(score, { cyclomatic: 1, cognitive: 0, maxNesting: 0 });
+});
+
+test("scores match statements and their case clauses", () => {
+  const score = parseFunction([
+    "def describe(command):",
+    "    match command:",
+    '        case "go":',
+    "            return 1",
+    '        case "stop": return 2',
+    "        case _:",
+    "            return 0",
+  ]);
+
+  assert.deepEqual(score, { cyclomatic: 4, cognitive: 1, maxNesting: 1 });
+});
+
+test("counts else only when it closes an if chain", () => {
+  const loopElse = parseFunction([
+    "def first(items):",
+    "    for item in items:",
+    "        return item",
+    "    else:",
+    "        return None",
+  ]);
+  const tryElse = parseFunction([
+    "def load(path):",
+    "    try:",
+    "        handle = open(path)",
+    "    except OSError:",
+    "        return None",
+    "    else:",
+    "        return handle",
+  ]);
+  const ifElse = parseFunction([
+    "def sign(value):",
+    "    if value > 0:",
+    "        return 1",
+    "    else:",
+    "        return 0",
+  ]);
+
+  assert.deepEqual(loopElse, { cyclomatic: 2, cognitive: 1, maxNesting: 1 });
+  assert.deepEqual(tryElse, { cyclomatic: 2, cognitive: 1, maxNesting: 1 });
+  assert.deepEqual(ifElse, { cyclomatic: 2, cognitive: 2, maxNesting: 1 });
+});
@@ -5,6 +5,7 @@ const path = require("node:path");
 const { test } = require("node:test");
 
 const { runRepoScannerAgent } = require("../dist/agents/repo-scanner-agent.js");
+const { runOutputFormatterAgent } = require("../dist/agents/output-formatter-agent.js");
 
 async function withTempDir(callback) {
   const root = await fs.mkdtemp(path.join(os.tmpdir(), "coderoast-"));
@@ -76,6 +77,150 @@ test("detects entry points and project files", async () => {
   });
 });
 
+test("derives entry points from manifests and framework conventions", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(
+      path.join(root, "package.json"),
+      JSON.stringify({
+        module: "lib/index.mjs",
+        types: "lib/index.d.ts",
+        exports: {
+          ".": { import: "./lib/index.mjs" },
+          "./cli": "./lib/cli.js",
+          "./*": "./lib/*.js",
+        },
+        dependencies: { next: "14.0.0", express: "4.0.0" },
+      })
+    );
+    await writeFile(path.join(root, "lib/index.mjs"), "");
+    await writeFile(path.join(root, "lib/index.d.ts"), "");
+    await writeFile(path.join(root, "lib/cli.js"), "");
+    await writeFile(path.join(root, "tsconfig.json"), '{ "files": ["scripts/setup.ts"] }');
+    await writeFile(path.join(root, "scripts/setup.ts"), "");
+    await writeFile(path.join(root, "pages/about.tsx"), "");
+    await writeFile(path.join(root, "app/blog/page.tsx"), "");
+    await writeFile(path.join(root, "app/blog/card.tsx"), "");
+    await writeFile(
+      path.join(root, "api/listen.ts"),
+      'import express from "express";\nexpress().listen(3000);\n'
+    );
+    await writeFile(
+      path.join(root, "pyproject.toml"),
+      '[project]\ndependencies = ["fastapi>=0.1"]\n\n[project.scripts]\ntool = "tool.cli:main"\n'
+    );
+    await writeFile(path.join(root, "tool/cli.py"), "");
+    await writeFile(path.join(root, "tool/__main__.py"), "");
+    await writeFile(
+      path.join(root, "go.mod"),
+      "module example\n\nrequire github.com/gin-gonic/gin v1.9.0\n"
+    );
+    await writeFile(path.join(root, "cmd/api/main.go"), "package main\n\nfunc main() {}\n");
+    await writeFile(path.join(root, "cmd/api/util.go"), "package main\n");
+    await writeFile(
+      path.join(root, "Cargo.toml"),
+      [
+        "[package]",
+        'name = "x"',
+        "[[bin]]",
+        'name = "worker"',
+        'path = "tools/worker.rs"',
+        "[dependencies]",
+        'axum = "0.7"',
+      ].join("\n")
+    );
+    await writeFile(path.join(root, "tools/worker.rs"), "fn main() {}\n");
+
+    const result = await runRepoScannerAgent(createConfig(root));
+    assert.deepEqual(result.entryPoints, [
+      "api/listen.ts",
+      "app/blog/page.tsx",
+      "cmd/api/main.go",
+      "lib/cli.js",
+      "lib/index.d.ts",
+      "lib/index.mjs",
+      "pages/about.tsx",
+      "scripts/setup.ts",
+      "tool/__main__.py",
+      "tool/cli.py",
+      "tools/worker.rs",
+    ]);
+    assert.deepEqual(
+      result.frameworks.map((framework) => `${framework.name}@${framework.manifest}`).sort(),
+      [
+        "axum@Cargo.toml",
+        "express@package.json",
+        "fastapi@pyproject.toml",
+        "gin@go.mod",
+        "next@package.json",
+      ]
+    );
+    assert.ok(result.projectFiles.includes("Cargo.toml"));
+  });
+});
+
+test("counts code, comment, and blank lines per file and language", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(
+      path.join(root, "src/index.ts"),
+      [
+        "// header",
+        "/* block",
+        "   still comment */",
+        "",
+        "const url = \"http://example.com\"; // trailing",
+        "/* inline */ export const value = 1;",
+        "",
+      ].join("\n")
+    );
+    await writeFile(path.join(root, "tool.py"), "# comment\n\nprint('hi')\n");
+    await writeFile(path.join(root, "notes.foo"), "text\n");
+
+    const result = await runRepoScannerAgent(createConfig(root));
+    const tsFile = result.files.find((file) => file.path === "src/index.ts");
+    assert.deepEqual(tsFile.lines, { code: 2, comment: 3, blank: 1 });
+    assert.equal(result.files.find((file) => file.path === "notes.foo").lines, undefined);
+    assert.deepEqual(result.lineCounts.byLanguage, {
+      py: { code: 1, comment: 1, blank: 1 },
+      ts: { code: 2, comment: 3, blank: 1 },
+    });
+    assert.deepEqual(result.lineCounts.total, { code: 3, comment: 4, blank: 2 });
+  });
+});
+
+test("tags generated, minified, and vendored files", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(
+      path.join(root, ".gitattributes"),
+      "api/client/** linguist-generated\nsrc/legacy/vendor/** -linguist-vendored\n"
+    );
+    await writeFile(path.join(root, "src/index.ts"), "export const value = 1;\n");
+    await writeFile(path.join(root, "public/bundle.min.js"), "var a=1;\n");
+    await writeFile(path.join(root, "public/app.js"), `${"var a=1;".repeat(300)}\n`);
+    await writeFile(path.join(root, "dist-web/app.js"), "var a = 1;\n//# sourceMappingURL=app.js.map\n");
+    await writeFile(path.join(root, "src/schema.ts"), "// Code generated by gqlgen. DO NOT EDIT.\n");
+    await writeFile(path.join(root, "proto/user.pb.go"), "package proto\n");
+    await writeFile(path.join(root, "api/client/index.ts"), "export {};\n");
+    await writeFile(path.join(root, "vendor/lib/index.js"), "module.exports = {};\n");
+    await writeFile(path.join(root, "src/legacy/vendor/patched.js"), "module.exports = {};\n");
+
+    const result = await runRepoScannerAgent(createConfig(root));
+    const classifications = Object.fromEntries(
+      result.files
+        .filter((file) => file.classification)
+        .map((file) => [file.path, file.classification])
+    );
+    assert.deepEqual(classifications, {
+      "api/client/index.ts": "generated",
+      "dist-web/app.js": "generated",
+      "proto/user.pb.go": "generated",
+      "public/app.js": "minified",
+      "public/bundle.min.js": "minified",
+      "src/schema.ts": "generated",
+      "vendor/lib/index.js": "vendored",
+    });
+  });
+});
+
 test("counts languages, file types, and other", async () => {
   await withTempDir(async (root) => {
     await writeFile(path.join(root, "src/index.ts"), "");
@@ -99,3 +244,79 @@ test("counts languages, file types, and other", async () => {
     assert.ok(result.files.some((file) => file.path === "src/index.ts"));
   });
 });
+
+test("reports skipped files as diagnostics and a notice without marking the scan partial", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(path.join(root, "src/index.ts"), "export const ok = true;");
+    await writeFile(path.join(root, "data/blob.foo"), Buffer.from([0, 1, 2, 3]));
+    await writeFile(path.join(root, "big.txt"), "x".repeat(2 * 1024 * 1024));
+
+    const config = { ...createConfig(root), maxFileSizeMB: 1 };
+    const result = await runRepoScannerAgent(config);
+    assert.equal(result.partial, false);
+    const { text } = runOutputFormatterAgent(config, { content: "" }, undefined, undefined, result);
+    assert.ok(text.includes("Skipped 1 file for size and 1 file as binary (see Diagnostics)."));
+    assert.ok(!text.includes("PARTIAL RESULTS"));
+    assert.ok(
+      result.diagnostics.some(
+        (diagnostic) => diagnostic.code === "file-too-large" && diagnostic.path === "big.txt"
+      )
+    );
+    assert.ok(
+      result.diagnostics.some(
+        (diagnostic) => diagnostic.code === "binary-file" && diagnostic.path === "data/blob.foo"
+      )
+    );
+
+    const clean = await runRepoScannerAgent(createConfig(root));
+    assert.ok(!clean.diagnostics.some((diagnostic) => diagnostic.code === "file-too-large"));
+  });
+});
+
+test("applies nested .gitignore and .coderoastignore files", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(path.join(root, ".gitignore"), "*.log\n");
+    await writeFile(path.join(root, ".coderoastignore"), "src/generated/\n");
+    await writeFile(path.join(root, "packages/api/.gitignore"), "tmp/\n!keep.log\n");
+    await writeFile(path.join(root, "src/index.ts"), "");
+    await writeFile(path.join(root, "src/generated/client.ts"), "");
+    await writeFile(path.join(root, "packages/api/index.ts"), "");
+    await writeFile(path.join(root, "packages/api/tmp/cache.ts"), "");
+    await writeFile(path.join(root, "packages/api/keep.log"), "");
+    await writeFile(path.join(root, "packages/web/tmp/page.ts"), "");
+    await writeFile(path.join(root, "debug.log"), "");
+
+    const result = await runRepoScannerAgent(createConfig(root));
+    const paths = result.files.map((file) => file.path);
+    assert.ok(paths.includes("src/index.ts"));
+    assert.ok(paths.includes("packages/api/index.ts"));
+    assert.ok(paths.includes("packages/api/keep.log"));
+    assert.ok(paths.includes("packages/web/tmp/page.ts"));
+    assert.ok(!paths.includes("src/generated/client.ts"));
+    assert.ok(!paths.includes("packages/api/tmp/cache.ts"));
+    assert.ok(!paths.includes("debug.log"));
+    assert.ok(result.ignoredPaths.includes("src/generated"));
+    assert.ok(result.ignoredPaths.includes("packages/api/tmp"));
+  });
+});
+
+test("restricts scans with include and exclude globs", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(path.join(root, "packages/api/src/index.ts"), "");
+    await writeFile(path.join(root, "packages/api/src/schema.gen.ts"), "");
+    await writeFile(path.join(root, "packages/web/src/index.ts"), "");
+    await writeFile(path.join(root, "README.md"), "");
+
+    const result = await runRepoScannerAgent({
+      ...createConfig(root),
+      include: ["packages/api/**"],
+      exclude: ["**/*.gen.ts"],
+    });
+    assert.deepEqual(
+      result.files.map((file) => file.path),
+      ["packages/api/src/index.ts"]
+    );
+    assert.ok(result.ignoredPaths.includes("packages/api/src/schema.gen.ts"));
+    assert.ok(result.ignoredPaths.includes("README.md"));
+  });
+});
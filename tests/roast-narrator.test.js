@@ -98,3 +98,35 @@ test("falls back when Gemini output is invalid", async () => {
   }
   setGeminiClientFactoryForTests(null);
 });
+
+test("lists issues matching the focus first", async () => {
+  const originalKey = process.env.GEMINI_API_KEY;
+  delete process.env.GEMINI_API_KEY;
+  setGeminiClientFactoryForTests(null);
+
+  try {
+    const insights = createInsights();
+    insights.issues.push({
+      type: "security",
+      signal: "hardcodedSecret",
+      confidence: "high",
+      evidenceComplete: true,
+      evidence: [{ file: "src/keys.ts", startLine: 4, endLine: 4, metrics: [] }],
+    });
+
+    const general = await runRoastNarratorAgent(createConfig(), insights);
+    assert.match(general.content, /^1\. \[duplication\]/);
+
+    const focused = await runRoastNarratorAgent(
+      { ...createConfig(), focus: "security" },
+      insights
+    );
+    assert.match(focused.content, /^1\. \[security\] A credential looks hardcoded/);
+    assert.match(focused.content, /2\. \[duplication\]/);
+    assert.match(focused.actionItems[0], /src\/keys\.ts line 4/);
+  } finally {
+    if (originalKey) {
+      process.env.GEMINI_API_KEY = originalKey;
+    }
+  }
+});
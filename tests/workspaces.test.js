@@ -0,0 +1,121 @@
+const assert = require("node:assert/strict");
+const fs = require("node:fs/promises");
+const os = require("node:os");
+const path = require("node:path");
+const { test } = require("node:test");
+
+const { runRepoScannerAgent } = require("../dist/agents/repo-scanner-agent.js");
+const { runCodeAnalysisAgent } = require("../dist/agents/code-analysis-agent.js");
+const { runInsightAggregatorAgent } = require("../dist/agents/insight-aggregator-agent.js");
+
+async function withTempDir(callback) {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "coderoast-"));
+  try {
+    await callback(root);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+async function writeFile(filePath, contents = "") {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, contents);
+}
+
+function createConfig(root) {
+  return {
+    path: root,
+    severity: "gentle",
+    focus: "general",
+  };
+}
+
+test("detects npm, pnpm and tsconfig workspace packages", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(
+      path.join(root, "package.json"),
+      JSON.stringify({ name: "root", workspaces: ["packages/*", "!packages/skip"] })
+    );
+    await writeFile(
+      path.join(root, "pnpm-workspace.yaml"),
+      "packages:\n  - 'apps/**'\n"
+    );
+    await writeFile(
+      path.join(root, "tsconfig.json"),
+      '{\n  // project references\n  "references": [{ "path": "./tools/codegen" }]\n}\n'
+    );
+    await writeFile(
+      path.join(root, "packages/core/package.json"),
+      JSON.stringify({ name: "@acme/core", main: "lib/main.js" })
+    );
+    await writeFile(path.join(root, "packages/core/lib/main.js"), "module.exports = {};\n");
+    await writeFile(path.join(root, "packages/skip/package.json"), JSON.stringify({ name: "skip" }));
+    await writeFile(path.join(root, "apps/web/site/package.json"), JSON.stringify({}));
+    await writeFile(path.join(root, "apps/web/site/src/index.ts"), "export {};\n");
+    await writeFile(path.join(root, "tools/codegen/tsconfig.json"), "{}\n");
+
+    const scan = await runRepoScannerAgent(createConfig(root));
+
+    assert.deepEqual(
+      scan.packages.map((pkg) => [pkg.name, pkg.path, pkg.source, pkg.manifest]),
+      [
+        ["apps/web/site", "apps/web/site", "pnpm", "apps/web/site/package.json"],
+        ["@acme/core", "packages/core", "npm", "packages/core/package.json"],
+        ["tools/codegen", "tools/codegen", "tsconfig", "tools/codegen/tsconfig.json"],
+      ]
+    );
+    assert.deepEqual(scan.packages[0].entryPoints, ["apps/web/site/src/index.ts"]);
+    assert.deepEqual(scan.packages[1].entryPoints, ["packages/core/lib/main.js"]);
+    assert.ok(scan.entryPoints.includes("packages/core/lib/main.js"));
+  });
+});
+
+test("analyzes each workspace package and resolves cross-package imports", async () => {
+  await withTempDir(async (root) => {
+    await writeFile(
+      path.join(root, "package.json"),
+      JSON.stringify({ name: "root", workspaces: { packages: ["packages/*"] } })
+    );
+    await writeFile(path.join(root, "packages/core/package.json"), JSON.stringify({ name: "core" }));
+    await writeFile(path.join(root, "packages/app/package.json"), JSON.stringify({ name: "app" }));
+    await writeFile(
+      path.join(root, "packages/core/src/index.ts"),
+      'import { run } from "app/src/run";\nexport const core = () => run;\n'
+    );
+    await writeFile(
+      path.join(root, "packages/app/src/run.ts"),
+      'import { core } from "core";\nexport function run() {\n  return core;\n}\n'
+    );
+    await writeFile(
+      path.join(root, "packages/app/tests/run.test.ts"),
+      'import { run } from "../src/run";\nrun();\n'
+    );
+
+    const config = createConfig(root);
+    const scan = await runRepoScannerAgent(config);
+    const analysis = await runCodeAnalysisAgent(config, scan);
+
+    const [app, core] = analysis.packages;
+    assert.equal(app.name, "app");
+    assert.equal(app.files, 2);
+    assert.deepEqual(app.dependsOn, ["core"]);
+    assert.deepEqual(app.testPresence.testFiles, ["packages/app/tests/run.test.ts"]);
+    assert.equal(core.name, "core");
+    assert.deepEqual(core.dependsOn, ["app"]);
+    assert.equal(core.testPresence.hasTests, false);
+    assert.equal(core.circularDependencies, 1);
+    assert.equal(analysis.signals.circularDependencies.length, 1);
+
+    const insights = runInsightAggregatorAgent(scan, analysis);
+    const packageIssue = insights.issues.find((issue) => issue.signal === "packageTestPresence");
+    assert.ok(packageIssue);
+    assert.deepEqual(packageIssue.evidence, [
+      {
+        file: "packages/core/package.json",
+        startLine: 1,
+        endLine: 1,
+        metrics: [{ type: "count", value: 0 }],
+      },
+    ]);
+  });
+});